@@ -0,0 +1,32 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('ships', function(table) {
+    table.string('status').notNullable().defaultTo('active'); // active, maintenance, docked, retired
+    table.timestamp('deleted_at'); // set when a ship is retired (soft delete)
+  });
+
+  // Normalize free-text ship types to the values accepted by the API
+  await knex.raw(`
+    UPDATE ships SET ship_type = CASE lower(ship_type)
+      WHEN 'container ship' THEN 'container'
+      WHEN 'bulk carrier' THEN 'bulk_carrier'
+      WHEN 'cargo ship' THEN 'cargo'
+      WHEN 'passenger ship' THEN 'passenger'
+      ELSE lower(ship_type)
+    END
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('ships', function(table) {
+    table.dropColumn('status');
+    table.dropColumn('deleted_at');
+  });
+};
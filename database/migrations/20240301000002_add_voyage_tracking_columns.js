@@ -0,0 +1,29 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema
+    .raw('ALTER TABLE voyages RENAME COLUMN departure_time TO planned_departure_time')
+    .raw('ALTER TABLE voyages RENAME COLUMN actual_arrival TO actual_arrival_time')
+    .alterTable('voyages', function(table) {
+      table.timestamp('actual_departure_time');
+      table.json('feedback'); // captain/operator feedback after the voyage
+      table.index(['ship_id', 'status']);
+    });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema
+    .alterTable('voyages', function(table) {
+      table.dropIndex(['ship_id', 'status']);
+      table.dropColumn('actual_departure_time');
+      table.dropColumn('feedback');
+    })
+    .raw('ALTER TABLE voyages RENAME COLUMN actual_arrival_time TO actual_arrival')
+    .raw('ALTER TABLE voyages RENAME COLUMN planned_departure_time TO departure_time');
+};
@@ -0,0 +1,25 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('maintenance', function(table) {
+    table.string('location'); // port or shipyard where the work is carried out
+    table.timestamp('next_maintenance_date');
+    table.index(['ship_id', 'status']);
+    table.index('scheduled_date');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('maintenance', function(table) {
+    table.dropIndex('scheduled_date');
+    table.dropIndex(['ship_id', 'status']);
+    table.dropColumn('next_maintenance_date');
+    table.dropColumn('location');
+  });
+};
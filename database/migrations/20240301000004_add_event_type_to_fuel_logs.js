@@ -0,0 +1,25 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('fuel_logs', function(table) {
+    table.string('event_type').notNullable().defaultTo('consumption'); // consumption, bunkering
+    table.decimal('bunkered_amount', 10, 2); // in tons, for bunkering events
+    table.index(['ship_id', 'log_time']);
+    table.index(['voyage_id', 'log_time']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('fuel_logs', function(table) {
+    table.dropIndex(['voyage_id', 'log_time']);
+    table.dropIndex(['ship_id', 'log_time']);
+    table.dropColumn('bunkered_amount');
+    table.dropColumn('event_type');
+  });
+};
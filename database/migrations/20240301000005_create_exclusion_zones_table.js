@@ -0,0 +1,26 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('exclusion_zones', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name').notNullable();
+    table.string('category').notNullable(); // piracy, war_risk, sanctions, other
+    table.string('severity').notNullable(); // prohibited, restricted, advisory
+    table.text('description');
+    table.json('geometry').notNullable(); // GeoJSON Polygon or MultiPolygon
+    table.timestamp('valid_from'); // open-ended when null
+    table.timestamp('valid_until'); // open-ended when null
+    table.timestamps(true, true);
+    table.index(['valid_from', 'valid_until']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTable('exclusion_zones');
+};
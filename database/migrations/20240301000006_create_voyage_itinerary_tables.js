@@ -0,0 +1,55 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema
+    .createTable('voyage_port_calls', function(table) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('voyage_id').notNullable().references('id').inTable('voyages').onDelete('CASCADE');
+      table.integer('sequence').notNullable(); // 0 is the departure port
+      table.string('name').notNullable();
+      table.decimal('latitude', 10, 8).notNullable();
+      table.decimal('longitude', 11, 8).notNullable();
+      table.timestamp('planned_arrival_time'); // null at the departure port
+      table.timestamp('planned_departure_time'); // null at the final port
+      table.timestamp('actual_arrival_time');
+      table.timestamp('actual_departure_time');
+      table.decimal('port_stay_hours', 8, 2).notNullable().defaultTo(0);
+      table.decimal('cargo_loaded', 10, 2).notNullable().defaultTo(0); // in tons
+      table.decimal('cargo_discharged', 10, 2).notNullable().defaultTo(0); // in tons
+      table.timestamps(true, true);
+      table.unique(['voyage_id', 'sequence']);
+    })
+    .createTable('voyage_legs', function(table) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('voyage_id').notNullable().references('id').inTable('voyages').onDelete('CASCADE');
+      table.integer('sequence').notNullable(); // leg n sails from port call n to port call n + 1
+      table.uuid('from_port_call_id').notNullable().references('id').inTable('voyage_port_calls').onDelete('CASCADE');
+      table.uuid('to_port_call_id').notNullable().references('id').inTable('voyage_port_calls').onDelete('CASCADE');
+      table.timestamp('planned_departure_time').notNullable();
+      table.timestamp('estimated_arrival_time').notNullable();
+      table.timestamp('actual_departure_time');
+      table.timestamp('actual_arrival_time');
+      table.decimal('cargo_weight', 10, 2); // in tons, on board while sailing the leg
+      table.json('planned_route');
+      table.json('weather_forecast');
+      table.json('speed_profile');
+      table.decimal('estimated_distance', 10, 2); // in nautical miles
+      table.decimal('actual_distance', 10, 2); // in nautical miles
+      table.decimal('estimated_fuel_consumption', 10, 2);
+      table.decimal('actual_fuel_consumption', 10, 2);
+      table.timestamps(true, true);
+      table.unique(['voyage_id', 'sequence']);
+    });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema
+    .dropTable('voyage_legs')
+    .dropTable('voyage_port_calls');
+};
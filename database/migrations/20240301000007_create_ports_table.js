@@ -0,0 +1,42 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema
+    .createTable('ports', function(table) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.string('code', 5).notNullable().unique(); // UN/LOCODE, e.g. NLRTM
+      table.string('name').notNullable();
+      table.string('country', 2).notNullable(); // ISO 3166-1 alpha-2
+      table.decimal('latitude', 10, 8).notNullable();
+      table.decimal('longitude', 11, 8).notNullable();
+      table.decimal('max_draft', 5, 2); // in meters, unrestricted when null
+      table.string('timezone').notNullable(); // IANA zone, e.g. Europe/Amsterdam
+      table.timestamps(true, true);
+      table.index(['country']);
+    })
+    .alterTable('voyages', function(table) {
+      table.string('origin_port_code', 5).references('code').inTable('ports').onUpdate('CASCADE');
+      table.string('destination_port_code', 5).references('code').inTable('ports').onUpdate('CASCADE');
+    })
+    .alterTable('voyage_port_calls', function(table) {
+      table.string('port_code', 5).references('code').inTable('ports').onUpdate('CASCADE');
+    });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema
+    .alterTable('voyage_port_calls', function(table) {
+      table.dropColumn('port_code');
+    })
+    .alterTable('voyages', function(table) {
+      table.dropColumn('origin_port_code');
+      table.dropColumn('destination_port_code');
+    })
+    .dropTable('ports');
+};
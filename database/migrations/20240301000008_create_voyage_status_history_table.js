@@ -0,0 +1,30 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('voyage_status_history', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('voyage_id').notNullable().references('id').inTable('voyages').onDelete('CASCADE');
+    table.string('from_status'); // null for the status the voyage was created with
+    table.string('to_status').notNullable(); // planned, in_progress, completed, cancelled, delayed
+    table.string('changed_by');
+    table.text('notes');
+    table.timestamp('changed_at').notNullable().defaultTo(knex.fn.now());
+    table.index(['voyage_id', 'changed_at']);
+  });
+
+  // Existing voyages start their history with their current status
+  await knex.raw(`
+    insert into voyage_status_history (voyage_id, from_status, to_status, changed_at)
+    select id, null, status, created_at from voyages
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTable('voyage_status_history');
+};
@@ -0,0 +1,33 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('voyage_eta_revisions', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('voyage_id').notNullable().references('id').inTable('voyages').onDelete('CASCADE');
+    table.timestamp('report_time').notNullable(); // time of the position the estimate starts from
+    table.string('source').notNullable(); // noon_report, fuel_log, position_report
+    table.decimal('latitude', 10, 8).notNullable();
+    table.decimal('longitude', 11, 8).notNullable();
+    table.decimal('remaining_distance', 10, 2).notNullable(); // in nautical miles
+    table.decimal('speed', 5, 2).notNullable(); // in knots through the water
+    table.decimal('speed_loss', 5, 4).notNullable().defaultTo(0); // average fraction lost to weather
+    table.timestamp('estimated_arrival_time').notNullable();
+    table.timestamp('previous_estimated_arrival_time');
+    table.timestamp('planned_arrival_time').notNullable(); // the plan's ETA that delays are measured against
+    table.decimal('delay_hours', 8, 2).notNullable();
+    table.decimal('remaining_fuel_consumption', 10, 2);
+    table.boolean('delay_raised').notNullable().defaultTo(false);
+    table.timestamps(true, true);
+    table.index(['voyage_id', 'report_time']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTable('voyage_eta_revisions');
+};
@@ -0,0 +1,19 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('ships', function(table) {
+    table.string('mmsi', 9).unique(); // AIS Maritime Mobile Service Identity
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('ships', function(table) {
+    table.dropColumn('mmsi');
+  });
+};
@@ -0,0 +1,19 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('voyage_legs', function(table) {
+    table.json('alternative_routes'); // [{ waypoints, distance }] offered next to the planned route, distance in nautical miles
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('voyage_legs', function(table) {
+    table.dropColumn('alternative_routes');
+  });
+};
@@ -0,0 +1,21 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('ships', function(table) {
+    table.decimal('capacity', 12, 2).notNullable().alter(); // in tons
+    table.decimal('max_speed', 5, 2).notNullable().alter(); // in knots
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('ships', function(table) {
+    table.integer('capacity').notNullable().alter();
+    table.integer('max_speed').notNullable().alter();
+  });
+};
@@ -12,7 +12,8 @@ exports.seed = async function(knex) {
       id: '550e8400-e29b-41d4-a716-446655440001',
       name: 'MV Atlantic Explorer',
       imo_number: '9123456',
-      ship_type: 'Container Ship',
+      mmsi: '636012345',
+      ship_type: 'container',
       engine_type: 'Diesel',
       capacity: 15000,
       length: 200.5,
@@ -30,7 +31,8 @@ exports.seed = async function(knex) {
       id: '550e8400-e29b-41d4-a716-446655440002',
       name: 'MV Pacific Voyager',
       imo_number: '9234567',
-      ship_type: 'Bulk Carrier',
+      mmsi: '538004567',
+      ship_type: 'bulk_carrier',
       engine_type: 'Diesel',
       capacity: 25000,
       length: 180.0,
@@ -48,7 +50,8 @@ exports.seed = async function(knex) {
       id: '550e8400-e29b-41d4-a716-446655440003',
       name: 'MV Nordic Star',
       imo_number: '9345678',
-      ship_type: 'Tanker',
+      mmsi: '257034000',
+      ship_type: 'tanker',
       engine_type: 'Diesel',
       capacity: 50000,
       length: 250.0,
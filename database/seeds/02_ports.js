@@ -0,0 +1,41 @@
+const fs = require('fs');
+const path = require('path');
+
+// UN/LOCODE coordinates are degrees and minutes, e.g. "5157N 00405E"
+function parseCoordinates(value) {
+  const match = /^(\d{2})(\d{2})([NS]) (\d{3})(\d{2})([EW])$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid UN/LOCODE coordinates: ${value}`);
+  }
+  const [, latDeg, latMin, ns, lonDeg, lonMin, ew] = match;
+  const latitude = (Number(latDeg) + Number(latMin) / 60) * (ns === 'S' ? -1 : 1);
+  const longitude = (Number(lonDeg) + Number(lonMin) / 60) * (ew === 'W' ? -1 : 1);
+  return { latitude: Math.round(latitude * 1e6) / 1e6, longitude: Math.round(longitude * 1e6) / 1e6 };
+}
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> } 
+ */
+exports.seed = async function(knex) {
+  const [header, ...lines] = fs.readFileSync(path.join(__dirname, 'data', 'ports.csv'), 'utf8')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+  const columns = header.split(',');
+
+  const ports = lines.map(line => {
+    const values = line.split(',');
+    const record = Object.fromEntries(columns.map((column, index) => [column, values[index]]));
+    return {
+      code: record.locode,
+      name: record.name,
+      country: record.country,
+      ...parseCoordinates(record.coordinates),
+      max_draft: record.max_draft ? Number(record.max_draft) : null,
+      timezone: record.timezone
+    };
+  });
+
+  // Upsert rather than delete, since voyages reference ports by code
+  await knex('ports').insert(ports).onConflict('code').merge();
+};
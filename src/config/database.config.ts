@@ -1,2 +1,5 @@
 import knexConfig from './knexfile';
-export default knexConfig; 
\ No newline at end of file
+
+const environment = process.env.NODE_ENV || 'development';
+
+export default knexConfig[environment];
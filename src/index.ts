@@ -9,6 +9,11 @@ import { notFoundHandler } from './middleware/notFoundHandler';
 import voyageRoutes from './routes/voyageRoutes';
 import maintenanceRoutes from './routes/maintenanceRoutes';
 import aiRoutes from './routes/aiRoutes';
+import shipRoutes from './routes/shipRoutes';
+import fuelLogRoutes from './routes/fuelLogRoutes';
+import exclusionZoneRoutes from './routes/exclusionZoneRoutes';
+import portRoutes from './routes/portRoutes';
+import aisRoutes from './routes/aisRoutes';
 import { checkDatabaseConnection } from './utils/database';
 
 // Load environment variables
@@ -98,6 +103,11 @@ app.get('/health', async (req, res) => {
 app.use('/api/v1/voyages', voyageRoutes);
 app.use('/api/v1/maintenance', maintenanceRoutes);
 app.use('/api/v1/ai', aiRoutes);
+app.use('/api/v1/ships', shipRoutes);
+app.use('/api/v1/fuel-logs', fuelLogRoutes);
+app.use('/api/v1/exclusion-zones', exclusionZoneRoutes);
+app.use('/api/v1/ports', portRoutes);
+app.use('/api/v1/ais', aisRoutes);
 
 // Error handling middleware
 app.use(notFoundHandler);
@@ -1,6 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, param, query, validationResult } from 'express-validator';
+import { body, param, query, validationResult, CustomValidator } from 'express-validator';
 import { logger } from '../utils/logger';
+import {
+  isValidZoneGeometry,
+  EXCLUSION_ZONE_CATEGORIES,
+  EXCLUSION_ZONE_SEVERITIES
+} from '../services/Navigation/ExclusionZones';
+import { ROUTE_EXPORT_FORMATS } from '../services/Navigation/RouteExchange';
+import { DISTANCE_UNITS } from '../services/Navigation/Geometry';
+import { ICE_CLASSES } from '../services/Navigation/IceLimits';
+import { PORT_CODE_PATTERN } from '../models/Port';
+import { VOYAGE_STATUSES } from '../models/Voyage';
 
 // Handle validation results
 export const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
@@ -31,28 +41,65 @@ export const handleValidationErrors = (req: Request, res: Response, next: NextFu
   next();
 };
 
-// Voyage planning validation
+// Berth window object with ISO bounds, closing after it opens
+const isValidArrivalWindow = (window: { earliest?: unknown; latest?: unknown }): boolean =>
+  Boolean(window) && typeof window === 'object' &&
+  typeof window.earliest === 'string' && !isNaN(Date.parse(window.earliest)) &&
+  typeof window.latest === 'string' && !isNaN(Date.parse(window.latest)) &&
+  Date.parse(window.latest) > Date.parse(window.earliest);
+
+// True when the IANA time zone name is known to the runtime
+const isValidTimezone = (value: unknown): boolean => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Positions are only required for port calls given without a port code
+const portCallWithoutCode: CustomValidator = (value, { req, path }): boolean => {
+  const index = Number(/\[(\d+)\]/.exec(path)?.[1]);
+  return !req.body.portCalls?.[index]?.code;
+};
+
+// Voyage planning validation; origin and destination are replaced by portCalls for multi-port itineraries.
+// Each location is either a UN/LOCODE port code or a latitude/longitude pair.
 export const validateVoyagePlan = [
   body('origin')
+    .if(body('portCalls').not().exists())
     .notEmpty()
     .withMessage('Origin is required')
     .isObject()
     .withMessage('Origin must be an object'),
   body('origin.latitude')
+    .if(body('portCalls').not().exists())
+    .if(body('origin.code').not().exists())
     .isFloat({ min: -90, max: 90 })
     .withMessage('Origin latitude must be between -90 and 90'),
   body('origin.longitude')
+    .if(body('portCalls').not().exists())
+    .if(body('origin.code').not().exists())
     .isFloat({ min: -180, max: 180 })
     .withMessage('Origin longitude must be between -180 and 180'),
   body('destination')
+    .if(body('portCalls').not().exists())
     .notEmpty()
     .withMessage('Destination is required')
     .isObject()
     .withMessage('Destination must be an object'),
   body('destination.latitude')
+    .if(body('portCalls').not().exists())
+    .if(body('destination.code').not().exists())
     .isFloat({ min: -90, max: 90 })
     .withMessage('Destination latitude must be between -90 and 90'),
   body('destination.longitude')
+    .if(body('portCalls').not().exists())
+    .if(body('destination.code').not().exists())
     .isFloat({ min: -180, max: 180 })
     .withMessage('Destination longitude must be between -180 and 180'),
   body('shipId')
@@ -79,7 +126,164 @@ export const validateVoyagePlan = [
   body('preferences.maxWaveHeight')
     .optional()
     .isFloat({ min: 0 })
-    .withMessage('Max wave height must be a positive number')
+    .withMessage('Max wave height must be a positive number'),
+  body('preferences.maxLatitude')
+    .optional()
+    .isFloat({ min: 1, max: 89 })
+    .withMessage('Max latitude must be between 1 and 89 degrees'),
+  body('chokepoints')
+    .optional()
+    .isObject()
+    .withMessage('Chokepoints must be an object'),
+  body(['chokepoints.force', 'chokepoints.forbid'])
+    .optional()
+    .isArray()
+    .withMessage('Chokepoint lists must be arrays of chokepoint ids'),
+  body(['chokepoints.force.*', 'chokepoints.forbid.*'])
+    .isString()
+    .withMessage('Chokepoint ids must be strings'),
+  body('arrivalWindow')
+    .optional()
+    .isObject()
+    .withMessage('Arrival window must be an object'),
+  body(['arrivalWindow.earliest', 'arrivalWindow.latest'])
+    .if(body('arrivalWindow').exists())
+    .isISO8601()
+    .withMessage('Arrival window bounds must be valid ISO 8601 dates'),
+  body('arrivalWindow.latest')
+    .if(body('arrivalWindow').exists())
+    .custom((value, { req }) => new Date(value) > new Date(req.body.arrivalWindow.earliest))
+    .withMessage('Arrival window must end after it starts'),
+  body('portCalls')
+    .optional()
+    .isArray({ min: 2, max: 20 })
+    .withMessage('Port calls must be an array of 2 to 20 calls, starting with the departure port'),
+  body('portCalls.*.name')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Port call name must be a string with maximum 100 characters'),
+  body(['origin.code', 'destination.code', 'portCalls.*.code'])
+    .optional()
+    .toUpperCase()
+    .matches(PORT_CODE_PATTERN)
+    .withMessage('Port code must be a 5-character UN/LOCODE, e.g. NLRTM'),
+  body('portCalls.*.latitude')
+    .if(portCallWithoutCode)
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Port call latitude must be between -90 and 90'),
+  body('portCalls.*.longitude')
+    .if(portCallWithoutCode)
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Port call longitude must be between -180 and 180'),
+  body(['portCalls.*.portStay', 'portCalls.*.cargoLoaded', 'portCalls.*.cargoDischarged'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Port stay and cargo quantities must be positive numbers'),
+  body(['origin.sailingDraft', 'portCalls.*.sailingDraft'])
+    .optional()
+    .isFloat({ min: 0.1, max: 30 })
+    .withMessage('Sailing draft must be between 0.1 and 30 meters'),
+  body('portCalls.*.departureTime')
+    .optional()
+    .isISO8601()
+    .withMessage('Port call departure time must be a valid ISO 8601 date'),
+  body('portCalls.*.arrivalWindow')
+    .optional()
+    .custom(isValidArrivalWindow)
+    .withMessage('Port call arrival window needs ISO 8601 earliest and latest bounds, latest after earliest'),
+  body('portCalls.*.chokepoints')
+    .optional()
+    .isObject()
+    .withMessage('Port call chokepoints must be an object'),
+  body('chokepoints.force')
+    .if(body('portCalls').exists())
+    .not().exists()
+    .withMessage('Forced chokepoints apply to a single leg; set them on the port call instead')
+];
+
+// Port call actuals
+export const validatePortCallUpdate = [
+  param('sequence')
+    .isInt({ min: 0 })
+    .withMessage('Port call sequence must be a non-negative integer'),
+  body(['actualArrivalTime', 'actualDepartureTime'])
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Actual times must be valid ISO 8601 dates'),
+  body(['cargoLoaded', 'cargoDischarged'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Cargo quantities must be positive numbers')
+];
+
+// Voyage leg actuals
+export const validateVoyageLegUpdate = [
+  param('sequence')
+    .isInt({ min: 0 })
+    .withMessage('Leg sequence must be a non-negative integer'),
+  body(['actualDistance', 'actualFuelConsumption'])
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Actual distance and fuel consumption must be positive numbers')
+];
+
+// Voyage status change
+export const validateVoyageStatusUpdate = [
+  body('status')
+    .isIn(VOYAGE_STATUSES)
+    .withMessage(`Status must be one of: ${VOYAGE_STATUSES.join(', ')}`),
+  body('changedBy')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Changed by must be between 1 and 255 characters'),
+  body('notes')
+    .optional()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Notes must not exceed 2000 characters')
+];
+
+// Route export: the format, and optionally a leg's alternative route and the cross-track distance
+export const validateRouteExport = [
+  query('format')
+    .optional()
+    .isIn(ROUTE_EXPORT_FORMATS)
+    .withMessage(`Format must be one of: ${ROUTE_EXPORT_FORMATS.join(', ')}`),
+  query(['leg', 'alternative'])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Leg and alternative must be non-negative integers'),
+  query('xtd')
+    .optional()
+    .isFloat({ min: 0.01, max: 10 })
+    .withMessage('XTD must be between 0.01 and 10 nautical miles')
+];
+
+// RTZ route import; the ship comes from the query or the route's vessel MMSI
+export const validateRtzImport = [
+  query('shipId')
+    .optional()
+    .isUUID()
+    .withMessage('Ship ID must be a valid UUID'),
+  query('departureTime')
+    .optional()
+    .isISO8601()
+    .withMessage('Departure time must be a valid ISO 8601 date'),
+  body()
+    .isString()
+    .isLength({ min: 1, max: 5000000 })
+    .withMessage('Body must be an RTZ XML document')
+];
+
+// Voyage details
+export const validateVoyageDetails = [
+  query('unit')
+    .optional()
+    .isIn(DISTANCE_UNITS)
+    .withMessage(`Unit must be one of: ${DISTANCE_UNITS.join(', ')}`)
 ];
 
 // Voyage feedback validation
@@ -191,9 +395,21 @@ export const validateShip = [
     .isString()
     .isLength({ min: 1, max: 100 })
     .withMessage('Ship name must be between 1 and 100 characters'),
+  body('imoNumber')
+    .matches(/^\d{7}$/)
+    .withMessage('IMO number must be a 7-digit number'),
+  body('mmsi')
+    .optional({ nullable: true })
+    .matches(/^\d{9}$/)
+    .withMessage('MMSI must be a 9-digit number'),
   body('type')
     .isIn(['cargo', 'tanker', 'container', 'bulk_carrier', 'passenger'])
     .withMessage('Ship type must be one of: cargo, tanker, container, bulk_carrier, passenger'),
+  body('engineType')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Engine type must be between 1 and 50 characters'),
   body('specifications')
     .notEmpty()
     .withMessage('Specifications are required')
@@ -213,16 +429,342 @@ export const validateShip = [
     .withMessage('Fuel capacity must be a positive number'),
   body('specifications.cargoCapacity')
     .isFloat({ min: 0 })
-    .withMessage('Cargo capacity must be a non-negative number')
+    .withMessage('Cargo capacity must be a non-negative number'),
+  body('specifications.draft')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Draft must be a non-negative number'),
+  body('specifications.ice_class')
+    .optional()
+    .isIn(ICE_CLASSES)
+    .withMessage(`Ice class must be one of: ${ICE_CLASSES.join(', ')}`),
+  body('specifications.blockCoefficient')
+    .optional()
+    .isFloat({ min: 0.3, max: 0.95 })
+    .withMessage('Block coefficient must be between 0.3 and 0.95')
+];
+
+// Ship update validation (all fields optional)
+export const validateShipUpdate = [
+  body('name')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Ship name must be between 1 and 100 characters'),
+  body('imoNumber')
+    .optional()
+    .matches(/^\d{7}$/)
+    .withMessage('IMO number must be a 7-digit number'),
+  body('mmsi')
+    .optional({ nullable: true })
+    .matches(/^\d{9}$/)
+    .withMessage('MMSI must be a 9-digit number'),
+  body('type')
+    .optional()
+    .isIn(['cargo', 'tanker', 'container', 'bulk_carrier', 'passenger'])
+    .withMessage('Ship type must be one of: cargo, tanker, container, bulk_carrier, passenger'),
+  body('status')
+    .optional()
+    .isIn(['active', 'maintenance', 'docked'])
+    .withMessage('Status must be one of: active, maintenance, docked'),
+  body('specifications')
+    .optional()
+    .isObject()
+    .withMessage('Specifications must be an object'),
+  body(['specifications.length', 'specifications.width', 'specifications.maxSpeed', 'specifications.fuelCapacity'])
+    .optional()
+    .isFloat({ min: 1 })
+    .withMessage('Ship dimensions, speed and fuel capacity must be positive numbers'),
+  body(['specifications.cargoCapacity', 'specifications.draft'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Cargo capacity and draft must be non-negative numbers'),
+  body('specifications.ice_class')
+    .optional()
+    .isIn(ICE_CLASSES)
+    .withMessage(`Ice class must be one of: ${ICE_CLASSES.join(', ')}`),
+  body('specifications.blockCoefficient')
+    .optional()
+    .isFloat({ min: 0.3, max: 0.95 })
+    .withMessage('Block coefficient must be between 0.3 and 0.95')
+];
+
+// Ship list filters
+export const validateShipFilters = [
+  query('type')
+    .optional()
+    .isIn(['cargo', 'tanker', 'container', 'bulk_carrier', 'passenger'])
+    .withMessage('Ship type must be one of: cargo, tanker, container, bulk_carrier, passenger'),
+  query('status')
+    .optional()
+    .isIn(['active', 'maintenance', 'docked', 'retired'])
+    .withMessage('Status must be one of: active, maintenance, docked, retired')
+];
+
+// Fuel log validation rules, shared by single and bulk ingestion
+const fuelLogRules = (prefix: string) => [
+  body(`${prefix}shipId`)
+    .isUUID()
+    .withMessage('Ship ID must be a valid UUID'),
+  body(`${prefix}voyageId`)
+    .optional()
+    .isUUID()
+    .withMessage('Voyage ID must be a valid UUID'),
+  body(`${prefix}logTime`)
+    .isISO8601()
+    .withMessage('Log time must be a valid ISO 8601 date'),
+  body(`${prefix}eventType`)
+    .optional()
+    .isIn(['consumption', 'bunkering'])
+    .withMessage('Event type must be one of: consumption, bunkering'),
+  body(`${prefix}fuelConsumed`)
+    .isFloat({ min: 0 })
+    .withMessage('Fuel consumed must be a non-negative number'),
+  body(`${prefix}fuelRemaining`)
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Fuel remaining must be a non-negative number'),
+  body(`${prefix}bunkeredAmount`)
+    .if(body(`${prefix}eventType`).equals('bunkering'))
+    .isFloat({ min: 0 })
+    .withMessage('Bunkered amount is required for bunkering events'),
+  body(`${prefix}currentSpeed`)
+    .optional()
+    .isFloat({ min: 0, max: 50 })
+    .withMessage('Current speed must be between 0 and 50 knots'),
+  body(`${prefix}position.latitude`)
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body(`${prefix}position.longitude`)
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  body(`${prefix}engineLoad`)
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Engine load must be a percentage between 0 and 100'),
+  body(`${prefix}fuelType`)
+    .optional()
+    .isIn(['HFO', 'VLSFO', 'MGO', 'MDO', 'LNG'])
+    .withMessage('Fuel type must be one of: HFO, VLSFO, MGO, MDO, LNG'),
+  body(`${prefix}weatherConditions`)
+    .optional()
+    .isObject()
+    .withMessage('Weather conditions must be an object')
+];
+
+// Single fuel log validation
+export const validateFuelLog = fuelLogRules('');
+
+// Bulk fuel log validation
+export const validateFuelLogBatch = [
+  body('logs')
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Logs must be an array of 1 to 500 entries'),
+  ...fuelLogRules('logs.*.')
+];
+
+// Noon report validation (JSON body or parsed plain-text report)
+export const validateNoonReport = [
+  body('reportTime')
+    .isISO8601()
+    .withMessage('Report time must be a valid ISO 8601 date'),
+  body('position.latitude')
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Position latitude must be between -90 and 90'),
+  body('position.longitude')
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Position longitude must be between -180 and 180'),
+  body('distanceRun')
+    .isFloat({ min: 0, max: 1000 })
+    .withMessage('Distance run must be between 0 and 1000 nautical miles'),
+  body('averageSpeed')
+    .isFloat({ min: 0, max: 50 })
+    .withMessage('Average speed must be between 0 and 50 knots'),
+  body('hoursSteamed')
+    .optional()
+    .isFloat({ min: 0, max: 25 })
+    .withMessage('Hours steamed must be between 0 and 25'),
+  body('consumption')
+    .isArray({ min: 1 })
+    .withMessage('Consumption must list at least one fuel type'),
+  body(['consumption.*.fuelType', 'rob.*.fuelType'])
+    .isIn(['HFO', 'VLSFO', 'MGO', 'MDO', 'LNG'])
+    .withMessage('Fuel type must be one of: HFO, VLSFO, MGO, MDO, LNG'),
+  body(['consumption.*.mainEngine', 'consumption.*.auxiliaryEngine'])
+    .isFloat({ min: 0 })
+    .withMessage('Main and auxiliary engine consumption must be non-negative numbers'),
+  body('consumption.*.boiler')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Boiler consumption must be a non-negative number'),
+  body('rob')
+    .isArray({ min: 1 })
+    .withMessage('ROB must list at least one fuel type'),
+  body('rob.*.quantity')
+    .isFloat({ min: 0 })
+    .withMessage('ROB quantity must be a non-negative number'),
+  body('weather')
+    .optional()
+    .isObject()
+    .withMessage('Weather must be an object'),
+  body('weather.windDirection')
+    .optional()
+    .isIn(['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'])
+    .withMessage('Wind direction must be a compass point'),
+  body('weather.windForce')
+    .optional()
+    .isInt({ min: 0, max: 12 })
+    .withMessage('Wind force must be between 0 and 12 (Beaufort)'),
+  body('weather.seaState')
+    .optional()
+    .isInt({ min: 0, max: 9 })
+    .withMessage('Sea state must be between 0 and 9 (Douglas)'),
+  body(['weather.swellHeight', 'weather.visibility'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Swell height and visibility must be non-negative numbers'),
+  body('remarks')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Remarks must be a string with maximum 1000 characters')
+];
+
+// AIS feed batch: raw NMEA sentences, one per entry
+export const validateAisMessages = [
+  body('sentences')
+    .isArray({ min: 1, max: 10000 })
+    .withMessage('Sentences must be an array of 1 to 10000 NMEA sentences'),
+  body('sentences.*')
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Each sentence must be a string of at most 200 characters'),
+  body('receivedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Received at must be a valid ISO 8601 date')
+];
+
+// Port registry validation rules; the code identifies the port and cannot be updated
+const portRules = (optional: boolean) => {
+  const field = (path: string) => (optional ? body(path).optional() : body(path));
+  return [
+    ...(optional ? [] : [
+      body('code')
+        .isString()
+        .toUpperCase()
+        .matches(PORT_CODE_PATTERN)
+        .withMessage('Port code must be a 5-character UN/LOCODE, e.g. NLRTM')
+    ]),
+    field('name')
+      .isString()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Port name must be between 1 and 100 characters'),
+    field('country')
+      .isString()
+      .toUpperCase()
+      .matches(/^[A-Z]{2}$/)
+      .withMessage('Country must be an ISO 3166-1 alpha-2 code'),
+    field('latitude')
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Latitude must be between -90 and 90'),
+    field('longitude')
+      .isFloat({ min: -180, max: 180 })
+      .withMessage('Longitude must be between -180 and 180'),
+    body('maxDraft')
+      .optional({ nullable: true })
+      .isFloat({ min: 0, max: 30 })
+      .withMessage('Max draft must be between 0 and 30 meters'),
+    field('timezone')
+      .custom(isValidTimezone)
+      .withMessage('Timezone must be an IANA time zone, e.g. Europe/Amsterdam')
+  ];
+};
+
+export const validatePort = portRules(false);
+
+export const validatePortUpdate = portRules(true);
+
+export const validatePortCodeParam = param('code')
+  .toUpperCase()
+  .matches(PORT_CODE_PATTERN)
+  .withMessage('Port code must be a 5-character UN/LOCODE, e.g. NLRTM');
+
+// Exclusion zone validation rules; every field is optional on update
+const exclusionZoneRules = (optional: boolean) => {
+  const field = (path: string) => (optional ? body(path).optional() : body(path));
+  return [
+    field('name')
+      .isString()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Zone name must be between 1 and 100 characters'),
+    field('category')
+      .isIn(EXCLUSION_ZONE_CATEGORIES)
+      .withMessage(`Category must be one of: ${EXCLUSION_ZONE_CATEGORIES.join(', ')}`),
+    field('severity')
+      .isIn(EXCLUSION_ZONE_SEVERITIES)
+      .withMessage(`Severity must be one of: ${EXCLUSION_ZONE_SEVERITIES.join(', ')}`),
+    field('geometry')
+      .custom(isValidZoneGeometry)
+      .withMessage('Geometry must be a GeoJSON Polygon or MultiPolygon with closed [longitude, latitude] rings'),
+    body('description')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Description must be a string with maximum 1000 characters'),
+    body(['validFrom', 'validUntil'])
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('Validity dates must be valid ISO 8601 dates'),
+    body('validUntil')
+      .optional({ nullable: true })
+      .custom((value, { req }) => !req.body.validFrom || new Date(value) > new Date(req.body.validFrom))
+      .withMessage('Valid until must be after valid from')
+  ];
+};
+
+export const validateExclusionZone = exclusionZoneRules(false);
+
+export const validateExclusionZoneUpdate = exclusionZoneRules(true);
+
+// Exclusion zone list filters
+export const validateExclusionZoneFilters = [
+  query('category')
+    .optional()
+    .isIn(EXCLUSION_ZONE_CATEGORIES)
+    .withMessage(`Category must be one of: ${EXCLUSION_ZONE_CATEGORIES.join(', ')}`),
+  query('severity')
+    .optional()
+    .isIn(EXCLUSION_ZONE_SEVERITIES)
+    .withMessage(`Severity must be one of: ${EXCLUSION_ZONE_SEVERITIES.join(', ')}`)
 ];
 
 export default {
   handleValidationErrors,
   validateVoyagePlan,
+  validatePortCallUpdate,
+  validateVoyageLegUpdate,
+  validateVoyageStatusUpdate,
   validateVoyageFeedback,
+  validateRouteExport,
+  validateRtzImport,
+  validateVoyageDetails,
   validateMaintenanceAlert,
   validatePagination,
   validateUUIDParam,
   validateDateRange,
-  validateShip
+  validateShip,
+  validateShipUpdate,
+  validateFuelLog,
+  validateFuelLogBatch,
+  validateNoonReport,
+  validateExclusionZone,
+  validateExclusionZoneUpdate,
+  validateExclusionZoneFilters,
+  validatePort,
+  validatePortUpdate,
+  validatePortCodeParam,
+  validateAisMessages
 }; 
\ No newline at end of file
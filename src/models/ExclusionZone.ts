@@ -0,0 +1,188 @@
+import { Knex } from 'knex';
+import { db, mapColumnNames } from '../utils/database';
+import { logger } from '../utils/logger';
+import {
+  ExclusionZoneArea,
+  ExclusionZoneCategory,
+  ExclusionZoneGeometry,
+  ExclusionZoneSeverity
+} from '../services/Navigation/ExclusionZones';
+
+export interface ExclusionZone extends ExclusionZoneArea {
+  description: string | null;
+  validFrom: Date | null; // in force from the beginning of time when null
+  validUntil: Date | null; // in force indefinitely when null
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateExclusionZoneInput {
+  name: string;
+  category: ExclusionZoneCategory;
+  severity: ExclusionZoneSeverity;
+  geometry: ExclusionZoneGeometry;
+  description?: string | null;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+}
+
+export type UpdateExclusionZoneInput = Partial<CreateExclusionZoneInput>;
+
+export interface ExclusionZoneQueryOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  category?: ExclusionZoneCategory;
+  severity?: ExclusionZoneSeverity;
+  activeAt?: Date; // only zones in force at this time
+}
+
+interface ExclusionZoneRow {
+  id: string;
+  name: string;
+  category: ExclusionZoneCategory;
+  severity: ExclusionZoneSeverity;
+  description: string | null;
+  geometry: ExclusionZoneGeometry;
+  valid_from: Date | null;
+  valid_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TABLE = 'exclusion_zones';
+
+const SORTABLE_COLUMNS = mapColumnNames(['name', 'category', 'severity', 'validFrom', 'validUntil', 'createdAt', 'updatedAt']);
+
+export class ExclusionZoneService {
+  async findById(id: string): Promise<ExclusionZone | null> {
+    const row = await db(TABLE).where({ id }).first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findAll(options: ExclusionZoneQueryOptions = {}): Promise<{
+    zones: ExclusionZone[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+
+    const query = db(TABLE);
+
+    if (options.category) {
+      query.where('category', options.category);
+    }
+    if (options.severity) {
+      query.where('severity', options.severity);
+    }
+    if (options.activeAt) {
+      this.whereActive(query, options.activeAt);
+    }
+
+    const [{ count }] = await query.clone().clearSelect().count<{ count: string }[]>('* as count');
+
+    const sortColumn = (options.sortBy && SORTABLE_COLUMNS[options.sortBy]) || 'name';
+    const rows = await query
+      .select('*')
+      .orderBy(sortColumn, options.sortOrder || 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      zones: rows.map(row => this.mapRow(row)),
+      total: Number(count),
+      page,
+      limit
+    };
+  }
+
+  // Every zone in force at the given time (now when omitted), for route planning
+  async findActive(at: Date = new Date()): Promise<ExclusionZone[]> {
+    const rows = await this.whereActive(db(TABLE), at).orderBy('name', 'asc');
+    return rows.map((row: ExclusionZoneRow) => this.mapRow(row));
+  }
+
+  async create(input: CreateExclusionZoneInput): Promise<ExclusionZone> {
+    try {
+      const [row] = await db(TABLE)
+        .insert({
+          name: input.name,
+          category: input.category,
+          severity: input.severity,
+          description: input.description || null,
+          geometry: JSON.stringify(input.geometry),
+          valid_from: input.validFrom || null,
+          valid_until: input.validUntil || null
+        })
+        .returning('*');
+
+      logger.info('Exclusion zone created', { zoneId: row.id, category: row.category, severity: row.severity });
+      return this.mapRow(row);
+    } catch (error) {
+      logger.error('Failed to create exclusion zone', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name: input.name
+      });
+      throw error;
+    }
+  }
+
+  async update(id: string, input: UpdateExclusionZoneInput): Promise<ExclusionZone | null> {
+    const changes: Partial<ExclusionZoneRow> = {
+      name: input.name,
+      category: input.category,
+      severity: input.severity,
+      description: input.description,
+      valid_from: input.validFrom,
+      valid_until: input.validUntil
+    };
+
+    const [row] = await db(TABLE)
+      .where({ id })
+      .update({
+        ...changes,
+        ...(input.geometry ? { geometry: JSON.stringify(input.geometry) } : {}),
+        updated_at: db.fn.now()
+      })
+      .returning('*');
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async delete(id: string): Promise<ExclusionZone | null> {
+    const [row] = await db(TABLE).where({ id }).delete().returning('*');
+    if (!row) {
+      return null;
+    }
+
+    logger.info('Exclusion zone deleted', { zoneId: id });
+    return this.mapRow(row);
+  }
+
+  // Open-ended bounds count as always in force
+  private whereActive(query: Knex.QueryBuilder, at: Date): Knex.QueryBuilder {
+    return query
+      .where(builder => builder.whereNull('valid_from').orWhere('valid_from', '<=', at))
+      .where(builder => builder.whereNull('valid_until').orWhere('valid_until', '>', at));
+  }
+
+  private mapRow(row: ExclusionZoneRow): ExclusionZone {
+    return {
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      severity: row.severity,
+      description: row.description,
+      geometry: row.geometry,
+      validFrom: row.valid_from,
+      validUntil: row.valid_until,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const exclusionZoneService = new ExclusionZoneService();
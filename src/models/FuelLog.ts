@@ -0,0 +1,333 @@
+import { Knex } from 'knex';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export type FuelLogEventType = 'consumption' | 'bunkering';
+
+export interface FuelLog {
+  id: string;
+  shipId: string;
+  voyageId: string | null;
+  logTime: Date;
+  eventType: FuelLogEventType;
+  fuelConsumed: number; // tons
+  fuelRemaining: number | null; // tons
+  bunkeredAmount: number | null; // tons
+  currentSpeed: number | null; // knots
+  position: { latitude: number; longitude: number } | null;
+  engineLoad: number | null; // percentage
+  fuelType: string | null;
+  weatherConditions: { [key: string]: unknown } | null;
+  additionalMetrics: { [key: string]: unknown } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateFuelLogInput {
+  shipId: string;
+  voyageId?: string;
+  logTime: Date;
+  eventType?: FuelLogEventType;
+  fuelConsumed: number;
+  fuelRemaining?: number;
+  bunkeredAmount?: number;
+  currentSpeed?: number;
+  position?: { latitude: number; longitude: number };
+  engineLoad?: number;
+  fuelType?: string;
+  weatherConditions?: { [key: string]: unknown };
+  additionalMetrics?: { [key: string]: unknown };
+}
+
+export interface FuelLogQueryOptions {
+  startTime?: Date;
+  endTime?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface FuelLogConsistencyIssue {
+  type: 'fuel_remaining_increased' | 'bunkering_exceeds_delivery';
+  shipId: string;
+  logTime: Date;
+  logId?: string;
+  previousLogTime: Date;
+  previousRemaining: number;
+  currentRemaining: number;
+  message: string;
+}
+
+interface FuelLogRow {
+  id: string;
+  ship_id: string;
+  voyage_id: string | null;
+  log_time: Date;
+  event_type: FuelLogEventType;
+  fuel_consumed: string;
+  fuel_remaining: string | null;
+  bunkered_amount: string | null;
+  current_speed: string | null;
+  current_lat: string | null;
+  current_lng: string | null;
+  weather_conditions: { [key: string]: unknown } | null;
+  engine_load: string | null;
+  fuel_type: string | null;
+  additional_metrics: { [key: string]: unknown } | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+type SequenceEntry = Pick<FuelLog, 'shipId' | 'logTime' | 'eventType' | 'fuelType' | 'fuelRemaining' | 'bunkeredAmount'> & {
+  id?: string;
+};
+
+const TABLE = 'fuel_logs';
+
+// Tank soundings are not exact; ignore increases smaller than this (tons)
+const FUEL_REMAINING_TOLERANCE = 0.5;
+
+const toNumber = (value: string | number | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class FuelLogService {
+  // Validates the batch against stored history and inserts it atomically.
+  // Nothing is written when any consistency issue is found.
+  async ingest(inputs: CreateFuelLogInput[], trx?: Knex.Transaction): Promise<{
+    inserted: FuelLog[];
+    issues: FuelLogConsistencyIssue[];
+  }> {
+    const issues: FuelLogConsistencyIssue[] = [];
+    const query = trx || db;
+
+    // Fuel remaining is tracked per tank, so each ship/fuel type pair is its own sequence
+    const sequences = new Map<string, CreateFuelLogInput[]>();
+    for (const input of inputs) {
+      const key = `${input.shipId}:${input.fuelType || ''}`;
+      sequences.set(key, [...(sequences.get(key) || []), input]);
+    }
+
+    for (const sequenceInputs of sequences.values()) {
+      const { shipId, fuelType } = sequenceInputs[0];
+      const ordered = [...sequenceInputs].sort((a, b) => a.logTime.getTime() - b.logTime.getTime());
+      const previous = await this.findAdjacentLog(query, shipId, fuelType, ordered[0].logTime, 'before');
+      const next = await this.findAdjacentLog(query, shipId, fuelType, ordered[ordered.length - 1].logTime, 'after');
+
+      const sequence: SequenceEntry[] = [
+        ...(previous ? [previous] : []),
+        ...ordered.map(input => ({
+          shipId,
+          logTime: input.logTime,
+          eventType: input.eventType || 'consumption',
+          fuelType: input.fuelType || null,
+          fuelRemaining: input.fuelRemaining ?? null,
+          bunkeredAmount: input.bunkeredAmount ?? null
+        })),
+        ...(next ? [next] : [])
+      ];
+
+      issues.push(...this.findSequenceIssues(sequence));
+    }
+
+    if (issues.length > 0) {
+      logger.warn('Fuel log ingestion rejected', { issueCount: issues.length });
+      return { inserted: [], issues };
+    }
+
+    try {
+      const rows = await query(TABLE)
+        .insert(inputs.map(input => this.toRow(input)))
+        .returning('*');
+
+      logger.info('Fuel logs ingested', { count: rows.length });
+      return { inserted: rows.map((row: FuelLogRow) => this.mapRow(row)), issues };
+    } catch (error) {
+      logger.error('Failed to ingest fuel logs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        count: inputs.length
+      });
+      throw error;
+    }
+  }
+
+  async findLatestByShipId(shipId: string): Promise<FuelLog | null> {
+    const row = await db(TABLE)
+      .where({ ship_id: shipId })
+      .orderBy('log_time', 'desc')
+      .first();
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findByVoyage(voyageId: string, options: FuelLogQueryOptions = {}): Promise<FuelLog[]> {
+    const query = db(TABLE).where({ voyage_id: voyageId }).orderBy('log_time', 'asc');
+    this.applyTimeRange(query, options);
+
+    const rows = await query;
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async findByShip(shipId: string, options: FuelLogQueryOptions = {}): Promise<{
+    fuelLogs: FuelLog[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+
+    const query = db(TABLE).where({ ship_id: shipId });
+    this.applyTimeRange(query, options);
+
+    const [{ count }] = await query.clone().count<{ count: string }[]>('* as count');
+    const rows = await query
+      .select('*')
+      .orderBy('log_time', 'desc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      fuelLogs: rows.map(row => this.mapRow(row)),
+      total: Number(count),
+      page,
+      limit
+    };
+  }
+
+  async checkShipConsistency(shipId: string, options: FuelLogQueryOptions = {}): Promise<FuelLogConsistencyIssue[]> {
+    const query = db(TABLE).where({ ship_id: shipId }).orderBy('log_time', 'asc');
+    this.applyTimeRange(query, options);
+
+    const rows = await query;
+    const sequences = new Map<string, FuelLog[]>();
+    for (const log of rows.map(row => this.mapRow(row))) {
+      const key = log.fuelType || '';
+      sequences.set(key, [...(sequences.get(key) || []), log]);
+    }
+
+    return Array.from(sequences.values())
+      .flatMap(sequence => this.findSequenceIssues(sequence))
+      .sort((a, b) => a.logTime.getTime() - b.logTime.getTime());
+  }
+
+  private findSequenceIssues(sequence: SequenceEntry[]): FuelLogConsistencyIssue[] {
+    const issues: FuelLogConsistencyIssue[] = [];
+    let previous: SequenceEntry | null = null;
+
+    for (const entry of sequence) {
+      if (entry.fuelRemaining === null) {
+        continue;
+      }
+
+      if (previous && previous.fuelRemaining !== null) {
+        const increase = entry.fuelRemaining - previous.fuelRemaining;
+        const base = {
+          shipId: entry.shipId,
+          logTime: entry.logTime,
+          logId: entry.id,
+          previousLogTime: previous.logTime,
+          previousRemaining: previous.fuelRemaining,
+          currentRemaining: entry.fuelRemaining
+        };
+
+        if (entry.eventType !== 'bunkering' && increase > FUEL_REMAINING_TOLERANCE) {
+          issues.push({
+            ...base,
+            type: 'fuel_remaining_increased',
+            message: `Fuel remaining increased by ${increase.toFixed(2)} t without a bunkering event`
+          });
+        } else if (
+          entry.eventType === 'bunkering' &&
+          entry.bunkeredAmount !== null &&
+          increase > entry.bunkeredAmount + FUEL_REMAINING_TOLERANCE
+        ) {
+          issues.push({
+            ...base,
+            type: 'bunkering_exceeds_delivery',
+            message: `Fuel remaining increased by ${increase.toFixed(2)} t but only ${entry.bunkeredAmount} t was bunkered`
+          });
+        }
+      }
+
+      previous = entry;
+    }
+
+    return issues;
+  }
+
+  private async findAdjacentLog(
+    query: Knex,
+    shipId: string,
+    fuelType: string | undefined,
+    logTime: Date,
+    direction: 'before' | 'after'
+  ): Promise<FuelLog | null> {
+    const row = await query(TABLE)
+      .where({ ship_id: shipId })
+      .where(builder => {
+        if (fuelType) {
+          builder.where('fuel_type', fuelType);
+        } else {
+          builder.whereNull('fuel_type');
+        }
+      })
+      .whereNotNull('fuel_remaining')
+      .where('log_time', direction === 'before' ? '<' : '>', logTime)
+      .orderBy('log_time', direction === 'before' ? 'desc' : 'asc')
+      .first();
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  private applyTimeRange(query: Knex.QueryBuilder, options: FuelLogQueryOptions): void {
+    if (options.startTime) {
+      query.where('log_time', '>=', options.startTime);
+    }
+    if (options.endTime) {
+      query.where('log_time', '<=', options.endTime);
+    }
+  }
+
+  private toRow(input: CreateFuelLogInput): { [column: string]: unknown } {
+    return {
+      ship_id: input.shipId,
+      voyage_id: input.voyageId,
+      log_time: input.logTime,
+      event_type: input.eventType || 'consumption',
+      fuel_consumed: input.fuelConsumed,
+      fuel_remaining: input.fuelRemaining,
+      bunkered_amount: input.bunkeredAmount,
+      current_speed: input.currentSpeed,
+      current_lat: input.position?.latitude,
+      current_lng: input.position?.longitude,
+      engine_load: input.engineLoad,
+      fuel_type: input.fuelType,
+      weather_conditions: input.weatherConditions ? JSON.stringify(input.weatherConditions) : null,
+      additional_metrics: input.additionalMetrics ? JSON.stringify(input.additionalMetrics) : null
+    };
+  }
+
+  private mapRow(row: FuelLogRow): FuelLog {
+    return {
+      id: row.id,
+      shipId: row.ship_id,
+      voyageId: row.voyage_id,
+      logTime: row.log_time,
+      eventType: row.event_type,
+      fuelConsumed: Number(row.fuel_consumed),
+      fuelRemaining: toNumber(row.fuel_remaining),
+      bunkeredAmount: toNumber(row.bunkered_amount),
+      currentSpeed: toNumber(row.current_speed),
+      position: row.current_lat !== null && row.current_lng !== null
+        ? { latitude: Number(row.current_lat), longitude: Number(row.current_lng) }
+        : null,
+      engineLoad: toNumber(row.engine_load),
+      fuelType: row.fuel_type,
+      weatherConditions: row.weather_conditions,
+      additionalMetrics: row.additional_metrics,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const fuelLogService = new FuelLogService();
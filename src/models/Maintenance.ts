@@ -0,0 +1,567 @@
+import { Knex } from 'knex';
+import { db, mapColumnNames } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export type MaintenanceAlertType = 'preventive' | 'corrective' | 'emergency';
+export type MaintenancePriority = 'low' | 'medium' | 'high' | 'critical';
+export type MaintenanceStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'overdue';
+
+export interface MaintenancePart {
+  name: string;
+  partNumber?: string;
+  quantity?: number;
+  cost?: number;
+}
+
+export interface Maintenance {
+  id: string;
+  shipId: string;
+  component: string;
+  alertType: MaintenanceAlertType;
+  priority: MaintenancePriority;
+  status: MaintenanceStatus;
+  description: string;
+  scheduledDate: Date | null;
+  completedDate: Date | null;
+  nextMaintenanceDate: Date | null;
+  cost: number | null;
+  technician: string | null;
+  location: string | null;
+  parts: MaintenancePart[];
+  notes: string | null;
+  hoursRequired: number | null;
+  actualHours: number | null;
+  nextServiceHours: number | null;
+  aiPredictedDate: Date | null;
+  aiConfidenceScore: number | null; // 0-1
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateMaintenanceInput {
+  shipId: string;
+  component: string;
+  alertType: MaintenanceAlertType;
+  priority: MaintenancePriority;
+  description: string;
+  estimatedCost?: number;
+  scheduledDate: Date;
+  technician?: string;
+  location?: string;
+  parts?: MaintenancePart[];
+  notes?: string;
+  hoursRequired?: number;
+  aiPredictedDate?: Date;
+  aiConfidenceScore?: number;
+}
+
+export type UpdateMaintenanceInput = Partial<Omit<Maintenance, 'id' | 'shipId' | 'createdAt' | 'updatedAt'>> & {
+  estimatedCost?: number;
+};
+
+export interface MaintenanceQueryOptions {
+  page?: number;
+  limit?: number;
+  shipId?: string;
+  priority?: MaintenancePriority;
+  status?: MaintenanceStatus;
+  overdue?: boolean;
+}
+
+export interface MaintenanceAnalytics {
+  shipId: string;
+  period: { startDate: Date | null; endDate: Date | null };
+  totalRecords: number;
+  totalCost: number;
+  averageCost: number | null;
+  totalHours: number;
+  costByComponent: Array<{
+    component: string;
+    records: number;
+    completed: number;
+    totalCost: number;
+    averageCost: number | null;
+    totalHours: number;
+    emergencyCount: number;
+    averageDelayDays: number | null; // completion date vs scheduled date
+  }>;
+  costByAlertType: { [type: string]: number };
+  monthlyCost: Array<{ month: string; totalCost: number; records: number }>;
+}
+
+export interface GeneratedMaintenanceAlert {
+  type: 'overdue' | 'upcoming' | 'predicted' | 'recurring_failure';
+  severity: 'info' | 'warning' | 'critical';
+  component: string;
+  message: string;
+  maintenanceId?: string;
+  dueDate?: Date;
+}
+
+export interface MaintenanceStats {
+  shipId: string;
+  total: number;
+  byStatus: { [status: string]: number };
+  byPriority: { [priority: string]: number };
+  overdue: number;
+  completionRate: number | null; // completed / (total - cancelled)
+  totalCost: number;
+  averageCost: number | null;
+  averageActualHours: number | null;
+}
+
+interface MaintenanceRow {
+  id: string;
+  ship_id: string;
+  component: string;
+  alert_type: MaintenanceAlertType;
+  priority: MaintenancePriority;
+  status: MaintenanceStatus;
+  description: string;
+  scheduled_date: Date | null;
+  completed_date: Date | null;
+  next_maintenance_date: Date | null;
+  cost: string | null;
+  performed_by: string | null;
+  location: string | null;
+  parts_used: MaintenancePart[] | null;
+  notes: string | null;
+  hours_required: number | null;
+  actual_hours: number | null;
+  next_service_hours: string | null;
+  ai_predicted_date: Date | null;
+  ai_confidence_score: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Aggregate rows of getMaintenanceAnalytics; counts and sums come back from Postgres as strings
+interface ComponentCostRow {
+  component: string;
+  records: string;
+  completed: string;
+  total_cost: string;
+  average_cost: string | null;
+  total_hours: string;
+  emergency_count: string;
+  average_delay_days: string | null;
+}
+
+interface AlertTypeCostRow {
+  alert_type: MaintenanceAlertType;
+  total_cost: string;
+}
+
+interface MonthlyCostRow {
+  month: string; // YYYY-MM
+  total_cost: string;
+  records: string;
+}
+
+const TABLE = 'maintenance';
+
+// Statuses that still require work to be done
+const OPEN_STATUSES: MaintenanceStatus[] = ['scheduled', 'in_progress', 'overdue'];
+
+const UPDATABLE_COLUMNS: { [key: string]: string } = {
+  ...mapColumnNames([
+    'component',
+    'alertType',
+    'priority',
+    'status',
+    'description',
+    'scheduledDate',
+    'completedDate',
+    'nextMaintenanceDate',
+    'cost',
+    'location',
+    'notes',
+    'hoursRequired',
+    'actualHours',
+    'nextServiceHours',
+    'aiPredictedDate',
+    'aiConfidenceScore'
+  ]),
+  estimatedCost: 'cost',
+  technician: 'performed_by'
+};
+
+const toNumber = (value: string | number | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const round = (value: number | null): number | null =>
+  value === null ? null : Math.round(value * 100) / 100;
+
+export class MaintenanceService {
+  async create(input: CreateMaintenanceInput): Promise<Maintenance> {
+    try {
+      const [row] = await db(TABLE)
+        .insert({
+          ship_id: input.shipId,
+          component: input.component,
+          alert_type: input.alertType,
+          priority: input.priority,
+          description: input.description,
+          cost: input.estimatedCost,
+          scheduled_date: input.scheduledDate,
+          performed_by: input.technician,
+          location: input.location,
+          parts_used: JSON.stringify(input.parts || []),
+          notes: input.notes,
+          hours_required: input.hoursRequired,
+          ai_predicted_date: input.aiPredictedDate,
+          ai_confidence_score: input.aiConfidenceScore,
+          status: 'scheduled'
+        })
+        .returning('*');
+
+      logger.info('Maintenance record created', { maintenanceId: row.id, shipId: input.shipId });
+      return this.mapRow(row);
+    } catch (error) {
+      logger.error('Failed to create maintenance record', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: input.shipId
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<Maintenance | null> {
+    const row = await db(TABLE).where({ id }).first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findAll(options: MaintenanceQueryOptions = {}): Promise<{
+    maintenanceRecords: Maintenance[];
+    total: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+
+    const query = db(TABLE);
+
+    if (options.shipId) {
+      query.where('ship_id', options.shipId);
+    }
+    if (options.priority) {
+      query.where('priority', options.priority);
+    }
+    if (options.status) {
+      query.where('status', options.status);
+    }
+    if (options.overdue) {
+      query.whereIn('status', OPEN_STATUSES).where('scheduled_date', '<', db.fn.now());
+    }
+
+    const [{ count }] = await query.clone().clearSelect().count<{ count: string }[]>('* as count');
+
+    const rows = await query
+      .select('*')
+      .orderBy('scheduled_date', 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      maintenanceRecords: rows.map(row => this.mapRow(row)),
+      total: Number(count)
+    };
+  }
+
+  async update(id: string, data: UpdateMaintenanceInput): Promise<Maintenance | null> {
+    const changes: { [column: string]: unknown } = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined && UPDATABLE_COLUMNS[key]) {
+        changes[UPDATABLE_COLUMNS[key]] = value;
+      }
+    }
+    if (data.parts !== undefined) {
+      changes.parts_used = JSON.stringify(data.parts);
+    }
+
+    const [row] = await db(TABLE)
+      .where({ id })
+      .update({ ...changes, updated_at: db.fn.now() })
+      .returning('*');
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async updateStatus(id: string, status: MaintenanceStatus, notes?: string): Promise<Maintenance | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const changes: UpdateMaintenanceInput = { status };
+    if (status === 'completed' && !existing.completedDate) {
+      changes.completedDate = new Date();
+    }
+    if (notes) {
+      const entry = `[${new Date().toISOString()}] ${status}: ${notes}`;
+      changes.notes = existing.notes ? `${existing.notes}\n${entry}` : entry;
+    }
+
+    return this.update(id, changes);
+  }
+
+  async findOpenByShipId(shipId: string): Promise<Maintenance[]> {
+    const rows = await db(TABLE)
+      .where({ ship_id: shipId })
+      .whereIn('status', OPEN_STATUSES)
+      .orderBy('scheduled_date', 'asc');
+
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async getOverdueMaintenances(shipId?: string): Promise<Maintenance[]> {
+    const query = db(TABLE)
+      .whereIn('status', OPEN_STATUSES)
+      .where('scheduled_date', '<', db.fn.now())
+      .orderBy('scheduled_date', 'asc');
+
+    if (shipId) {
+      query.where('ship_id', shipId);
+    }
+
+    const rows = await query;
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async getUpcomingMaintenances(shipId?: string, days = 30): Promise<Maintenance[]> {
+    const query = db(TABLE)
+      .whereIn('status', ['scheduled', 'in_progress'])
+      .where('scheduled_date', '>=', db.fn.now())
+      .where('scheduled_date', '<=', db.raw(`now() + (? * interval '1 day')`, [days]))
+      .orderBy('scheduled_date', 'asc');
+
+    if (shipId) {
+      query.where('ship_id', shipId);
+    }
+
+    const rows = await query;
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async getAnalytics(shipId: string, startDate?: Date, endDate?: Date): Promise<MaintenanceAnalytics> {
+    const scoped = (): Knex.QueryBuilder => {
+      const query = db(TABLE).where({ ship_id: shipId });
+      if (startDate) {
+        query.where('scheduled_date', '>=', startDate);
+      }
+      if (endDate) {
+        query.where('scheduled_date', '<=', endDate);
+      }
+      return query;
+    };
+
+    const componentRows: ComponentCostRow[] = await scoped()
+      .select('component')
+      .select(
+        db.raw('count(*) as records'),
+        db.raw(`count(*) filter (where status = 'completed') as completed`),
+        db.raw('coalesce(sum(cost), 0) as total_cost'),
+        db.raw('avg(cost) as average_cost'),
+        db.raw('coalesce(sum(actual_hours), 0) as total_hours'),
+        db.raw(`count(*) filter (where alert_type = 'emergency') as emergency_count`),
+        db.raw(`avg(extract(epoch from (completed_date - scheduled_date)) / 86400)
+          filter (where completed_date is not null and scheduled_date is not null) as average_delay_days`)
+      )
+      .groupBy('component')
+      .orderBy('total_cost', 'desc');
+
+    const alertTypeRows: AlertTypeCostRow[] = await scoped()
+      .select('alert_type')
+      .select(db.raw('coalesce(sum(cost), 0) as total_cost'))
+      .groupBy('alert_type');
+
+    const monthlyRows: MonthlyCostRow[] = await scoped()
+      .whereNotNull('scheduled_date')
+      .select(db.raw(`to_char(date_trunc('month', scheduled_date), 'YYYY-MM') as month`))
+      .select(db.raw('coalesce(sum(cost), 0) as total_cost'), db.raw('count(*) as records'))
+      .groupByRaw(`date_trunc('month', scheduled_date)`)
+      .orderByRaw(`date_trunc('month', scheduled_date)`);
+
+    const costByComponent: MaintenanceAnalytics['costByComponent'] = componentRows.map(row => ({
+      component: row.component,
+      records: Number(row.records),
+      completed: Number(row.completed),
+      totalCost: Number(row.total_cost),
+      averageCost: round(toNumber(row.average_cost)),
+      totalHours: Number(row.total_hours),
+      emergencyCount: Number(row.emergency_count),
+      averageDelayDays: round(toNumber(row.average_delay_days))
+    }));
+
+    const totalRecords = costByComponent.reduce((sum, row) => sum + row.records, 0);
+    const totalCost = costByComponent.reduce((sum, row) => sum + row.totalCost, 0);
+
+    return {
+      shipId,
+      period: { startDate: startDate || null, endDate: endDate || null },
+      totalRecords,
+      totalCost,
+      averageCost: totalRecords > 0 ? round(totalCost / totalRecords) : null,
+      totalHours: costByComponent.reduce((sum, row) => sum + row.totalHours, 0),
+      costByComponent,
+      costByAlertType: alertTypeRows.reduce((acc: { [type: string]: number }, row) => {
+        acc[row.alert_type] = Number(row.total_cost);
+        return acc;
+      }, {}),
+      monthlyCost: monthlyRows.map(row => ({
+        month: row.month,
+        totalCost: Number(row.total_cost),
+        records: Number(row.records)
+      }))
+    };
+  }
+
+  async generateMaintenanceAlerts(shipId: string): Promise<GeneratedMaintenanceAlert[]> {
+    const alerts: GeneratedMaintenanceAlert[] = [];
+    const now = Date.now();
+
+    // Work that is past its scheduled date
+    const overdue = await this.getOverdueMaintenances(shipId);
+    for (const record of overdue) {
+      const daysOverdue = Math.floor((now - (record.scheduledDate as Date).getTime()) / 86400000);
+      alerts.push({
+        type: 'overdue',
+        severity: record.priority === 'critical' || record.priority === 'high' || daysOverdue > 14 ? 'critical' : 'warning',
+        component: record.component,
+        message: `${record.component} maintenance is ${daysOverdue} day(s) overdue: ${record.description}`,
+        maintenanceId: record.id,
+        dueDate: record.scheduledDate as Date
+      });
+    }
+
+    // Work scheduled within the next week
+    const upcoming = await this.getUpcomingMaintenances(shipId, 7);
+    for (const record of upcoming) {
+      alerts.push({
+        type: 'upcoming',
+        severity: record.priority === 'critical' ? 'warning' : 'info',
+        component: record.component,
+        message: `${record.component} maintenance scheduled for ${(record.scheduledDate as Date).toISOString().slice(0, 10)}`,
+        maintenanceId: record.id,
+        dueDate: record.scheduledDate as Date
+      });
+    }
+
+    // Confident AI predictions falling within the next 30 days
+    const predictedRows = await db(TABLE)
+      .where({ ship_id: shipId })
+      .whereIn('status', OPEN_STATUSES)
+      .where('ai_confidence_score', '>=', 0.7)
+      .whereBetween('ai_predicted_date', [new Date(now), new Date(now + 30 * 86400000)])
+      .orderBy('ai_predicted_date', 'asc');
+
+    for (const record of predictedRows.map(row => this.mapRow(row))) {
+      alerts.push({
+        type: 'predicted',
+        severity: 'warning',
+        component: record.component,
+        message: `AI predicts ${record.component} will need attention by ${(record.aiPredictedDate as Date).toISOString().slice(0, 10)} (confidence ${Math.round((record.aiConfidenceScore || 0) * 100)}%)`,
+        maintenanceId: record.id,
+        dueDate: record.aiPredictedDate as Date
+      });
+    }
+
+    // Components with repeated unplanned work over the last 180 days
+    const recurringRows = await db(TABLE)
+      .where({ ship_id: shipId })
+      .whereIn('alert_type', ['corrective', 'emergency'])
+      .where('created_at', '>=', db.raw(`now() - interval '180 days'`))
+      .select('component')
+      .count('* as failures')
+      .groupBy('component')
+      .havingRaw('count(*) >= ?', [3]);
+
+    for (const row of recurringRows as Array<{ component: string; failures: string }>) {
+      alerts.push({
+        type: 'recurring_failure',
+        severity: 'critical',
+        component: row.component,
+        message: `${row.component} required ${row.failures} corrective/emergency interventions in the last 180 days`
+      });
+    }
+
+    logger.info('Maintenance alerts generated', { shipId, alertCount: alerts.length });
+    return alerts;
+  }
+
+  async getMaintenanceStats(shipId: string): Promise<MaintenanceStats> {
+    const statusRows: Array<{ status: string; count: string }> = await db(TABLE)
+      .where({ ship_id: shipId })
+      .select('status')
+      .count('* as count')
+      .groupBy('status');
+
+    const priorityRows: Array<{ priority: string; count: string }> = await db(TABLE)
+      .where({ ship_id: shipId })
+      .select('priority')
+      .count('* as count')
+      .groupBy('priority');
+
+    const totals = await db(TABLE)
+      .where({ ship_id: shipId })
+      .first(
+        db.raw('count(*) as total'),
+        db.raw(`count(*) filter (where status = 'completed') as completed`),
+        db.raw(`count(*) filter (where status = 'cancelled') as cancelled`),
+        db.raw(`count(*) filter (where status in ('scheduled', 'in_progress', 'overdue') and scheduled_date < now()) as overdue`),
+        db.raw('coalesce(sum(cost), 0) as total_cost'),
+        db.raw('avg(cost) as average_cost'),
+        db.raw('avg(actual_hours) as average_actual_hours')
+      );
+
+    const total = Number(totals.total);
+    const actionable = total - Number(totals.cancelled);
+
+    return {
+      shipId,
+      total,
+      byStatus: statusRows.reduce((acc: { [status: string]: number }, row) => {
+        acc[row.status] = Number(row.count);
+        return acc;
+      }, {}),
+      byPriority: priorityRows.reduce((acc: { [priority: string]: number }, row) => {
+        acc[row.priority] = Number(row.count);
+        return acc;
+      }, {}),
+      overdue: Number(totals.overdue),
+      completionRate: actionable > 0 ? round(Number(totals.completed) / actionable) : null,
+      totalCost: Number(totals.total_cost),
+      averageCost: round(toNumber(totals.average_cost)),
+      averageActualHours: round(toNumber(totals.average_actual_hours))
+    };
+  }
+
+  private mapRow(row: MaintenanceRow): Maintenance {
+    return {
+      id: row.id,
+      shipId: row.ship_id,
+      component: row.component,
+      alertType: row.alert_type,
+      priority: row.priority,
+      status: row.status,
+      description: row.description,
+      scheduledDate: row.scheduled_date,
+      completedDate: row.completed_date,
+      nextMaintenanceDate: row.next_maintenance_date,
+      cost: toNumber(row.cost),
+      technician: row.performed_by,
+      location: row.location,
+      parts: row.parts_used || [],
+      notes: row.notes,
+      hoursRequired: row.hours_required,
+      actualHours: row.actual_hours,
+      nextServiceHours: toNumber(row.next_service_hours),
+      aiPredictedDate: row.ai_predicted_date,
+      aiConfidenceScore: toNumber(row.ai_confidence_score),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const maintenanceService = new MaintenanceService();
@@ -0,0 +1,191 @@
+import { db, mapColumnNames } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export interface Port {
+  id: string;
+  code: string; // UN/LOCODE, e.g. NLRTM
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  latitude: number;
+  longitude: number;
+  maxDraft: number | null; // meters, unrestricted when null
+  timezone: string; // IANA zone
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePortInput {
+  code: string;
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  maxDraft?: number | null;
+  timezone: string;
+}
+
+export type UpdatePortInput = Partial<Omit<CreatePortInput, 'code'>>;
+
+export interface PortQueryOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  country?: string;
+  search?: string; // matches name or code
+}
+
+interface PortRow {
+  id: string;
+  code: string;
+  name: string;
+  country: string;
+  latitude: string;
+  longitude: string;
+  max_draft: string | null;
+  timezone: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TABLE = 'ports';
+
+const SORTABLE_COLUMNS = mapColumnNames(['code', 'name', 'country', 'maxDraft', 'createdAt', 'updatedAt']);
+
+// UN/LOCODE: two-letter country code and three letters or digits 2-9
+export const PORT_CODE_PATTERN = /^[A-Z]{2}[A-Z2-9]{3}$/;
+
+export class PortService {
+  async findByCode(code: string): Promise<Port | null> {
+    const row = await db(TABLE).where({ code: code.toUpperCase() }).first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Ports for the given codes, keyed by code; unknown codes are missing from the map
+  async findByCodes(codes: string[]): Promise<Map<string, Port>> {
+    const unique = Array.from(new Set(codes.map(code => code.toUpperCase())));
+    if (unique.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db(TABLE).whereIn('code', unique);
+    return new Map(rows.map((row: PortRow) => [row.code, this.mapRow(row)]));
+  }
+
+  async findAll(options: PortQueryOptions = {}): Promise<{
+    ports: Port[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+
+    const query = db(TABLE);
+
+    if (options.country) {
+      query.where('country', options.country.toUpperCase());
+    }
+    if (options.search) {
+      query.where(builder => builder
+        .where('name', 'ilike', `%${options.search}%`)
+        .orWhere('code', 'ilike', `%${options.search}%`));
+    }
+
+    const [{ count }] = await query.clone().clearSelect().count<{ count: string }[]>('* as count');
+
+    const sortColumn = (options.sortBy && SORTABLE_COLUMNS[options.sortBy]) || 'code';
+    const rows = await query
+      .select('*')
+      .orderBy(sortColumn, options.sortOrder || 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      ports: rows.map(row => this.mapRow(row)),
+      total: Number(count),
+      page,
+      limit
+    };
+  }
+
+  async create(input: CreatePortInput): Promise<Port> {
+    try {
+      const [row] = await db(TABLE)
+        .insert({
+          code: input.code.toUpperCase(),
+          name: input.name,
+          country: input.country.toUpperCase(),
+          latitude: input.latitude,
+          longitude: input.longitude,
+          max_draft: input.maxDraft ?? null,
+          timezone: input.timezone
+        })
+        .returning('*');
+
+      logger.info('Port created', { code: row.code });
+      return this.mapRow(row);
+    } catch (error) {
+      logger.error('Failed to create port', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: input.code
+      });
+      throw error;
+    }
+  }
+
+  async update(code: string, input: UpdatePortInput): Promise<Port | null> {
+    const changes: { [column: string]: unknown } = {
+      name: input.name,
+      country: input.country?.toUpperCase(),
+      latitude: input.latitude,
+      longitude: input.longitude,
+      max_draft: input.maxDraft,
+      timezone: input.timezone
+    };
+
+    const [row] = await db(TABLE)
+      .where({ code: code.toUpperCase() })
+      .update({ ...changes, updated_at: db.fn.now() })
+      .returning('*');
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  // True while a voyage or port call refers to the port
+  async isInUse(code: string): Promise<boolean> {
+    const upper = code.toUpperCase();
+    const [voyage, portCall] = await Promise.all([
+      db('voyages').where('origin_port_code', upper).orWhere('destination_port_code', upper).first('id'),
+      db('voyage_port_calls').where('port_code', upper).first('id')
+    ]);
+    return Boolean(voyage || portCall);
+  }
+
+  async delete(code: string): Promise<Port | null> {
+    const [row] = await db(TABLE).where({ code: code.toUpperCase() }).delete().returning('*');
+    if (!row) {
+      return null;
+    }
+
+    logger.info('Port deleted', { code: row.code });
+    return this.mapRow(row);
+  }
+
+  private mapRow(row: PortRow): Port {
+    return {
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      country: row.country,
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      maxDraft: row.max_draft === null ? null : Number(row.max_draft),
+      timezone: row.timezone,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const portService = new PortService();
@@ -0,0 +1,276 @@
+import { db, mapColumnNames } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export type ShipType = 'cargo' | 'tanker' | 'container' | 'bulk_carrier' | 'passenger';
+export type ShipStatus = 'active' | 'maintenance' | 'docked' | 'retired';
+
+export interface ShipSpecifications {
+  length: number | null; // meters
+  width: number | null; // meters
+  draft: number | null; // meters
+  maxSpeed: number; // knots
+  fuelCapacity: number | null; // tons
+  cargoCapacity: number; // tons
+  [key: string]: unknown; // additional technical specs stored in the JSON column
+}
+
+export interface Ship {
+  id: string;
+  name: string;
+  imoNumber: string;
+  mmsi: string | null; // AIS identity, 9 digits
+  type: ShipType;
+  engineType: string;
+  status: ShipStatus;
+  specifications: ShipSpecifications;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export interface CreateShipInput {
+  name: string;
+  imoNumber: string;
+  mmsi?: string | null;
+  type: ShipType;
+  engineType?: string;
+  status?: ShipStatus;
+  specifications: Partial<ShipSpecifications> & {
+    maxSpeed: number;
+    cargoCapacity: number;
+  };
+}
+
+export type UpdateShipInput = Partial<CreateShipInput>;
+
+export interface ShipQueryOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  type?: ShipType;
+  status?: ShipStatus;
+  search?: string;
+  includeRetired?: boolean;
+}
+
+interface ShipRow {
+  id: string;
+  name: string;
+  imo_number: string;
+  mmsi: string | null;
+  ship_type: string;
+  engine_type: string;
+  capacity: string;
+  length: string | null;
+  width: string | null;
+  draft: string | null;
+  max_speed: string;
+  fuel_capacity: string | null;
+  specifications: Record<string, unknown> | null;
+  status: ShipStatus;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+const TABLE = 'ships';
+
+// Specification fields that live in dedicated columns rather than the JSON blob
+const SPECIFICATION_COLUMNS: { [key: string]: string } = {
+  ...mapColumnNames(['length', 'width', 'draft', 'maxSpeed', 'fuelCapacity']),
+  cargoCapacity: 'capacity'
+};
+
+const SORTABLE_COLUMNS: { [key: string]: string } = {
+  ...mapColumnNames(['name', 'imoNumber', 'status', 'createdAt', 'updatedAt']),
+  type: 'ship_type',
+  ...SPECIFICATION_COLUMNS
+};
+
+const toNumber = (value: string | number | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class ShipService {
+  async findById(id: string, options: { includeRetired?: boolean } = {}): Promise<Ship | null> {
+    const query = db(TABLE).where({ id });
+    if (!options.includeRetired) {
+      query.whereNull('deleted_at');
+    }
+
+    const row = await query.first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findByImoNumber(imoNumber: string): Promise<Ship | null> {
+    const row = await db(TABLE).where({ imo_number: imoNumber }).first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findByMmsi(mmsi: string): Promise<Ship | null> {
+    const row = await db(TABLE).where({ mmsi }).whereNull('deleted_at').first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findAll(options: ShipQueryOptions = {}): Promise<{
+    ships: Ship[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+
+    const query = db(TABLE);
+
+    if (!options.includeRetired) {
+      query.whereNull('deleted_at');
+    }
+    if (options.type) {
+      query.where('ship_type', options.type);
+    }
+    if (options.status) {
+      query.where('status', options.status);
+    }
+    if (options.search) {
+      const term = `%${options.search}%`;
+      query.where(builder => {
+        builder.whereILike('name', term).orWhereILike('imo_number', term).orWhereILike('mmsi', term);
+      });
+    }
+
+    const [{ count }] = await query.clone().clearSelect().count<{ count: string }[]>('* as count');
+
+    const sortColumn = (options.sortBy && SORTABLE_COLUMNS[options.sortBy]) || 'name';
+    const rows = await query
+      .select('*')
+      .orderBy(sortColumn, options.sortOrder || 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      ships: rows.map(row => this.mapRow(row)),
+      total: Number(count),
+      page,
+      limit
+    };
+  }
+
+  async create(input: CreateShipInput): Promise<Ship> {
+    try {
+      const [row] = await db(TABLE)
+        .insert({
+          name: input.name,
+          imo_number: input.imoNumber,
+          mmsi: input.mmsi || null,
+          ship_type: input.type,
+          engine_type: input.engineType || 'Diesel',
+          status: input.status || 'active',
+          ...this.mapSpecifications(input.specifications)
+        })
+        .returning('*');
+
+      logger.info('Ship created', { shipId: row.id, imoNumber: row.imo_number });
+      return this.mapRow(row);
+    } catch (error) {
+      logger.error('Failed to create ship', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        imoNumber: input.imoNumber
+      });
+      throw error;
+    }
+  }
+
+  async update(id: string, input: UpdateShipInput): Promise<Ship | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const changes: Partial<ShipRow> = {
+      name: input.name,
+      imo_number: input.imoNumber,
+      mmsi: input.mmsi,
+      ship_type: input.type,
+      engine_type: input.engineType,
+      status: input.status
+    };
+    if (input.specifications) {
+      Object.assign(changes, this.mapSpecifications({
+        ...existing.specifications,
+        ...input.specifications
+      }));
+    }
+
+    const [row] = await db(TABLE)
+      .where({ id })
+      .update({ ...changes, updated_at: db.fn.now() })
+      .returning('*');
+
+    return this.mapRow(row);
+  }
+
+  async softDelete(id: string): Promise<Ship | null> {
+    const [row] = await db(TABLE)
+      .where({ id })
+      .whereNull('deleted_at')
+      .update({
+        status: 'retired',
+        deleted_at: db.fn.now(),
+        updated_at: db.fn.now()
+      })
+      .returning('*');
+
+    if (!row) {
+      return null;
+    }
+
+    logger.info('Ship retired', { shipId: id });
+    return this.mapRow(row);
+  }
+
+  private mapSpecifications(specifications: Partial<ShipSpecifications>): Partial<ShipRow> {
+    const row: { [column: string]: unknown } = {};
+    const extra: { [key: string]: unknown } = {};
+
+    for (const [key, value] of Object.entries(specifications)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (SPECIFICATION_COLUMNS[key]) {
+        row[SPECIFICATION_COLUMNS[key]] = value;
+      } else {
+        extra[key] = value;
+      }
+    }
+
+    row.specifications = JSON.stringify(extra);
+    return row as Partial<ShipRow>;
+  }
+
+  private mapRow(row: ShipRow): Ship {
+    return {
+      id: row.id,
+      name: row.name,
+      imoNumber: row.imo_number,
+      mmsi: row.mmsi,
+      type: row.ship_type as ShipType,
+      engineType: row.engine_type,
+      status: row.status,
+      specifications: {
+        ...(row.specifications || {}),
+        length: toNumber(row.length),
+        width: toNumber(row.width),
+        draft: toNumber(row.draft),
+        maxSpeed: Number(row.max_speed),
+        fuelCapacity: toNumber(row.fuel_capacity),
+        cargoCapacity: Number(row.capacity)
+      },
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at
+    };
+  }
+}
+
+export const shipService = new ShipService();
@@ -0,0 +1,604 @@
+import { Knex } from 'knex';
+import { db, mapColumnNames, commonColumnMappings } from '../utils/database';
+import { logger } from '../utils/logger';
+import { TrackDeviationSummary } from '../services/Navigation/TrackDeviation';
+import { voyageItineraryService } from './VoyageItinerary';
+
+export type VoyageStatus = 'planned' | 'in_progress' | 'completed' | 'cancelled' | 'delayed';
+
+export interface VoyageLocation {
+  name?: string;
+  code?: string; // UN/LOCODE when the location is a registered port
+  latitude: number;
+  longitude: number;
+}
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+  timestamp?: string; // ISO 8601
+  [key: string]: unknown;
+}
+
+export interface VoyageFeedback {
+  rating?: number; // 1-5, absent until the captain or operator has given feedback
+  comments?: string;
+  issues?: string[];
+  submittedAt?: string; // ISO 8601
+  trackDeviation?: TrackDeviationSummary; // actual track against the planned route
+}
+
+export interface Voyage {
+  id: string;
+  shipId: string;
+  origin: VoyageLocation;
+  destination: VoyageLocation;
+  status: VoyageStatus;
+  plannedDepartureTime: Date;
+  actualDepartureTime: Date | null;
+  estimatedArrivalTime: Date;
+  actualArrivalTime: Date | null;
+  cargoWeight: number | null; // tons
+  cargoType: string | null;
+  weatherForecast: unknown;
+  plannedRoute: RoutePoint[] | null;
+  actualRoute: RoutePoint[] | null;
+  estimatedFuelConsumption: number | null;
+  actualFuelConsumption: number | null;
+  estimatedDistance: number | null; // nautical miles
+  actualDistance: number | null; // nautical miles
+  optimizationParameters: { [key: string]: unknown } | null;
+  feedback: VoyageFeedback | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VoyageStatusChange {
+  id: string;
+  voyageId: string;
+  fromStatus: VoyageStatus | null; // null for the status the voyage was created with
+  toStatus: VoyageStatus;
+  changedBy: string | null;
+  notes: string | null;
+  changedAt: Date;
+}
+
+export interface VoyageStatusUpdate {
+  changedBy?: string;
+  notes?: string;
+}
+
+export type VoyageStatusUpdateResult =
+  | { voyage: Voyage; error: null }
+  | { voyage: null; error: string };
+
+export interface CreateVoyageInput {
+  shipId: string;
+  origin: VoyageLocation;
+  destination: VoyageLocation;
+  preferences?: { [key: string]: unknown };
+  plannedDepartureTime?: Date;
+  estimatedArrivalTime: Date;
+  estimatedDistance?: number;
+  estimatedFuelConsumption?: number;
+  cargoWeight?: number;
+  cargoType?: string;
+  plannedRoute?: RoutePoint[];
+  weatherForecast?: unknown;
+  optimizationParameters?: { [key: string]: unknown };
+}
+
+export type UpdateVoyageInput = Partial<Omit<Voyage, 'id' | 'shipId' | 'createdAt' | 'updatedAt'>>;
+
+export interface VoyageQueryOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  status?: VoyageStatus;
+  shipId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface VoyageStats {
+  shipId: string;
+  totalVoyages: number;
+  byStatus: { [status in VoyageStatus]: number };
+  averageDurationHours: number | null;
+  totalDistance: number; // nautical miles
+  fuelPerNauticalMile: number | null;
+  trackDeviation: {
+    analyzedVoyages: number;
+    averageMaxDeviation: number | null; // nautical miles
+    averageExtraDistance: number | null; // nautical miles
+    averageTimeLost: number | null; // hours
+  };
+}
+
+interface VoyageRow {
+  id: string;
+  ship_id: string;
+  origin: string;
+  destination: string;
+  origin_lat: string | null;
+  origin_lng: string | null;
+  destination_lat: string | null;
+  destination_lng: string | null;
+  origin_port_code: string | null;
+  destination_port_code: string | null;
+  planned_departure_time: Date;
+  actual_departure_time: Date | null;
+  estimated_arrival_time: Date;
+  actual_arrival_time: Date | null;
+  cargo_weight: string | null;
+  cargo_type: string | null;
+  weather_forecast: unknown;
+  planned_route: RoutePoint[] | null;
+  actual_route: RoutePoint[] | null;
+  estimated_fuel_consumption: string | null;
+  actual_fuel_consumption: string | null;
+  estimated_distance: string | null;
+  actual_distance: string | null;
+  status: VoyageStatus;
+  optimization_parameters: { [key: string]: unknown } | null;
+  feedback: VoyageFeedback | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface VoyageStatusChangeRow {
+  id: string;
+  voyage_id: string;
+  from_status: VoyageStatus | null;
+  to_status: VoyageStatus;
+  changed_by: string | null;
+  notes: string | null;
+  changed_at: Date;
+}
+
+const TABLE = 'voyages';
+const STATUS_HISTORY_TABLE = 'voyage_status_history';
+
+// Most recent voyage plans averaged for a ship's ice hull wear
+const RECENT_ICE_VOYAGES = 10;
+
+export const VOYAGE_STATUSES: VoyageStatus[] = ['planned', 'in_progress', 'completed', 'cancelled', 'delayed'];
+
+// Voyage lifecycle: completed and cancelled are final, and a voyage can only
+// complete once it has departed (see updateStatus)
+export const VOYAGE_STATUS_TRANSITIONS: { [status in VoyageStatus]: VoyageStatus[] } = {
+  planned: ['in_progress', 'delayed', 'cancelled'],
+  delayed: ['planned', 'in_progress', 'completed', 'cancelled'],
+  in_progress: ['delayed', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+// Scalar fields that can be written through update()
+const UPDATABLE_COLUMNS = {
+  ...mapColumnNames([
+    'status',
+    'cargoWeight',
+    'cargoType',
+    'estimatedFuelConsumption',
+    'actualFuelConsumption',
+    'estimatedDistance',
+    'actualDistance'
+  ]),
+  plannedDepartureTime: commonColumnMappings.plannedDepartureTime,
+  actualDepartureTime: commonColumnMappings.actualDepartureTime,
+  estimatedArrivalTime: commonColumnMappings.estimatedArrivalTime,
+  actualArrivalTime: commonColumnMappings.actualArrivalTime
+};
+
+const JSON_COLUMNS = mapColumnNames([
+  'weatherForecast',
+  'plannedRoute',
+  'actualRoute',
+  'optimizationParameters',
+  'feedback'
+]);
+
+const SORTABLE_COLUMNS: { [key: string]: string } = {
+  ...commonColumnMappings,
+  ...UPDATABLE_COLUMNS
+};
+
+const toNumber = (value: string | number | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const toJson = (value: unknown): string | null =>
+  value === undefined || value === null ? null : JSON.stringify(value);
+
+export class VoyageService {
+  async create(input: CreateVoyageInput, trx?: Knex.Transaction): Promise<Voyage> {
+    const runInTransaction = !trx;
+    const writer = trx || await db.transaction();
+    try {
+      const optimizationParameters = {
+        ...(input.optimizationParameters || {}),
+        ...(input.preferences ? { preferences: input.preferences } : {})
+      };
+
+      const [row] = await writer(TABLE)
+        .insert({
+          ship_id: input.shipId,
+          origin: this.formatLocationName(input.origin),
+          destination: this.formatLocationName(input.destination),
+          origin_lat: input.origin.latitude,
+          origin_lng: input.origin.longitude,
+          destination_lat: input.destination.latitude,
+          destination_lng: input.destination.longitude,
+          origin_port_code: input.origin.code || null,
+          destination_port_code: input.destination.code || null,
+          planned_departure_time: input.plannedDepartureTime || new Date(),
+          estimated_arrival_time: input.estimatedArrivalTime,
+          estimated_distance: input.estimatedDistance,
+          estimated_fuel_consumption: input.estimatedFuelConsumption,
+          cargo_weight: input.cargoWeight,
+          cargo_type: input.cargoType,
+          planned_route: toJson(input.plannedRoute),
+          weather_forecast: toJson(input.weatherForecast),
+          optimization_parameters: toJson(optimizationParameters),
+          status: 'planned'
+        })
+        .returning('*');
+      await writer(STATUS_HISTORY_TABLE).insert({ voyage_id: row.id, from_status: null, to_status: 'planned' });
+
+      if (runInTransaction) {
+        await writer.commit();
+      }
+      logger.info('Voyage created', { voyageId: row.id, shipId: input.shipId });
+      return this.mapRow(row);
+    } catch (error) {
+      if (runInTransaction) {
+        await writer.rollback();
+      }
+      logger.error('Failed to create voyage', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: input.shipId
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<Voyage | null> {
+    const row = await db(TABLE).where({ id }).first();
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findAll(options: VoyageQueryOptions = {}): Promise<{
+    voyages: Voyage[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+
+    const query = db(TABLE);
+
+    if (options.status) {
+      query.where('status', options.status);
+    }
+    if (options.shipId) {
+      query.where('ship_id', options.shipId);
+    }
+    if (options.startDate) {
+      query.where('planned_departure_time', '>=', options.startDate);
+    }
+    if (options.endDate) {
+      query.where('planned_departure_time', '<=', options.endDate);
+    }
+
+    const [{ count }] = await query.clone().clearSelect().count<{ count: string }[]>('* as count');
+
+    const sortColumn = (options.sortBy && SORTABLE_COLUMNS[options.sortBy]) || 'planned_departure_time';
+    const rows = await query
+      .select('*')
+      .orderBy(sortColumn, options.sortOrder || 'desc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      voyages: rows.map(row => this.mapRow(row)),
+      total: Number(count),
+      page,
+      limit
+    };
+  }
+
+  async findActiveByShipId(shipId: string): Promise<Voyage | null> {
+    const row = await db(TABLE)
+      .where({ ship_id: shipId })
+      .whereIn('status', ['in_progress', 'delayed'])
+      .orderBy('planned_departure_time', 'desc')
+      .first();
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async update(id: string, data: UpdateVoyageInput): Promise<Voyage | null> {
+    const changes: { [column: string]: unknown } = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (key in UPDATABLE_COLUMNS) {
+        changes[UPDATABLE_COLUMNS[key as keyof typeof UPDATABLE_COLUMNS]] = value;
+      } else if (key in JSON_COLUMNS) {
+        changes[JSON_COLUMNS[key]] = toJson(value);
+      } else if (key === 'origin' || key === 'destination') {
+        const location = value as VoyageLocation;
+        changes[key] = this.formatLocationName(location);
+        changes[`${key}_lat`] = location.latitude;
+        changes[`${key}_lng`] = location.longitude;
+        changes[`${key}_port_code`] = location.code || null;
+      }
+    }
+
+    const [row] = await db(TABLE)
+      .where({ id })
+      .update({ ...changes, updated_at: db.fn.now() })
+      .returning('*');
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Appends a reported position to actual_route and accumulates distance and fuel
+  // in a single statement so concurrent reports cannot overwrite each other.
+  async appendActualPosition(
+    id: string,
+    point: RoutePoint,
+    progress: { distance: number; fuelConsumed?: number },
+    trx?: Knex.Transaction
+  ): Promise<Voyage | null> {
+    const [row] = await (trx || db)(TABLE)
+      .where({ id })
+      .update({
+        actual_route: db.raw(`(coalesce(actual_route::jsonb, '[]'::jsonb) || ?::jsonb)::json`, [JSON.stringify([point])]),
+        actual_distance: db.raw('coalesce(actual_distance, 0) + ?', [progress.distance]),
+        actual_fuel_consumption: db.raw('coalesce(actual_fuel_consumption, 0) + ?', [progress.fuelConsumed || 0]),
+        updated_at: db.fn.now()
+      })
+      .returning('*');
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * Move a voyage along its lifecycle and record the change in its status
+   * history. Starting the voyage stamps the actual departure and completing it
+   * the actual arrival, unless they were already recorded, on the voyage and
+   * on the first and last legs and port calls of its itinerary. Returns null when
+   * the voyage does not exist and an error when the transition is not allowed.
+   */
+  async updateStatus(id: string, status: VoyageStatus, change: VoyageStatusUpdate = {}): Promise<VoyageStatusUpdateResult | null> {
+    const trx = await db.transaction();
+    try {
+      const existing: VoyageRow | undefined = await trx(TABLE).where({ id }).forUpdate().first();
+      if (!existing) {
+        await trx.rollback();
+        return null;
+      }
+
+      const error = this.checkTransition(existing, status);
+      if (error) {
+        await trx.rollback();
+        return { voyage: null, error };
+      }
+
+      const now = new Date();
+      const [row] = await trx(TABLE)
+        .where({ id })
+        .update({
+          status,
+          ...(status === 'in_progress' && !existing.actual_departure_time ? { actual_departure_time: now } : {}),
+          ...(status === 'completed' && !existing.actual_arrival_time ? { actual_arrival_time: now } : {}),
+          updated_at: db.fn.now()
+        })
+        .returning('*');
+      // The itinerary's first leg departs and its last leg arrives with the voyage
+      await voyageItineraryService.recordVoyageActuals(id, {
+        departureTime: status === 'in_progress' ? row.actual_departure_time || undefined : undefined,
+        arrivalTime: status === 'completed' ? row.actual_arrival_time || undefined : undefined
+      }, trx);
+      await trx(STATUS_HISTORY_TABLE).insert({
+        voyage_id: id,
+        from_status: existing.status,
+        to_status: status,
+        changed_by: change.changedBy || null,
+        notes: change.notes || null,
+        changed_at: now
+      });
+
+      await trx.commit();
+      logger.info('Voyage status changed', { voyageId: id, from: existing.status, to: status });
+      return { voyage: this.mapRow(row), error: null };
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to update voyage status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: id
+      });
+      throw error;
+    }
+  }
+
+  async findStatusHistory(id: string): Promise<VoyageStatusChange[]> {
+    const rows = await db(STATUS_HISTORY_TABLE)
+      .where({ voyage_id: id })
+      .orderBy('changed_at', 'asc');
+
+    return rows.map((row: VoyageStatusChangeRow) => ({
+      id: row.id,
+      voyageId: row.voyage_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      changedBy: row.changed_by,
+      notes: row.notes,
+      changedAt: row.changed_at
+    }));
+  }
+
+  async addFeedback(id: string, feedback: VoyageFeedback): Promise<Voyage | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    return this.update(id, {
+      feedback: {
+        ...feedback,
+        submittedAt: new Date().toISOString(),
+        trackDeviation: existing.feedback?.trackDeviation
+      }
+    });
+  }
+
+  // Keeps the captain's feedback and replaces any earlier deviation analysis
+  async recordTrackDeviation(id: string, trackDeviation: TrackDeviationSummary): Promise<Voyage | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    return this.update(id, {
+      feedback: { ...existing.feedback, trackDeviation }
+    });
+  }
+
+  /**
+   * Hull wear from ice (0-1) over the ship's most recent voyage plans,
+   * weighted by their planned distance. Null when none recorded it.
+   */
+  async getIceHullWear(shipId: string): Promise<number | null> {
+    const rows: Array<{ hull_wear: string; estimated_distance: string | null }> = await db(TABLE)
+      .select(db.raw(`optimization_parameters->>'iceHullWear' as hull_wear`), 'estimated_distance')
+      .where({ ship_id: shipId })
+      .whereRaw(`optimization_parameters->>'iceHullWear' is not null`)
+      .orderBy('planned_departure_time', 'desc')
+      .limit(RECENT_ICE_VOYAGES);
+
+    if (rows.length === 0) {
+      return null;
+    }
+    const distance = rows.reduce((sum, row) => sum + (Number(row.estimated_distance) || 0), 0);
+    return distance > 0
+      ? rows.reduce((sum, row) => sum + Number(row.hull_wear) * (Number(row.estimated_distance) || 0), 0) / distance
+      : rows.reduce((sum, row) => sum + Number(row.hull_wear), 0) / rows.length;
+  }
+
+  async getVoyageStats(shipId: string): Promise<VoyageStats> {
+    const statusRows: Array<{ status: VoyageStatus; count: string }> = await db(TABLE)
+      .select('status')
+      .count('* as count')
+      .where({ ship_id: shipId })
+      .groupBy('status');
+
+    const totals = await db(TABLE)
+      .where({ ship_id: shipId })
+      .first(
+        db.raw(`avg(extract(epoch from (actual_arrival_time - coalesce(actual_departure_time, planned_departure_time))) / 3600)
+          filter (where status = 'completed' and actual_arrival_time is not null) as average_duration_hours`),
+        db.raw(`coalesce(sum(coalesce(actual_distance, estimated_distance)), 0) as total_distance`),
+        db.raw(`sum(actual_fuel_consumption) filter (where actual_fuel_consumption is not null and actual_distance > 0)
+          / nullif(sum(actual_distance) filter (where actual_fuel_consumption is not null and actual_distance > 0), 0) as fuel_per_nm`),
+        db.raw(`count(*) filter (where feedback->'trackDeviation' is not null) as deviation_count`),
+        db.raw(`avg((feedback->'trackDeviation'->>'maxDeviation')::numeric) as average_max_deviation`),
+        db.raw(`avg((feedback->'trackDeviation'->>'extraDistance')::numeric) as average_extra_distance`),
+        db.raw(`avg((feedback->'trackDeviation'->>'timeLost')::numeric) as average_time_lost`)
+      );
+
+    const byStatus = VOYAGE_STATUSES.reduce((acc, status) => {
+      acc[status] = 0;
+      return acc;
+    }, {} as VoyageStats['byStatus']);
+
+    for (const row of statusRows) {
+      if (row.status in byStatus) {
+        byStatus[row.status] = Number(row.count);
+      }
+    }
+
+    const round = (value: number | null): number | null =>
+      value === null ? null : Math.round(value * 100) / 100;
+
+    return {
+      shipId,
+      totalVoyages: statusRows.reduce((sum, row) => sum + Number(row.count), 0),
+      byStatus,
+      averageDurationHours: round(toNumber(totals.average_duration_hours)),
+      totalDistance: round(toNumber(totals.total_distance)) || 0,
+      fuelPerNauticalMile: round(toNumber(totals.fuel_per_nm)),
+      trackDeviation: {
+        analyzedVoyages: Number(totals.deviation_count),
+        averageMaxDeviation: round(toNumber(totals.average_max_deviation)),
+        averageExtraDistance: round(toNumber(totals.average_extra_distance)),
+        averageTimeLost: round(toNumber(totals.average_time_lost))
+      }
+    };
+  }
+
+  // Reason the voyage cannot move to the status, or null when it can
+  private checkTransition(row: VoyageRow, status: VoyageStatus): string | null {
+    if (row.status === status) {
+      return `Voyage is already ${status}`;
+    }
+    if (!VOYAGE_STATUS_TRANSITIONS[row.status].includes(status)) {
+      return `Cannot change voyage status from ${row.status} to ${status}`;
+    }
+    if (status === 'completed' && !row.actual_departure_time) {
+      return 'Cannot complete a voyage that has not departed';
+    }
+    if (status === 'planned' && row.actual_departure_time) {
+      return 'Cannot return a voyage that has departed to planned';
+    }
+    return null;
+  }
+
+  private formatLocationName(location: VoyageLocation): string {
+    return location.name || `${location.latitude},${location.longitude}`;
+  }
+
+  private mapRow(row: VoyageRow): Voyage {
+    return {
+      id: row.id,
+      shipId: row.ship_id,
+      origin: {
+        name: row.origin,
+        ...(row.origin_port_code ? { code: row.origin_port_code } : {}),
+        latitude: Number(row.origin_lat),
+        longitude: Number(row.origin_lng)
+      },
+      destination: {
+        name: row.destination,
+        ...(row.destination_port_code ? { code: row.destination_port_code } : {}),
+        latitude: Number(row.destination_lat),
+        longitude: Number(row.destination_lng)
+      },
+      status: row.status,
+      plannedDepartureTime: row.planned_departure_time,
+      actualDepartureTime: row.actual_departure_time,
+      estimatedArrivalTime: row.estimated_arrival_time,
+      actualArrivalTime: row.actual_arrival_time,
+      cargoWeight: toNumber(row.cargo_weight),
+      cargoType: row.cargo_type,
+      weatherForecast: row.weather_forecast,
+      plannedRoute: row.planned_route,
+      actualRoute: row.actual_route,
+      estimatedFuelConsumption: toNumber(row.estimated_fuel_consumption),
+      actualFuelConsumption: toNumber(row.actual_fuel_consumption),
+      estimatedDistance: toNumber(row.estimated_distance),
+      actualDistance: toNumber(row.actual_distance),
+      optimizationParameters: row.optimization_parameters,
+      feedback: row.feedback,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const voyageService = new VoyageService();
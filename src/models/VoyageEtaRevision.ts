@@ -0,0 +1,130 @@
+import { Knex } from 'knex';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export type EtaRevisionSource = 'noon_report' | 'fuel_log' | 'position_report';
+
+export interface VoyageEtaRevision {
+  id: string;
+  voyageId: string;
+  reportTime: Date;
+  source: EtaRevisionSource;
+  position: { latitude: number; longitude: number };
+  remainingDistance: number; // nautical miles
+  speed: number; // knots through the water
+  speedLoss: number; // average fraction of speed lost to forecast weather
+  estimatedArrivalTime: Date;
+  previousEstimatedArrivalTime: Date | null;
+  plannedArrivalTime: Date; // the plan's ETA, before any revision
+  delayHours: number; // estimated arrival behind the planned arrival
+  remainingFuelConsumption: number | null;
+  delayRaised: boolean; // this revision moved the voyage to delayed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateVoyageEtaRevisionInput = Omit<VoyageEtaRevision, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface VoyageEtaRevisionRow {
+  id: string;
+  voyage_id: string;
+  report_time: Date;
+  source: EtaRevisionSource;
+  latitude: string;
+  longitude: string;
+  remaining_distance: string;
+  speed: string;
+  speed_loss: string;
+  estimated_arrival_time: Date;
+  previous_estimated_arrival_time: Date | null;
+  planned_arrival_time: Date;
+  delay_hours: string;
+  remaining_fuel_consumption: string | null;
+  delay_raised: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TABLE = 'voyage_eta_revisions';
+
+export class VoyageEtaRevisionService {
+  async create(input: CreateVoyageEtaRevisionInput, trx?: Knex.Transaction): Promise<VoyageEtaRevision> {
+    try {
+      const [row] = await (trx || db)(TABLE)
+        .insert({
+          voyage_id: input.voyageId,
+          report_time: input.reportTime,
+          source: input.source,
+          latitude: input.position.latitude,
+          longitude: input.position.longitude,
+          remaining_distance: input.remainingDistance,
+          speed: input.speed,
+          speed_loss: input.speedLoss,
+          estimated_arrival_time: input.estimatedArrivalTime,
+          previous_estimated_arrival_time: input.previousEstimatedArrivalTime,
+          planned_arrival_time: input.plannedArrivalTime,
+          delay_hours: input.delayHours,
+          remaining_fuel_consumption: input.remainingFuelConsumption,
+          delay_raised: input.delayRaised
+        })
+        .returning('*');
+
+      return this.mapRow(row);
+    } catch (error) {
+      logger.error('Failed to create ETA revision', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: input.voyageId
+      });
+      throw error;
+    }
+  }
+
+  async findByVoyageId(voyageId: string): Promise<VoyageEtaRevision[]> {
+    const rows = await db(TABLE)
+      .where({ voyage_id: voyageId })
+      .orderBy([{ column: 'report_time', order: 'asc' }, { column: 'created_at', order: 'asc' }]);
+
+    return rows.map((row: VoyageEtaRevisionRow) => this.mapRow(row));
+  }
+
+  async findFirstByVoyageId(voyageId: string): Promise<VoyageEtaRevision | null> {
+    const row = await db(TABLE)
+      .where({ voyage_id: voyageId })
+      .orderBy('created_at', 'asc')
+      .first();
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findLatestByVoyageId(voyageId: string): Promise<VoyageEtaRevision | null> {
+    const row = await db(TABLE)
+      .where({ voyage_id: voyageId })
+      .orderBy([{ column: 'report_time', order: 'desc' }, { column: 'created_at', order: 'desc' }])
+      .first();
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  private mapRow(row: VoyageEtaRevisionRow): VoyageEtaRevision {
+    return {
+      id: row.id,
+      voyageId: row.voyage_id,
+      reportTime: row.report_time,
+      source: row.source,
+      position: { latitude: Number(row.latitude), longitude: Number(row.longitude) },
+      remainingDistance: Number(row.remaining_distance),
+      speed: Number(row.speed),
+      speedLoss: Number(row.speed_loss),
+      estimatedArrivalTime: row.estimated_arrival_time,
+      previousEstimatedArrivalTime: row.previous_estimated_arrival_time,
+      plannedArrivalTime: row.planned_arrival_time,
+      delayHours: Number(row.delay_hours),
+      remainingFuelConsumption: row.remaining_fuel_consumption === null ? null : Number(row.remaining_fuel_consumption),
+      delayRaised: row.delay_raised,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const voyageEtaRevisionService = new VoyageEtaRevisionService();
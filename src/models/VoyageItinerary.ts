@@ -0,0 +1,358 @@
+import { Knex } from 'knex';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { RoutePoint } from './Voyage';
+
+export interface PortCall {
+  id: string;
+  voyageId: string;
+  sequence: number; // 0 is the departure port
+  name: string;
+  portCode: string | null; // UN/LOCODE when the call is at a registered port
+  latitude: number;
+  longitude: number;
+  plannedArrivalTime: Date | null; // null at the departure port
+  plannedDepartureTime: Date | null; // null at the final port
+  actualArrivalTime: Date | null;
+  actualDepartureTime: Date | null;
+  portStayHours: number;
+  cargoLoaded: number; // tons
+  cargoDischarged: number; // tons
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VoyageLeg {
+  id: string;
+  voyageId: string;
+  sequence: number; // sails from port call `sequence` to port call `sequence + 1`
+  fromPortCallId: string;
+  toPortCallId: string;
+  plannedDepartureTime: Date;
+  estimatedArrivalTime: Date;
+  actualDepartureTime: Date | null;
+  actualArrivalTime: Date | null;
+  cargoWeight: number | null; // tons on board while sailing the leg
+  plannedRoute: RoutePoint[] | null;
+  alternativeRoutes: AlternativeLegRoute[]; // routes offered next to the planned one
+  weatherForecast: unknown;
+  speedProfile: unknown;
+  estimatedDistance: number | null; // nautical miles
+  actualDistance: number | null; // nautical miles
+  estimatedFuelConsumption: number | null;
+  actualFuelConsumption: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AlternativeLegRoute {
+  waypoints: RoutePoint[];
+  distance: number; // nautical miles
+}
+
+export interface VoyageItinerary {
+  portCalls: PortCall[];
+  legs: VoyageLeg[];
+}
+
+export interface CreatePortCallInput {
+  name: string;
+  portCode?: string | null;
+  latitude: number;
+  longitude: number;
+  plannedArrivalTime?: Date | null;
+  plannedDepartureTime?: Date | null;
+  portStayHours?: number;
+  cargoLoaded?: number;
+  cargoDischarged?: number;
+}
+
+// Legs are created between consecutive port calls, in the same order
+export interface CreateVoyageLegInput {
+  plannedDepartureTime: Date;
+  estimatedArrivalTime: Date;
+  cargoWeight?: number | null;
+  plannedRoute?: RoutePoint[];
+  alternativeRoutes?: AlternativeLegRoute[];
+  weatherForecast?: unknown;
+  speedProfile?: unknown;
+  estimatedDistance?: number;
+  estimatedFuelConsumption?: number;
+}
+
+export interface UpdatePortCallInput {
+  actualArrivalTime?: Date | null;
+  actualDepartureTime?: Date | null;
+  cargoLoaded?: number;
+  cargoDischarged?: number;
+}
+
+export interface UpdateVoyageLegInput {
+  actualDistance?: number | null;
+  actualFuelConsumption?: number | null;
+}
+
+interface PortCallRow {
+  id: string;
+  voyage_id: string;
+  sequence: number;
+  name: string;
+  port_code: string | null;
+  latitude: string;
+  longitude: string;
+  planned_arrival_time: Date | null;
+  planned_departure_time: Date | null;
+  actual_arrival_time: Date | null;
+  actual_departure_time: Date | null;
+  port_stay_hours: string;
+  cargo_loaded: string;
+  cargo_discharged: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface VoyageLegRow {
+  id: string;
+  voyage_id: string;
+  sequence: number;
+  from_port_call_id: string;
+  to_port_call_id: string;
+  planned_departure_time: Date;
+  estimated_arrival_time: Date;
+  actual_departure_time: Date | null;
+  actual_arrival_time: Date | null;
+  cargo_weight: string | null;
+  planned_route: RoutePoint[] | null;
+  alternative_routes: AlternativeLegRoute[] | null;
+  weather_forecast: unknown;
+  speed_profile: unknown;
+  estimated_distance: string | null;
+  actual_distance: string | null;
+  estimated_fuel_consumption: string | null;
+  actual_fuel_consumption: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PORT_CALLS_TABLE = 'voyage_port_calls';
+const LEGS_TABLE = 'voyage_legs';
+
+const toNumber = (value: string | number | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const toJson = (value: unknown): string | null =>
+  value === undefined || value === null ? null : JSON.stringify(value);
+
+export class VoyageItineraryService {
+  /**
+   * Store the port calls of a voyage and the legs between them. Pass the
+   * transaction that creates the voyage so a plan is never saved half-way.
+   */
+  async create(
+    voyageId: string,
+    portCalls: CreatePortCallInput[],
+    legs: CreateVoyageLegInput[],
+    trx?: Knex.Transaction
+  ): Promise<VoyageItinerary> {
+    if (legs.length !== portCalls.length - 1) {
+      throw new Error(`Expected ${portCalls.length - 1} legs for ${portCalls.length} port calls, got ${legs.length}`);
+    }
+
+    try {
+      const callRows: PortCallRow[] = await (trx || db)(PORT_CALLS_TABLE)
+        .insert(portCalls.map((call, index) => ({
+          voyage_id: voyageId,
+          sequence: index,
+          name: call.name,
+          port_code: call.portCode || null,
+          latitude: call.latitude,
+          longitude: call.longitude,
+          planned_arrival_time: call.plannedArrivalTime || null,
+          planned_departure_time: call.plannedDepartureTime || null,
+          port_stay_hours: call.portStayHours || 0,
+          cargo_loaded: call.cargoLoaded || 0,
+          cargo_discharged: call.cargoDischarged || 0
+        })))
+        .returning('*');
+      callRows.sort((a, b) => a.sequence - b.sequence);
+
+      const legRows: VoyageLegRow[] = legs.length === 0 ? [] : await (trx || db)(LEGS_TABLE)
+        .insert(legs.map((leg, index) => ({
+          voyage_id: voyageId,
+          sequence: index,
+          from_port_call_id: callRows[index].id,
+          to_port_call_id: callRows[index + 1].id,
+          planned_departure_time: leg.plannedDepartureTime,
+          estimated_arrival_time: leg.estimatedArrivalTime,
+          cargo_weight: leg.cargoWeight ?? null,
+          planned_route: toJson(leg.plannedRoute),
+          alternative_routes: toJson(leg.alternativeRoutes),
+          weather_forecast: toJson(leg.weatherForecast),
+          speed_profile: toJson(leg.speedProfile),
+          estimated_distance: leg.estimatedDistance,
+          estimated_fuel_consumption: leg.estimatedFuelConsumption
+        })))
+        .returning('*');
+      legRows.sort((a, b) => a.sequence - b.sequence);
+
+      logger.info('Voyage itinerary created', { voyageId, portCallCount: callRows.length });
+      return {
+        portCalls: callRows.map(row => this.mapPortCallRow(row)),
+        legs: legRows.map(row => this.mapLegRow(row))
+      };
+    } catch (error) {
+      logger.error('Failed to create voyage itinerary', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId
+      });
+      throw error;
+    }
+  }
+
+  async findByVoyageId(voyageId: string): Promise<VoyageItinerary> {
+    const [callRows, legRows] = await Promise.all([
+      db(PORT_CALLS_TABLE).where({ voyage_id: voyageId }).orderBy('sequence', 'asc'),
+      db(LEGS_TABLE).where({ voyage_id: voyageId }).orderBy('sequence', 'asc')
+    ]);
+
+    return {
+      portCalls: callRows.map((row: PortCallRow) => this.mapPortCallRow(row)),
+      legs: legRows.map((row: VoyageLegRow) => this.mapLegRow(row))
+    };
+  }
+
+  /**
+   * Record what happened at a port call. Actual arrival and departure times
+   * are copied to the legs sailed into and out of the port.
+   */
+  async updatePortCall(voyageId: string, sequence: number, input: UpdatePortCallInput): Promise<PortCall | null> {
+    const trx = await db.transaction();
+    try {
+      const [row] = await trx(PORT_CALLS_TABLE)
+        .where({ voyage_id: voyageId, sequence })
+        .update({
+          actual_arrival_time: input.actualArrivalTime,
+          actual_departure_time: input.actualDepartureTime,
+          cargo_loaded: input.cargoLoaded,
+          cargo_discharged: input.cargoDischarged,
+          updated_at: db.fn.now()
+        })
+        .returning('*');
+
+      if (row && input.actualArrivalTime !== undefined) {
+        await trx(LEGS_TABLE)
+          .where({ voyage_id: voyageId, to_port_call_id: row.id })
+          .update({ actual_arrival_time: input.actualArrivalTime, updated_at: db.fn.now() });
+      }
+      if (row && input.actualDepartureTime !== undefined) {
+        await trx(LEGS_TABLE)
+          .where({ voyage_id: voyageId, from_port_call_id: row.id })
+          .update({ actual_departure_time: input.actualDepartureTime, updated_at: db.fn.now() });
+      }
+
+      await trx.commit();
+      return row ? this.mapPortCallRow(row) : null;
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to update port call', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId,
+        sequence
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Copy a voyage's actual departure to its departure port and first leg, and
+   * its actual arrival to its final port and last leg, where they are not
+   * recorded yet. Runs in the transaction that changes the voyage's status.
+   */
+  async recordVoyageActuals(
+    voyageId: string,
+    actuals: { departureTime?: Date; arrivalTime?: Date },
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const bySequence = (table: string, last: boolean): Knex.QueryBuilder => trx(table)
+      .where({ voyage_id: voyageId })
+      .where('sequence', last
+        ? trx(table).max('sequence').where({ voyage_id: voyageId })
+        : 0);
+
+    if (actuals.departureTime) {
+      for (const table of [PORT_CALLS_TABLE, LEGS_TABLE]) {
+        await bySequence(table, false)
+          .whereNull('actual_departure_time')
+          .update({ actual_departure_time: actuals.departureTime, updated_at: db.fn.now() });
+      }
+    }
+    if (actuals.arrivalTime) {
+      for (const table of [PORT_CALLS_TABLE, LEGS_TABLE]) {
+        await bySequence(table, true)
+          .whereNull('actual_arrival_time')
+          .update({ actual_arrival_time: actuals.arrivalTime, updated_at: db.fn.now() });
+      }
+    }
+  }
+
+  async updateLeg(voyageId: string, sequence: number, input: UpdateVoyageLegInput): Promise<VoyageLeg | null> {
+    const [row] = await db(LEGS_TABLE)
+      .where({ voyage_id: voyageId, sequence })
+      .update({
+        actual_distance: input.actualDistance,
+        actual_fuel_consumption: input.actualFuelConsumption,
+        updated_at: db.fn.now()
+      })
+      .returning('*');
+
+    return row ? this.mapLegRow(row) : null;
+  }
+
+  private mapPortCallRow(row: PortCallRow): PortCall {
+    return {
+      id: row.id,
+      voyageId: row.voyage_id,
+      sequence: row.sequence,
+      name: row.name,
+      portCode: row.port_code,
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      plannedArrivalTime: row.planned_arrival_time,
+      plannedDepartureTime: row.planned_departure_time,
+      actualArrivalTime: row.actual_arrival_time,
+      actualDepartureTime: row.actual_departure_time,
+      portStayHours: Number(row.port_stay_hours),
+      cargoLoaded: Number(row.cargo_loaded),
+      cargoDischarged: Number(row.cargo_discharged),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapLegRow(row: VoyageLegRow): VoyageLeg {
+    return {
+      id: row.id,
+      voyageId: row.voyage_id,
+      sequence: row.sequence,
+      fromPortCallId: row.from_port_call_id,
+      toPortCallId: row.to_port_call_id,
+      plannedDepartureTime: row.planned_departure_time,
+      estimatedArrivalTime: row.estimated_arrival_time,
+      actualDepartureTime: row.actual_departure_time,
+      actualArrivalTime: row.actual_arrival_time,
+      cargoWeight: toNumber(row.cargo_weight),
+      plannedRoute: row.planned_route,
+      alternativeRoutes: row.alternative_routes || [],
+      weatherForecast: row.weather_forecast,
+      speedProfile: row.speed_profile,
+      estimatedDistance: toNumber(row.estimated_distance),
+      actualDistance: toNumber(row.actual_distance),
+      estimatedFuelConsumption: toNumber(row.estimated_fuel_consumption),
+      actualFuelConsumption: toNumber(row.actual_fuel_consumption),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const voyageItineraryService = new VoyageItineraryService();
@@ -1,5 +1,8 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { validate as isUuid } from 'uuid';
 import { getAIService } from '../services/AI/AIService';
+import { exclusionZoneService } from '../models/ExclusionZone';
+import { voyageService } from '../models/Voyage';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -69,7 +72,11 @@ router.post('/route/optimize',
         });
       }
 
-      const optimization = await aiService.optimizeRoute(routeInput);
+      // Route around the registered exclusion zones in force at departure
+      const exclusionZones = await exclusionZoneService.findActive(
+        routeInput.departureTime ? new Date(routeInput.departureTime) : new Date()
+      );
+      const optimization = await aiService.optimizeRoute({ ...routeInput, exclusionZones });
 
       logger.info('Route optimization request completed', {
         distance: optimization.totalDistance,
@@ -201,6 +208,15 @@ router.post('/maintenance/predict',
         });
       }
 
+      // Without an iceExposure, hull wear from ice comes from the ship's recent voyage plans
+      const environmentalConditions = maintenanceInput.usage.environmentalConditions;
+      if (environmentalConditions.iceExposure === undefined && isUuid(String(maintenanceInput.ship.id))) {
+        const iceHullWear = await voyageService.getIceHullWear(maintenanceInput.ship.id);
+        if (iceHullWear !== null) {
+          environmentalConditions.iceExposure = iceHullWear;
+        }
+      }
+
       const prediction = await aiService.predictMaintenance(maintenanceInput);
 
       logger.info('Maintenance prediction request completed', {
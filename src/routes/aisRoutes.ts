@@ -0,0 +1,48 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { validateAisMessages, handleValidationErrors } from '../middleware/validationMiddleware';
+import { aisIngestionService } from '../services/Ais/AisIngestionService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// POST /messages - Ingest raw AIS NMEA sentences (JSON or one sentence per line as text/plain)
+router.post('/messages',
+  express.text({ type: 'text/plain', limit: '5mb' }),
+  parseAisText,
+  validateAisMessages,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { sentences, receivedAt } = req.body;
+
+      const result = await aisIngestionService.ingest(sentences, receivedAt ? new Date(receivedAt) : new Date());
+
+      return res.status(200).json({
+        success: true,
+        message: 'AIS messages processed successfully',
+        data: result
+      });
+    } catch (error) {
+      logger.error('Failed to ingest AIS messages', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to ingest AIS messages'
+      });
+    }
+  }
+);
+
+// A plain-text feed becomes the JSON shape, skipping blank lines
+function parseAisText(req: Request, res: Response, next: NextFunction): void {
+  if (typeof req.body === 'string') {
+    req.body = {
+      sentences: req.body.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0)
+    };
+  }
+  next();
+}
+
+export default router;
@@ -0,0 +1,237 @@
+import { Router, Request, Response } from 'express';
+import {
+  validateExclusionZone,
+  validateExclusionZoneUpdate,
+  validateExclusionZoneFilters,
+  validatePagination,
+  validateUUIDParam,
+  handleValidationErrors
+} from '../middleware/validationMiddleware';
+import { exclusionZoneService } from '../models/ExclusionZone';
+import { ExclusionZoneCategory, ExclusionZoneSeverity } from '../services/Navigation/ExclusionZones';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// POST / - Create an exclusion zone
+router.post('/',
+  validateExclusionZone,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { name, category, severity, geometry, description, validFrom, validUntil } = req.body;
+
+      const zone = await exclusionZoneService.create({
+        name,
+        category,
+        severity,
+        geometry,
+        description,
+        validFrom: validFrom ? new Date(validFrom) : null,
+        validUntil: validUntil ? new Date(validUntil) : null
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Exclusion zone created successfully',
+        data: { zone }
+      });
+    } catch (error) {
+      logger.error('Failed to create exclusion zone', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create exclusion zone'
+      });
+    }
+  }
+);
+
+// GET / - List exclusion zones, optionally only those in force at activeAt
+router.get('/',
+  validatePagination,
+  validateExclusionZoneFilters,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { page, limit, sortBy, sortOrder, category, severity, activeAt } = req.query;
+
+      if (activeAt && isNaN(Date.parse(activeAt as string))) {
+        return res.status(400).json({
+          success: false,
+          error: 'activeAt must be a valid ISO 8601 date'
+        });
+      }
+
+      const options = {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        sortBy: sortBy as string,
+        sortOrder: sortOrder as 'asc' | 'desc',
+        category: category as ExclusionZoneCategory | undefined,
+        severity: severity as ExclusionZoneSeverity | undefined,
+        activeAt: activeAt ? new Date(activeAt as string) : undefined
+      };
+
+      const result = await exclusionZoneService.findAll(options);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Exclusion zones retrieved successfully',
+        data: {
+          zones: result.zones,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: Math.ceil(result.total / result.limit)
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch exclusion zones', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch exclusion zones'
+      });
+    }
+  }
+);
+
+// GET /:id - Get exclusion zone details
+router.get('/:id',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const zone = await exclusionZoneService.findById(req.params.id);
+      if (!zone) {
+        return res.status(404).json({
+          success: false,
+          error: 'Exclusion zone not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Exclusion zone retrieved successfully',
+        data: { zone }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch exclusion zone', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        zoneId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch exclusion zone'
+      });
+    }
+  }
+);
+
+// PUT /:id - Update an exclusion zone
+router.put('/:id',
+  validateUUIDParam('id'),
+  validateExclusionZoneUpdate,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+      const { name, category, severity, geometry, description, validFrom, validUntil } = req.body;
+
+      const existing = await exclusionZoneService.findById(id);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Exclusion zone not found'
+        });
+      }
+
+      // Validity dates may be cleared with null, so only undefined leaves them unchanged
+      const toDate = (value: string | null | undefined): Date | null | undefined =>
+        value === undefined ? undefined : value === null ? null : new Date(value);
+      const from = validFrom === undefined ? existing.validFrom : toDate(validFrom);
+      const until = validUntil === undefined ? existing.validUntil : toDate(validUntil);
+      if (from && until && until <= from) {
+        return res.status(422).json({
+          success: false,
+          error: 'Valid until must be after valid from'
+        });
+      }
+
+      const zone = await exclusionZoneService.update(id, {
+        name,
+        category,
+        severity,
+        geometry,
+        description,
+        validFrom: toDate(validFrom),
+        validUntil: toDate(validUntil)
+      });
+
+      logger.info('Exclusion zone updated', {
+        zoneId: id,
+        updatedFields: Object.keys(req.body)
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Exclusion zone updated successfully',
+        data: { zone }
+      });
+    } catch (error) {
+      logger.error('Failed to update exclusion zone', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        zoneId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update exclusion zone'
+      });
+    }
+  }
+);
+
+// DELETE /:id - Delete an exclusion zone
+router.delete('/:id',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const zone = await exclusionZoneService.delete(req.params.id);
+      if (!zone) {
+        return res.status(404).json({
+          success: false,
+          error: 'Exclusion zone not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Exclusion zone deleted successfully',
+        data: { zone }
+      });
+    } catch (error) {
+      logger.error('Failed to delete exclusion zone', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        zoneId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete exclusion zone'
+      });
+    }
+  }
+);
+
+export default router;
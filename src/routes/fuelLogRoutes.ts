@@ -0,0 +1,300 @@
+import { Router, Request, Response } from 'express';
+import {
+  validateFuelLog,
+  validateFuelLogBatch,
+  validatePagination,
+  validateDateRange,
+  validateUUIDParam,
+  handleValidationErrors
+} from '../middleware/validationMiddleware';
+import { fuelLogService, CreateFuelLogInput, FuelLogEventType } from '../models/FuelLog';
+import { shipService } from '../models/Ship';
+import { voyageService } from '../models/Voyage';
+import { etaEstimationService } from '../services/EtaEstimationService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// POST / - Ingest a single fuel log
+router.post('/',
+  validateFuelLog,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const input = toFuelLogInput(req.body);
+
+      const referenceErrors = await findInvalidReferences([input]);
+      if (referenceErrors.length > 0) {
+        return res.status(404).json({
+          success: false,
+          error: referenceErrors[0]
+        });
+      }
+
+      const result = await fuelLogService.ingest([input]);
+      if (result.issues.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Fuel log is inconsistent with previous reports',
+          details: result.issues
+        });
+      }
+
+      const etaRevisions = await etaEstimationService.reestimateFromFuelLogs(result.inserted);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Fuel log recorded successfully',
+        data: { fuelLog: result.inserted[0], etaRevisions }
+      });
+    } catch (error) {
+      logger.error('Failed to record fuel log', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record fuel log'
+      });
+    }
+  }
+);
+
+// POST /bulk - Ingest a batch of fuel logs (all or nothing)
+router.post('/bulk',
+  validateFuelLogBatch,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const inputs = (req.body.logs as FuelLogBody[]).map(toFuelLogInput);
+
+      const referenceErrors = await findInvalidReferences(inputs);
+      if (referenceErrors.length > 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Fuel logs reference unknown ships or voyages',
+          details: referenceErrors
+        });
+      }
+
+      const result = await fuelLogService.ingest(inputs);
+      if (result.issues.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Fuel logs are inconsistent with previous reports',
+          details: result.issues
+        });
+      }
+
+      logger.info('Fuel log batch recorded', { count: result.inserted.length });
+      const etaRevisions = await etaEstimationService.reestimateFromFuelLogs(result.inserted);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Fuel logs recorded successfully',
+        data: {
+          count: result.inserted.length,
+          fuelLogs: result.inserted,
+          etaRevisions
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record fuel log batch', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record fuel logs'
+      });
+    }
+  }
+);
+
+// GET /voyage/:voyageId - Fuel logs for a voyage
+router.get('/voyage/:voyageId',
+  validateUUIDParam('voyageId'),
+  validateDateRange,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { voyageId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const fuelLogs = await fuelLogService.findByVoyage(voyageId, {
+        startTime: startDate ? new Date(startDate as string) : undefined,
+        endTime: endDate ? new Date(endDate as string) : undefined
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Voyage fuel logs retrieved successfully',
+        data: {
+          fuelLogs,
+          totalFuelConsumed: Math.round(fuelLogs.reduce((sum, log) => sum + log.fuelConsumed, 0) * 100) / 100
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch voyage fuel logs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.voyageId
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch voyage fuel logs'
+      });
+    }
+  }
+);
+
+// GET /ship/:shipId - Fuel logs for a ship
+router.get('/ship/:shipId',
+  validateUUIDParam('shipId'),
+  validatePagination,
+  validateDateRange,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { shipId } = req.params;
+      const { page, limit, startDate, endDate } = req.query;
+
+      const result = await fuelLogService.findByShip(shipId, {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        startTime: startDate ? new Date(startDate as string) : undefined,
+        endTime: endDate ? new Date(endDate as string) : undefined
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ship fuel logs retrieved successfully',
+        data: {
+          fuelLogs: result.fuelLogs,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: Math.ceil(result.total / result.limit)
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch ship fuel logs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: req.params.shipId
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ship fuel logs'
+      });
+    }
+  }
+);
+
+// GET /ship/:shipId/consistency - Check stored fuel logs for unexplained increases
+router.get('/ship/:shipId/consistency',
+  validateUUIDParam('shipId'),
+  validateDateRange,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { shipId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const issues = await fuelLogService.checkShipConsistency(shipId, {
+        startTime: startDate ? new Date(startDate as string) : undefined,
+        endTime: endDate ? new Date(endDate as string) : undefined
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Fuel log consistency check completed',
+        data: {
+          consistent: issues.length === 0,
+          issues
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to check fuel log consistency', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: req.params.shipId
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to check fuel log consistency'
+      });
+    }
+  }
+);
+
+// Utility functions
+
+// Fuel log as posted, after validateFuelLog; numbers may arrive as numeric strings
+interface FuelLogBody {
+  shipId: string;
+  voyageId?: string;
+  logTime: string;
+  eventType?: FuelLogEventType;
+  fuelConsumed: number | string;
+  fuelRemaining?: number | string;
+  bunkeredAmount?: number | string;
+  currentSpeed?: number | string;
+  position?: { latitude: number | string; longitude: number | string };
+  engineLoad?: number | string;
+  fuelType?: string;
+  weatherConditions?: { [key: string]: unknown };
+  additionalMetrics?: { [key: string]: unknown };
+}
+
+function toFuelLogInput(body: FuelLogBody): CreateFuelLogInput {
+  return {
+    shipId: body.shipId,
+    voyageId: body.voyageId,
+    logTime: new Date(body.logTime),
+    eventType: body.eventType,
+    fuelConsumed: Number(body.fuelConsumed),
+    fuelRemaining: body.fuelRemaining !== undefined ? Number(body.fuelRemaining) : undefined,
+    bunkeredAmount: body.bunkeredAmount !== undefined ? Number(body.bunkeredAmount) : undefined,
+    currentSpeed: body.currentSpeed !== undefined ? Number(body.currentSpeed) : undefined,
+    position: body.position
+      ? { latitude: Number(body.position.latitude), longitude: Number(body.position.longitude) }
+      : undefined,
+    engineLoad: body.engineLoad !== undefined ? Number(body.engineLoad) : undefined,
+    fuelType: body.fuelType,
+    weatherConditions: body.weatherConditions,
+    additionalMetrics: body.additionalMetrics
+  };
+}
+
+async function findInvalidReferences(inputs: CreateFuelLogInput[]): Promise<string[]> {
+  const errors: string[] = [];
+
+  for (const shipId of new Set(inputs.map(input => input.shipId))) {
+    const ship = await shipService.findById(shipId, { includeRetired: true });
+    if (!ship) {
+      errors.push(`Ship not found: ${shipId}`);
+    }
+  }
+
+  const voyageShips = new Map<string, string>();
+  for (const input of inputs) {
+    if (input.voyageId) {
+      voyageShips.set(input.voyageId, input.shipId);
+    }
+  }
+  for (const [voyageId, shipId] of voyageShips) {
+    const voyage = await voyageService.findById(voyageId);
+    if (!voyage) {
+      errors.push(`Voyage not found: ${voyageId}`);
+    } else if (voyage.shipId !== shipId) {
+      errors.push(`Voyage ${voyageId} does not belong to ship ${shipId}`);
+    }
+  }
+
+  return errors;
+}
+
+export default router;
@@ -0,0 +1,213 @@
+import { Router, Request, Response } from 'express';
+import {
+  validatePort,
+  validatePortUpdate,
+  validatePortCodeParam,
+  validatePagination,
+  handleValidationErrors
+} from '../middleware/validationMiddleware';
+import { portService } from '../models/Port';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// POST / - Register a port
+router.post('/',
+  validatePort,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { code, name, country, latitude, longitude, maxDraft, timezone } = req.body;
+
+      const existing = await portService.findByCode(code);
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          error: 'A port with this code already exists'
+        });
+      }
+
+      const port = await portService.create({ code, name, country, latitude, longitude, maxDraft, timezone });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Port created successfully',
+        data: { port }
+      });
+    } catch (error) {
+      logger.error('Failed to create port', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create port'
+      });
+    }
+  }
+);
+
+// GET / - List ports, optionally by country or matching a name or code
+router.get('/',
+  validatePagination,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { page, limit, sortBy, sortOrder, country, search } = req.query;
+
+      const options = {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        sortBy: sortBy as string,
+        sortOrder: sortOrder as 'asc' | 'desc',
+        country: country as string,
+        search: search as string
+      };
+
+      const result = await portService.findAll(options);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ports retrieved successfully',
+        data: {
+          ports: result.ports,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: Math.ceil(result.total / result.limit)
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch ports', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ports'
+      });
+    }
+  }
+);
+
+// GET /:code - Get port details by UN/LOCODE
+router.get('/:code',
+  validatePortCodeParam,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const port = await portService.findByCode(req.params.code);
+      if (!port) {
+        return res.status(404).json({
+          success: false,
+          error: 'Port not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Port retrieved successfully',
+        data: { port }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch port', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: req.params.code
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch port'
+      });
+    }
+  }
+);
+
+// PUT /:code - Update a port
+router.put('/:code',
+  validatePortCodeParam,
+  validatePortUpdate,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { code } = req.params;
+      const { name, country, latitude, longitude, maxDraft, timezone } = req.body;
+
+      const port = await portService.update(code, { name, country, latitude, longitude, maxDraft, timezone });
+      if (!port) {
+        return res.status(404).json({
+          success: false,
+          error: 'Port not found'
+        });
+      }
+
+      logger.info('Port updated', {
+        code,
+        updatedFields: Object.keys(req.body)
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Port updated successfully',
+        data: { port }
+      });
+    } catch (error) {
+      logger.error('Failed to update port', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: req.params.code
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update port'
+      });
+    }
+  }
+);
+
+// DELETE /:code - Delete a port no voyage refers to
+router.delete('/:code',
+  validatePortCodeParam,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { code } = req.params;
+
+      if (await portService.isInUse(code)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Cannot delete a port that voyages refer to'
+        });
+      }
+
+      const port = await portService.delete(code);
+      if (!port) {
+        return res.status(404).json({
+          success: false,
+          error: 'Port not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Port deleted successfully',
+        data: { port }
+      });
+    } catch (error) {
+      logger.error('Failed to delete port', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: req.params.code
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete port'
+      });
+    }
+  }
+);
+
+export default router;
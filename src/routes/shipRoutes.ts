@@ -0,0 +1,314 @@
+import { Router, Request, Response } from 'express';
+import {
+  validateShip,
+  validateShipUpdate,
+  validatePagination,
+  validateShipFilters,
+  validateUUIDParam,
+  handleValidationErrors
+} from '../middleware/validationMiddleware';
+import { shipService, ShipType, ShipStatus } from '../models/Ship';
+import { voyageService } from '../models/Voyage';
+import { maintenanceService } from '../models/Maintenance';
+import { fuelLogService } from '../models/FuelLog';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// POST / - Register a new ship
+router.post('/',
+  validateShip,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { name, imoNumber, mmsi, type, engineType, specifications } = req.body;
+
+      const existing = await shipService.findByImoNumber(imoNumber);
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          error: 'A ship with this IMO number already exists'
+        });
+      }
+      if (mmsi && await shipService.findByMmsi(mmsi)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A ship with this MMSI already exists'
+        });
+      }
+
+      const ship = await shipService.create({
+        name,
+        imoNumber,
+        mmsi,
+        type,
+        engineType,
+        specifications
+      });
+
+      logger.info('Ship registered successfully', {
+        shipId: ship.id,
+        imoNumber
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Ship registered successfully',
+        data: { ship }
+      });
+    } catch (error) {
+      logger.error('Failed to register ship', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to register ship'
+      });
+    }
+  }
+);
+
+// GET / - List ships
+router.get('/',
+  validatePagination,
+  validateShipFilters,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { page, limit, sortBy, sortOrder, type, status, search, includeRetired } = req.query;
+
+      const options = {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        sortBy: sortBy as string,
+        sortOrder: sortOrder as 'asc' | 'desc',
+        type: type as ShipType | undefined,
+        status: status as ShipStatus | undefined,
+        search: search as string,
+        includeRetired: includeRetired === 'true'
+      };
+
+      const result = await shipService.findAll(options);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ships retrieved successfully',
+        data: {
+          ships: result.ships,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: Math.ceil(result.total / result.limit)
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch ships', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ships'
+      });
+    }
+  }
+);
+
+// GET /:id - Get ship details
+router.get('/:id',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const ship = await shipService.findById(req.params.id, {
+        includeRetired: req.query.includeRetired === 'true'
+      });
+      if (!ship) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ship not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ship retrieved successfully',
+        data: { ship }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch ship', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ship'
+      });
+    }
+  }
+);
+
+// GET /:id/profile - Ship with recent voyages, open maintenance and latest fuel log
+router.get('/:id/profile',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+
+      const ship = await shipService.findById(id, { includeRetired: true });
+      if (!ship) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ship not found'
+        });
+      }
+
+      const [recentVoyages, openMaintenance, latestFuelLog] = await Promise.all([
+        voyageService.findAll({ shipId: id, limit: 5, sortBy: 'plannedDepartureTime', sortOrder: 'desc' }),
+        maintenanceService.findOpenByShipId(id),
+        fuelLogService.findLatestByShipId(id)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ship profile retrieved successfully',
+        data: {
+          ship,
+          recentVoyages: recentVoyages.voyages,
+          openMaintenance,
+          latestFuelLog
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch ship profile', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ship profile'
+      });
+    }
+  }
+);
+
+// PUT /:id - Update ship details
+router.put('/:id',
+  validateUUIDParam('id'),
+  validateShipUpdate,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+      const { name, imoNumber, mmsi, type, engineType, status, specifications } = req.body;
+
+      if (imoNumber) {
+        const existing = await shipService.findByImoNumber(imoNumber);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({
+            success: false,
+            error: 'A ship with this IMO number already exists'
+          });
+        }
+      }
+      if (mmsi) {
+        const existing = await shipService.findByMmsi(mmsi);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({
+            success: false,
+            error: 'A ship with this MMSI already exists'
+          });
+        }
+      }
+
+      const ship = await shipService.update(id, {
+        name,
+        imoNumber,
+        mmsi,
+        type,
+        engineType,
+        status,
+        specifications
+      });
+      if (!ship) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ship not found'
+        });
+      }
+
+      logger.info('Ship updated', {
+        shipId: id,
+        updatedFields: Object.keys(req.body)
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ship updated successfully',
+        data: { ship }
+      });
+    } catch (error) {
+      logger.error('Failed to update ship', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update ship'
+      });
+    }
+  }
+);
+
+// DELETE /:id - Retire a ship (soft delete)
+router.delete('/:id',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+
+      const activeVoyage = await voyageService.findActiveByShipId(id);
+      if (activeVoyage) {
+        return res.status(409).json({
+          success: false,
+          error: 'Cannot retire a ship with a voyage in progress'
+        });
+      }
+
+      const ship = await shipService.softDelete(id);
+      if (!ship) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ship not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Ship retired successfully',
+        data: { ship }
+      });
+    } catch (error) {
+      logger.error('Failed to retire ship', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        shipId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to retire ship'
+      });
+    }
+  }
+);
+
+export default router;
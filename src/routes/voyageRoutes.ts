@@ -1,25 +1,78 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { 
   validateVoyagePlan, 
+  validatePortCallUpdate,
+  validateVoyageLegUpdate,
   validateVoyageFeedback, 
   validatePagination, 
   validateDateRange,
+  validateUUIDParam,
+  validateNoonReport,
+  validateVoyageStatusUpdate,
+  validateRouteExport,
+  validateRtzImport,
+  validateVoyageDetails,
   handleValidationErrors 
 } from '../middleware/validationMiddleware';
-import { voyageService } from '../models/Voyage';
+import { voyageService, Voyage, VoyageLocation } from '../models/Voyage';
+import { portService, Port } from '../models/Port';
 import { shipService } from '../models/Ship';
-import { weatherService } from '../services/WeatherService';
+import { noonReportService } from '../services/NoonReportService';
+import { voyageItineraryService, PortCall, VoyageLeg } from '../models/VoyageItinerary';
+import { voyageEtaRevisionService } from '../models/VoyageEtaRevision';
+import { etaEstimationService, ETA_DELAY_THRESHOLD_HOURS } from '../services/EtaEstimationService';
+import { chokepointCatalogue, ChokepointPreferences } from '../services/Navigation/Chokepoints';
+import { DistanceUnit, distanceNm, greatCircleDistance } from '../services/Navigation/Geometry';
+import { ArrivalWindow, SpeedProfile } from '../services/Navigation/SpeedProfile';
+import { RouteWeatherAnalysis } from '../services/WeatherService';
+import { trackDeviationAnalyzer, PlannedLegTrack } from '../services/Navigation/TrackDeviation';
+import { routeExchange, RouteExportFormat, RtzImport } from '../services/Navigation/RouteExchange';
+import { routeExchangeService } from '../services/RouteExchangeService';
+import { IceExposure } from '../services/Navigation/IceLimits';
+import {
+  voyagePlanningService,
+  ItineraryPlan,
+  LegPlan,
+  LegRouting,
+  PortCallRequest,
+  ScheduledPortCall
+} from '../services/VoyagePlanningService';
+import { db } from '../utils/database';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
-// POST /plan-voyage - Plan a new voyage
+// Response body of a newly planned voyage
+interface SavedVoyagePlan {
+  voyage: Voyage;
+  weatherAnalysis: RouteWeatherAnalysis;
+  speedProfile: SpeedProfile | null;
+  routing: LegRouting;
+  itinerary: { portCalls: PortCall[]; legs: Array<VoyageLeg & { routing: LegRouting }> };
+}
+
+// Port call (or origin/destination) as posted, after validateVoyagePlan; numbers may arrive as numeric strings
+interface PortCallBody {
+  name?: string;
+  code?: string; // upper-cased by the validator
+  latitude?: number | string; // required without a code
+  longitude?: number | string;
+  portStay?: number | string;
+  departureTime?: string;
+  arrivalWindow?: { earliest: string; latest: string };
+  cargoLoaded?: number | string;
+  cargoDischarged?: number | string;
+  sailingDraft?: number | string;
+  chokepoints?: ChokepointPreferences;
+}
+
+// POST /plan-voyage - Plan a new voyage, either origin to destination or through a list of port calls
 router.post('/plan', 
   validateVoyagePlan,
   handleValidationErrors,
   async (req: Request, res: Response): Promise<Response | void> => {
     try {
-      const { origin, destination, shipId, departureTime, preferences } = req.body;
+      const { origin, destination, shipId, departureTime, preferences, chokepoints, arrivalWindow, portCalls } = req.body;
 
       // Verify ship exists and user has access
       const ship = await shipService.findById(shipId);
@@ -30,33 +83,57 @@ router.post('/plan',
         });
       }
 
-      // Get weather analysis for the route
-      const waypoints = [origin, destination];
-      const weatherAnalysis = await weatherService.analyzeRouteWeather(waypoints);
+      // Resolve port codes to registered ports
+      const requestedCalls: PortCallBody[] = portCalls || [origin, { ...destination, arrivalWindow }];
+      const codes = requestedCalls.flatMap(call => call.code ? [call.code] : []);
+      const ports = await portService.findByCodes(codes);
+      const unknownCodes = codes.filter(code => !ports.has(code.toUpperCase()));
+      if (unknownCodes.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Unknown port code',
+          details: unknownCodes
+        });
+      }
 
-      // Create voyage
-      const voyage = await voyageService.create({
-        shipId,
-        origin,
-        destination,
+      // A single-leg plan is an itinerary of two calls with the berth window at the destination
+      const plannedDepartureTime = departureTime ? new Date(departureTime) : new Date();
+      const calls: PortCallRequest[] = requestedCalls.map(call =>
+        toPortCallRequest(call, call.code ? ports.get(call.code.toUpperCase()) : undefined)
+      );
+      if (portCalls && arrivalWindow && !calls[calls.length - 1].arrivalWindow) {
+        calls[calls.length - 1].arrivalWindow = toArrivalWindow(arrivalWindow);
+      }
+
+      const { plan, error, issues } = await voyagePlanningService.planItinerary({
+        ship,
+        portCalls: calls,
+        departureTime: plannedDepartureTime,
         preferences,
-        plannedDepartureTime: departureTime ? new Date(departureTime) : undefined
+        chokepoints
       });
+      if (!plan) {
+        return res.status(422).json({
+          success: false,
+          error,
+          ...(issues.length > 0 ? { details: issues } : {})
+        });
+      }
+
+      const data = await saveVoyagePlan(shipId, plan, { preferences, arrivalWindow, trackCargo: Boolean(portCalls) });
 
       logger.info('Voyage planned successfully', {
-        voyageId: voyage.id,
+        voyageId: data.voyage.id,
         shipId,
-        origin,
-        destination
+        origin: data.voyage.origin,
+        destination: data.voyage.destination,
+        portCallCount: plan.portCalls.length
       });
 
       return res.status(201).json({
         success: true,
         message: 'Voyage planned successfully',
-        data: { 
-          voyage,
-          weatherAnalysis
-        }
+        data
       });
     } catch (error) {
       logger.error('Failed to plan voyage', {
@@ -71,6 +148,87 @@ router.post('/plan',
   }
 );
 
+// POST /import/rtz - Plan a voyage along a route drawn on the bridge and exported from ECDIS as RTZ
+router.post('/import/rtz',
+  express.text({ type: ['application/xml', 'text/xml', 'application/vnd.rtz+xml', 'text/plain'], limit: '5mb' }),
+  validateRtzImport,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { route, errors } = routeExchange.parseRtz(req.body);
+      if (!route) {
+        return res.status(422).json({
+          success: false,
+          error: 'Invalid RTZ route',
+          details: errors
+        });
+      }
+
+      // Without a shipId the route's vessel MMSI names the ship
+      const shipId = req.query.shipId as string | undefined;
+      const ship = shipId
+        ? await shipService.findById(shipId)
+        : route.vesselMmsi ? await shipService.findByMmsi(route.vesselMmsi) : null;
+      if (!ship) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ship not found'
+        });
+      }
+
+      // The route is sailed as drawn, at the average of the speeds planned on the bridge when there are any
+      const waypoints = route.waypoints.map(point => ({ latitude: point.latitude, longitude: point.longitude }));
+      const first = route.waypoints[0];
+      const last = route.waypoints[route.waypoints.length - 1];
+      const preferences = { preferredSpeed: plannedAverageSpeed(route.waypoints) };
+      const departureTime = req.query.departureTime
+        ? new Date(req.query.departureTime as string)
+        : route.departureTime || new Date();
+
+      const { plan, error, issues } = await voyagePlanningService.planItinerary({
+        ship,
+        portCalls: [
+          { name: first.name || undefined, ...waypoints[0] },
+          { name: last.name || undefined, ...waypoints[waypoints.length - 1], route: waypoints }
+        ],
+        departureTime,
+        preferences
+      });
+      if (!plan) {
+        return res.status(422).json({
+          success: false,
+          error,
+          ...(issues.length > 0 ? { details: issues } : {})
+        });
+      }
+
+      const data = await saveVoyagePlan(ship.id, plan, { preferences, trackCargo: false });
+
+      logger.info('Voyage imported from RTZ route', {
+        voyageId: data.voyage.id,
+        shipId: ship.id,
+        routeName: route.routeName,
+        waypointCount: waypoints.length
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Voyage imported successfully',
+        data: { routeName: route.routeName, ...data }
+      });
+    } catch (error) {
+      logger.error('Failed to import RTZ route', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to import RTZ route'
+      });
+    }
+  }
+);
+
 // GET /history - Get voyage history
 router.get('/history',
   validatePagination,
@@ -137,11 +295,24 @@ router.get('/history',
   }
 );
 
-// GET /:id - Get specific voyage details
+// GET /chokepoints - List the canals and straits used in route planning
+router.get('/chokepoints',
+  (req: Request, res: Response): Response => {
+    return res.json({
+      success: true,
+      data: { chokepoints: chokepointCatalogue.list() }
+    });
+  }
+);
+
+// GET /:id - Get specific voyage details, with distances in the requested unit (km by default)
 router.get('/:id',
+  validateVoyageDetails,
+  handleValidationErrors,
   async (req: Request, res: Response): Promise<Response | void> => {
     try {
       const { id } = req.params;
+      const unit = (req.query.unit as DistanceUnit) || 'km';
 
       const voyage = await voyageService.findById(id);
       if (!voyage) {
@@ -151,11 +322,14 @@ router.get('/:id',
         });
       }
 
-      // Get ship details
-      const ship = await shipService.findById(voyage.shipId);
+      // Get ship details and the status history
+      const [ship, statusHistory] = await Promise.all([
+        shipService.findById(voyage.shipId),
+        voyageService.findStatusHistory(id)
+      ]);
 
       // Calculate route metrics
-      const distance = calculateDistance(voyage.origin, voyage.destination);
+      const distance = greatCircleDistance(voyage.origin, voyage.destination, unit);
       const actualDuration = voyage.actualArrivalTime && voyage.actualDepartureTime
         ? Math.round((voyage.actualArrivalTime.getTime() - voyage.actualDepartureTime.getTime()) / (1000 * 60))
         : null;
@@ -172,8 +346,10 @@ router.get('/:id',
             status: ship.status,
             specifications: ship.specifications
           } : null,
+          statusHistory,
           metrics: {
             distance: Math.round(distance * 100) / 100,
+            distanceUnit: unit,
             actualDuration,
             fuelEfficiency: voyage.actualFuelConsumption && distance > 0 
               ? Math.round((voyage.actualFuelConsumption / distance) * 100) / 100 
@@ -195,21 +371,249 @@ router.get('/:id',
   }
 );
 
-// PUT /:id/status - Update voyage status
-router.put('/:id/status',
+// GET /:id/itinerary - Get the port calls and legs of a voyage
+router.get('/:id/itinerary',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+
+      const voyage = await voyageService.findById(id);
+      if (!voyage) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voyage not found'
+        });
+      }
+
+      const itinerary = await voyageItineraryService.findByVoyageId(id);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Voyage itinerary retrieved successfully',
+        data: { itinerary }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch voyage itinerary', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch voyage itinerary'
+      });
+    }
+  }
+);
+
+// GET /:id/route - Export the planned route, or a leg's alternative, as RTZ, GPX or GeoJSON
+router.get('/:id/route',
+  validateUUIDParam('id'),
+  validateRouteExport,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+      const format = (req.query.format as RouteExportFormat | undefined) || 'rtz';
+
+      const voyage = await voyageService.findById(id);
+      if (!voyage) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voyage not found'
+        });
+      }
+
+      const ship = await shipService.findById(voyage.shipId);
+      const { route, error } = await routeExchangeService.buildRoute(voyage, ship, {
+        leg: req.query.leg !== undefined ? parseInt(req.query.leg as string) : undefined,
+        alternative: req.query.alternative !== undefined ? parseInt(req.query.alternative as string) : undefined,
+        xtd: req.query.xtd !== undefined ? parseFloat(req.query.xtd as string) : undefined
+      });
+      if (!route) {
+        return res.status(404).json({
+          success: false,
+          error
+        });
+      }
+
+      const filename = `voyage-${id}${req.query.alternative !== undefined ? `-alternative-${req.query.alternative}` : ''}`;
+      if (format === 'geojson') {
+        res.attachment(`${filename}.geojson`);
+        res.type('application/geo+json');
+        return res.status(200).send(JSON.stringify(routeExchange.toGeoJson(route)));
+      }
+
+      res.attachment(`${filename}.${format}`);
+      res.type(format === 'gpx' ? 'application/gpx+xml' : 'application/xml');
+      return res.status(200).send(format === 'gpx' ? routeExchange.toGpx(route) : routeExchange.toRtz(route));
+    } catch (error) {
+      logger.error('Failed to export voyage route', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to export voyage route'
+      });
+    }
+  }
+);
+
+// PUT /:id/port-calls/:sequence - Record actual arrival, departure and cargo at a port call
+router.put('/:id/port-calls/:sequence',
+  validateUUIDParam('id'),
+  validatePortCallUpdate,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+      const sequence = parseInt(req.params.sequence);
+      const { actualArrivalTime, actualDepartureTime, cargoLoaded, cargoDischarged } = req.body;
+
+      const toDate = (value: string | null | undefined): Date | null | undefined =>
+        value === undefined ? undefined : value === null ? null : new Date(value);
+      const portCall = await voyageItineraryService.updatePortCall(id, sequence, {
+        actualArrivalTime: toDate(actualArrivalTime),
+        actualDepartureTime: toDate(actualDepartureTime),
+        cargoLoaded,
+        cargoDischarged
+      });
+      if (!portCall) {
+        return res.status(404).json({
+          success: false,
+          error: 'Port call not found'
+        });
+      }
+
+      // Leaving the first port and reaching the last one are the voyage's own actual times
+      const { portCalls } = await voyageItineraryService.findByVoyageId(id);
+      const isLast = sequence === portCalls.length - 1;
+      if ((sequence === 0 && actualDepartureTime !== undefined) || (isLast && actualArrivalTime !== undefined)) {
+        await voyageService.update(id, {
+          ...(sequence === 0 ? { actualDepartureTime: portCall.actualDepartureTime } : {}),
+          ...(isLast ? { actualArrivalTime: portCall.actualArrivalTime } : {})
+        });
+      }
+
+      logger.info('Port call updated', {
+        voyageId: id,
+        sequence,
+        updatedFields: Object.keys(req.body)
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Port call updated successfully',
+        data: { portCall }
+      });
+    } catch (error) {
+      logger.error('Failed to update port call', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id,
+        sequence: req.params.sequence
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update port call'
+      });
+    }
+  }
+);
+
+// PUT /:id/legs/:sequence - Record actual distance and fuel for a leg
+router.put('/:id/legs/:sequence',
+  validateUUIDParam('id'),
+  validateVoyageLegUpdate,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+      const sequence = parseInt(req.params.sequence);
+      const { actualDistance, actualFuelConsumption } = req.body;
+
+      const leg = await voyageItineraryService.updateLeg(id, sequence, { actualDistance, actualFuelConsumption });
+      if (!leg) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voyage leg not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Voyage leg updated successfully',
+        data: { leg }
+      });
+    } catch (error) {
+      logger.error('Failed to update voyage leg', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id,
+        sequence: req.params.sequence
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update voyage leg'
+      });
+    }
+  }
+);
+
+// GET /:id/eta-revisions - ETA revision history of a voyage
+router.get('/:id/eta-revisions',
+  validateUUIDParam('id'),
+  handleValidationErrors,
   async (req: Request, res: Response): Promise<Response | void> => {
     try {
       const { id } = req.params;
-      const { status, notes } = req.body;
 
-      if (!status || !['planned', 'in_progress', 'completed', 'cancelled', 'delayed'].includes(status)) {
-        return res.status(400).json({
+      const voyage = await voyageService.findById(id);
+      if (!voyage) {
+        return res.status(404).json({
           success: false,
-          error: 'Invalid status. Must be one of: planned, in_progress, completed, cancelled, delayed'
+          error: 'Voyage not found'
         });
       }
 
-      const voyage = await voyageService.updateStatus(id, status);
+      const revisions = await voyageEtaRevisionService.findByVoyageId(id);
+
+      return res.status(200).json({
+        success: true,
+        message: 'ETA revisions retrieved successfully',
+        data: {
+          estimatedArrivalTime: voyage.estimatedArrivalTime,
+          delayThresholdHours: ETA_DELAY_THRESHOLD_HOURS,
+          revisions
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch ETA revisions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ETA revisions'
+      });
+    }
+  }
+);
+
+// POST /:id/deviation-analysis - Compare the actual track with the planned route and record the result in the voyage feedback
+router.post('/:id/deviation-analysis',
+  validateUUIDParam('id'),
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+
+      const voyage = await voyageService.findById(id);
       if (!voyage) {
         return res.status(404).json({
           success: false,
@@ -217,15 +621,79 @@ router.put('/:id/status',
         });
       }
 
-      logger.info('Voyage status updated', {
+      if (!voyage.actualRoute || voyage.actualRoute.length === 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Voyage has no actual track to compare'
+        });
+      }
+
+      const legs = await plannedLegTracks(voyage);
+      if (legs.length === 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Voyage has no planned route to compare'
+        });
+      }
+
+      const analysis = trackDeviationAnalyzer.analyze(legs, voyage.actualRoute);
+      const updated = await voyageService.recordTrackDeviation(id, analysis.summary);
+
+      logger.info('Voyage track deviation analyzed', {
         voyageId: id,
-        newStatus: status
+        maxDeviation: analysis.summary.maxDeviation,
+        extraDistance: analysis.summary.extraDistance
       });
 
+      return res.status(200).json({
+        success: true,
+        message: 'Track deviation analyzed successfully',
+        data: { analysis, feedback: updated?.feedback || null }
+      });
+    } catch (error) {
+      logger.error('Failed to analyze track deviation', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to analyze track deviation'
+      });
+    }
+  }
+);
+
+// PUT /:id/status - Update voyage status
+router.put('/:id/status',
+  validateUUIDParam('id'),
+  validateVoyageStatusUpdate,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+      const { status, notes, changedBy } = req.body;
+
+      const result = await voyageService.updateStatus(id, status, { changedBy, notes });
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voyage not found'
+        });
+      }
+      if (!result.voyage) {
+        return res.status(409).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      const statusHistory = await voyageService.findStatusHistory(id);
+
       return res.status(200).json({
         success: true,
         message: 'Voyage status updated successfully',
-        data: { voyage }
+        data: { voyage: result.voyage, statusHistory }
       });
     } catch (error) {
       logger.error('Failed to update voyage status', {
@@ -243,6 +711,7 @@ router.put('/:id/status',
 
 // POST /:id/feedback - Add voyage feedback
 router.post('/:id/feedback',
+  validateUUIDParam('id'),
   validateVoyageFeedback,
   handleValidationErrors,
   async (req: Request, res: Response): Promise<Response | void> => {
@@ -302,6 +771,80 @@ router.post('/:id/feedback',
   }
 );
 
+// POST /:id/noon-reports - Submit a noon report (JSON or plain text)
+router.post('/:id/noon-reports',
+  express.text({ type: 'text/plain' }),
+  parseNoonReportText,
+  validateUUIDParam('id'),
+  validateNoonReport,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+      const { id } = req.params;
+
+      const voyage = await voyageService.findById(id);
+      if (!voyage) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voyage not found'
+        });
+      }
+
+      if (!['in_progress', 'delayed'].includes(voyage.status)) {
+        return res.status(409).json({
+          success: false,
+          error: `Noon reports can only be submitted for voyages in progress (current status: ${voyage.status})`
+        });
+      }
+
+      const report = noonReportService.toNoonReport(req.body);
+      if (noonReportService.isDuplicate(voyage, report)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A noon report for this time has already been submitted'
+        });
+      }
+
+      const result = await noonReportService.submit(voyage, report);
+      if (result.issues.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Noon report ROB is inconsistent with previous fuel logs',
+          details: result.issues
+        });
+      }
+
+      // Revise the ETA from the reported position and speed
+      const etaRevision = result.voyage && await etaEstimationService.reestimate(result.voyage, {
+        time: report.reportTime,
+        position: report.position,
+        speed: report.averageSpeed,
+        source: 'noon_report'
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Noon report recorded successfully',
+        data: {
+          voyage: etaRevision ? await voyageService.findById(id) : result.voyage,
+          fuelLogs: result.fuelLogs,
+          etaRevision: etaRevision || null
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record noon report', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: req.params.id
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record noon report'
+      });
+    }
+  }
+);
+
 // GET /stats/:shipId - Get voyage statistics for a ship
 router.get('/stats/:shipId',
   async (req: Request, res: Response): Promise<Response | void> => {
@@ -330,35 +873,288 @@ router.get('/stats/:shipId',
 );
 
 // Utility functions
-function calculateDistance(origin: { latitude: number; longitude: number }, destination: { latitude: number; longitude: number }): number {
-  // Haversine formula
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = toRadians(destination.latitude - origin.latitude);
-  const dLon = toRadians(destination.longitude - origin.longitude);
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(toRadians(origin.latitude)) * Math.cos(toRadians(destination.latitude)) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+
+// Store a planned itinerary as a voyage with its port calls and legs, and build the plan response
+async function saveVoyagePlan(
+  shipId: string,
+  plan: ItineraryPlan,
+  options: { preferences?: { [key: string]: unknown }; arrivalWindow?: unknown; trackCargo: boolean }
+): Promise<SavedVoyagePlan> {
+  const { legs } = plan;
+  const singleLeg = legs.length === 1;
+  const lastLeg = legs[legs.length - 1];
+  const weatherAnalysis = voyagePlanningService.mergeWeatherAnalyses(legs.map(leg => leg.weatherAnalysis));
+  const routing = singleLeg ? lastLeg.routing : combineRouting(legs);
+
+  // Create the voyage and its itinerary together
+  const trx = await db.transaction();
+  let voyage;
+  let itinerary;
+  try {
+    voyage = await voyageService.create({
+      shipId,
+      origin: toVoyageLocation(plan.portCalls[0]),
+      destination: toVoyageLocation(plan.portCalls[plan.portCalls.length - 1]),
+      preferences: options.preferences,
+      plannedDepartureTime: legs[0].departureTime,
+      estimatedArrivalTime: lastLeg.arrivalTime,
+      estimatedDistance: Math.round(legs.reduce((sum, leg) => sum + leg.distance, 0) * 100) / 100,
+      estimatedFuelConsumption: Math.round(legs.reduce((sum, leg) => sum + leg.estimatedFuelConsumption, 0) * 100) / 100,
+      cargoWeight: options.trackCargo ? legs[0].cargoWeight : undefined,
+      plannedRoute: legs.flatMap((leg, index) => leg.waypoints.slice(index === 0 ? 0 : 1)).map(point => ({ ...point })),
+      weatherForecast: weatherAnalysis,
+      // Ice hull wear is kept for the ship's maintenance predictions
+      optimizationParameters: {
+        ...(singleLeg && lastLeg.speedProfile ? { arrivalWindow: options.arrivalWindow, speedProfile: lastLeg.speedProfile } : {}),
+        iceHullWear: routing.ice.hullWear
+      }
+    }, trx);
+
+    itinerary = await voyageItineraryService.create(
+      voyage.id,
+      plan.portCalls.map(call => ({
+        name: call.name,
+        portCode: call.code,
+        latitude: call.latitude,
+        longitude: call.longitude,
+        plannedArrivalTime: call.plannedArrivalTime,
+        plannedDepartureTime: call.plannedDepartureTime,
+        portStayHours: call.portStay,
+        cargoLoaded: call.cargoLoaded,
+        cargoDischarged: call.cargoDischarged
+      })),
+      legs.map(leg => ({
+        plannedDepartureTime: leg.departureTime,
+        estimatedArrivalTime: leg.arrivalTime,
+        cargoWeight: leg.cargoWeight,
+        plannedRoute: leg.waypoints.map(point => ({ ...point })),
+        alternativeRoutes: leg.routing.exclusionZones.alternatives.map(alternative => ({
+          waypoints: alternative.waypoints.map(point => ({ ...point })),
+          distance: Math.round(alternative.distance * 100) / 100
+        })),
+        weatherForecast: leg.weatherAnalysis,
+        speedProfile: leg.speedProfile,
+        estimatedDistance: Math.round(leg.distance * 100) / 100,
+        estimatedFuelConsumption: Math.round(leg.estimatedFuelConsumption * 100) / 100
+      })),
+      trx
+    );
+
+    await trx.commit();
+  } catch (error) {
+    await trx.rollback();
+    throw error;
+  }
+
+  legs.forEach((leg, index) => {
+    if (leg.speedProfile && !leg.speedProfile.feasible) {
+      logger.warn('Berth window cannot be met at maximum speed', {
+        voyageId: voyage.id,
+        leg: index,
+        lateness: leg.speedProfile.lateness
+      });
+    }
+
+    if (leg.routing.exclusionZones.planned.length > 0) {
+      logger.warn('Planned route passes through exclusion zones', {
+        voyageId: voyage.id,
+        leg: index,
+        zones: leg.routing.exclusionZones.planned.map(zone => zone.zoneId)
+      });
+    }
+
+    if (leg.routing.ice.escortRequired) {
+      logger.warn('Planned route needs an icebreaker escort', {
+        voyageId: voyage.id,
+        leg: index,
+        iceClass: leg.routing.ice.iceClass,
+        zones: leg.routing.ice.zones.filter(zone => zone.rule === 'escort').map(zone => zone.zoneId)
+      });
+    }
+
+    if (leg.routing.loadLine.violations.length > 0) {
+      logger.warn('Planned draft exceeds the load line of zones on the route', {
+        voyageId: voyage.id,
+        leg: index,
+        plannedDraft: leg.routing.loadLine.plannedDraft,
+        zones: leg.routing.loadLine.violations.map(violation => violation.areaId || violation.zone)
+      });
+    }
+
+    const ukc = leg.routing.underKeelClearance;
+    if (ukc && ukc.status !== 'clear') {
+      logger.warn('Under-keel clearance limits the port approach', {
+        voyageId: voyage.id,
+        leg: index,
+        approach: ukc.approachId,
+        status: ukc.status,
+        maxApproachSpeed: ukc.maxApproachSpeed,
+        tidalWindow: ukc.tidalWindow
+      });
+    }
+  });
+
+  return {
+    voyage,
+    weatherAnalysis,
+    speedProfile: singleLeg ? lastLeg.speedProfile : null,
+    routing,
+    itinerary: {
+      portCalls: itinerary.portCalls,
+      legs: itinerary.legs.map((leg, index) => ({ ...leg, routing: legs[index].routing }))
+    }
+  };
 }
 
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI/180);
+// Request body port call (or origin/destination) with dates parsed; a registered port
+// supplies the name, position and draft limit, and explicit coordinates override its position
+function toPortCallRequest(call: PortCallBody, port?: Port): PortCallRequest {
+  return {
+    name: call.name || port?.name,
+    code: port?.code,
+    latitude: call.latitude !== undefined ? Number(call.latitude) : Number(port?.latitude),
+    longitude: call.longitude !== undefined ? Number(call.longitude) : Number(port?.longitude),
+    maxDraft: port?.maxDraft,
+    portStay: call.portStay !== undefined ? Number(call.portStay) : undefined,
+    departureTime: call.departureTime ? new Date(call.departureTime) : undefined,
+    arrivalWindow: call.arrivalWindow ? toArrivalWindow(call.arrivalWindow) : undefined,
+    cargoLoaded: call.cargoLoaded !== undefined ? Number(call.cargoLoaded) : undefined,
+    cargoDischarged: call.cargoDischarged !== undefined ? Number(call.cargoDischarged) : undefined,
+    sailingDraft: call.sailingDraft !== undefined ? Number(call.sailingDraft) : undefined,
+    chokepoints: call.chokepoints
+  };
 }
 
-function calculateEstimatedDuration(distanceKm: number, maxSpeedKmh: number, preferences: any): number {
-  const averageSpeed = preferences.preferredSpeed || (maxSpeedKmh * 0.8); // 80% of max speed
-  return Math.round((distanceKm / averageSpeed) * 60); // Return duration in minutes
+function toArrivalWindow(window: { earliest: string; latest: string }): ArrivalWindow {
+  return { earliest: new Date(window.earliest), latest: new Date(window.latest) };
 }
 
-function calculateEstimatedFuelConsumption(distanceKm: number, specifications: any): number {
-  // Simplified fuel consumption calculation
-  const baseFuelRate = 0.15; // L/km base rate
-  const speedFactor = specifications.maxSpeed > 25 ? 1.2 : 1.0;
-  const sizeFactor = specifications.length > 200 ? 1.5 : 1.0;
-  
-  return distanceKm * baseFuelRate * speedFactor * sizeFactor;
+function toVoyageLocation(call: ScheduledPortCall): VoyageLocation {
+  return { name: call.name, code: call.code, latitude: call.latitude, longitude: call.longitude };
+}
+
+// Planned track of each leg of a voyage with its actuals; a voyage planned without
+// port calls is one leg, timed by the ETA it was planned with before any revision
+async function plannedLegTracks(voyage: Voyage): Promise<PlannedLegTrack[]> {
+  const { legs } = await voyageItineraryService.findByVoyageId(voyage.id);
+  if (legs.length > 0) {
+    return legs.map(leg => ({
+      route: leg.plannedRoute || [],
+      plannedDepartureTime: leg.plannedDepartureTime,
+      plannedArrivalTime: leg.estimatedArrivalTime,
+      plannedFuel: kgToTons(leg.estimatedFuelConsumption),
+      actualDepartureTime: leg.actualDepartureTime,
+      actualArrivalTime: leg.actualArrivalTime,
+      actualFuel: leg.actualFuelConsumption
+    }));
+  }
+
+  if (!voyage.plannedRoute || voyage.plannedRoute.length === 0) {
+    return [];
+  }
+
+  const firstRevision = await voyageEtaRevisionService.findFirstByVoyageId(voyage.id);
+  return [{
+    route: voyage.plannedRoute,
+    plannedDepartureTime: voyage.plannedDepartureTime,
+    plannedArrivalTime: firstRevision?.plannedArrivalTime || voyage.estimatedArrivalTime,
+    plannedFuel: kgToTons(voyage.estimatedFuelConsumption),
+    actualDepartureTime: voyage.actualDepartureTime,
+    actualArrivalTime: voyage.actualArrivalTime,
+    actualFuel: voyage.actualFuelConsumption
+  }];
+}
+
+// Planned fuel is estimated in kg, while noon reports and fuel logs record tons
+function kgToTons(kg: number | null): number | null {
+  return kg === null ? null : kg / 1000;
+}
+
+// Distance-weighted average of the speeds planned on the route's legs, undefined when none are
+function plannedAverageSpeed(waypoints: RtzImport['waypoints']): number | undefined {
+  let distance = 0;
+  let hours = 0;
+  waypoints.slice(1).forEach((point, index) => {
+    if (point.speed) {
+      const legDistance = distanceNm(waypoints[index], point);
+      distance += legDistance;
+      hours += legDistance / point.speed;
+    }
+  });
+  return hours > 0 ? Math.round((distance / hours) * 10) / 10 : undefined;
+}
+
+// Routing summary for a whole itinerary: every leg's transits, zones and alternatives
+function combineRouting(legs: LegPlan[]): LegRouting {
+  const routing = legs.map(leg => leg.routing);
+  const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const iceWeighted = (value: (ice: IceExposure) => number): number => distance > 0
+    ? legs.reduce((sum, leg) => sum + value(leg.routing.ice) * leg.distance, 0) / distance
+    : 0;
+
+  return {
+    repaired: routing.some(leg => leg.repaired),
+    hazard: routing.map(leg => leg.hazard).find(hazard => hazard) || null,
+    chokepointTransits: routing.flatMap(leg => leg.chokepointTransits),
+    transitFees: routing.reduce((sum, leg) => sum + leg.transitFees, 0),
+    emissionControlAreas: {
+      zones: routing.flatMap(leg => leg.emissionControlAreas.zones),
+      distanceInside: routing.reduce((sum, leg) => sum + leg.emissionControlAreas.distanceInside, 0),
+      timeInside: routing.reduce((sum, leg) => sum + leg.emissionControlAreas.timeInside, 0),
+      fuelByType: {
+        HFO: routing.reduce((sum, leg) => sum + leg.emissionControlAreas.fuelByType.HFO, 0),
+        MGO: routing.reduce((sum, leg) => sum + leg.emissionControlAreas.fuelByType.MGO, 0)
+      }
+    },
+    exclusionZones: {
+      planned: routing.flatMap(leg => leg.exclusionZones.planned),
+      escortRequired: routing.some(leg => leg.exclusionZones.escortRequired),
+      alternatives: routing.flatMap(leg => leg.exclusionZones.alternatives)
+    },
+    // Risk and hull wear over the whole voyage, weighted by the length of each leg
+    ice: {
+      iceClass: routing[0].ice.iceClass,
+      zones: routing.flatMap(leg => leg.ice.zones),
+      distanceInside: routing.reduce((sum, leg) => sum + leg.ice.distanceInside, 0),
+      timeInside: routing.reduce((sum, leg) => sum + leg.ice.timeInside, 0),
+      escortRequired: routing.some(leg => leg.ice.escortRequired),
+      risk: iceWeighted(ice => ice.risk),
+      hullWear: iceWeighted(ice => ice.hullWear)
+    },
+    // Draft changes at every port call, so the voyage reports its deepest leg
+    loadLine: {
+      summerDraft: routing[0].loadLine.summerDraft,
+      plannedDraft: routing.reduce<number | null>((deepest, leg) => leg.loadLine.plannedDraft !== null
+        ? Math.max(deepest ?? 0, leg.loadLine.plannedDraft)
+        : deepest, null),
+      draftEstimated: routing.some(leg => leg.loadLine.draftEstimated),
+      zones: routing.flatMap(leg => leg.loadLine.zones),
+      violations: routing.flatMap(leg => leg.loadLine.violations)
+    },
+    // The approach to the final port; earlier approaches are on the itinerary's legs
+    underKeelClearance: routing[routing.length - 1].underKeelClearance
+  };
+}
+
+// Turns a plain-text noon report body into the JSON shape expected by validateNoonReport
+function parseNoonReportText(req: Request, res: Response, next: NextFunction): void {
+  if (typeof req.body !== 'string') {
+    next();
+    return;
+  }
+
+  const { report, errors } = noonReportService.parseText(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Failed to parse noon report',
+      details: errors
+    });
+    return;
+  }
+
+  req.body = report;
+  next();
 }
 
 export default router; 
\ No newline at end of file
@@ -1,12 +1,20 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { BaseModel, ModelConfig, TrainingData } from './BaseModel';
 import { logger } from '../../utils/logger';
+import {
+  emissionControlAreas,
+  EcaZoneExposure,
+  MarineFuelType,
+  OPEN_SEA_FUEL
+} from '../Navigation/EmissionControlAreas';
 
 export interface FuelPredictionInput {
   voyage: {
     distance: number; // nautical miles
     duration: number; // hours
     averageSpeed: number; // knots
+    route?: Array<{ latitude: number; longitude: number }>; // planned waypoints, enables per-leg fuel switching
+    departureTime?: string; // ISO timestamp, decides which ECAs are in force
   };
   ship: {
     type: 'cargo' | 'tanker' | 'container' | 'bulk' | 'passenger';
@@ -34,6 +42,16 @@ export interface FuelPredictionInput {
     auxiliaryLoad: number; // 0-1
     hvacLoad: number; // 0-1
   };
+  fuelPrices?: { [fuelType in MarineFuelType]?: number }; // USD per liter
+}
+
+export interface FuelLegPrediction {
+  from: { latitude: number; longitude: number };
+  to: { latitude: number; longitude: number };
+  distance: number; // nautical miles
+  ecaId: string | null;
+  fuelType: MarineFuelType;
+  consumption: number; // liters
 }
 
 export interface FuelPrediction {
@@ -50,12 +68,24 @@ export interface FuelPrediction {
     speedImpact: number; // percentage impact
     seaStateImpact: number; // percentage impact
   };
+  fuelByType: { [fuelType in MarineFuelType]: number }; // liters
+  legs?: FuelLegPrediction[]; // when a route is given, split at ECA boundaries
+  ecaExposure?: {
+    zones: EcaZoneExposure[];
+    distanceInside: number; // nautical miles
+    timeInside: number; // hours
+  };
+  fuelCost?: number; // USD, when fuel prices are given
 }
 
 export class FuelPredictorModel extends BaseModel {
   private static readonly FUEL_DENSITY = 0.845; // kg/liter for marine fuel
   private static readonly CO2_FACTOR = 3.15; // kg CO2 per kg fuel
 
+  // Assumed for speed profiles when the ship record has no engine data
+  static readonly DEFAULT_ENGINE_POWER = 20000; // kW
+  static readonly DEFAULT_MAIN_ENGINE_LOAD = 0.85; // share of MCR at max speed
+
   constructor() {
     const config: ModelConfig = {
       modelName: 'fuel-predictor',
@@ -181,6 +211,9 @@ export class FuelPredictorModel extends BaseModel {
       // Calculate impact factors
       const factors = this.calculateImpactFactors(input);
 
+      // Split consumption between open-sea and ECA fuel along the route
+      const fuelSplit = this.splitByFuelType(input, totalConsumption);
+
       logger.info('Fuel consumption predicted', {
         totalConsumption,
         efficiency,
@@ -196,7 +229,8 @@ export class FuelPredictorModel extends BaseModel {
         efficiency,
         co2Emissions,
         confidence: prediction.confidence,
-        factors
+        factors,
+        ...fuelSplit
       };
     } catch (error) {
       logger.error('Fuel prediction failed', {
@@ -208,18 +242,41 @@ export class FuelPredictorModel extends BaseModel {
 
   private calculateBaseMainEngineConsumption(input: FuelPredictionInput): number {
     const { voyage, ship, operational } = input;
-    
+
+    return FuelPredictorModel.mainEngineConsumption({
+      enginePower: ship.enginePower,
+      engineLoad: operational.mainEngineLoad,
+      maxSpeed: ship.maxSpeed,
+      speed: operational.cruisingSpeed,
+      hours: voyage.duration,
+      loadFactor: operational.loadFactor
+    });
+  }
+
+  /**
+   * Main engine consumption in kg for sailing the given hours at a speed.
+   * Consumption per hour grows with the cube of the speed, which the speed
+   * profile optimiser relies on when spreading time over the legs.
+   */
+  static mainEngineConsumption(params: {
+    enginePower: number; // kW
+    engineLoad: number; // 0-1
+    maxSpeed: number; // knots
+    speed: number; // knots
+    hours: number;
+    loadFactor: number; // 0-1 (cargo weight / capacity)
+  }): number {
     // Base consumption model: Power × Load × Time × SFOC (Specific Fuel Oil Consumption)
     const sfoc = 190; // g/kWh typical for marine engines
-    const powerUsed = ship.enginePower * operational.mainEngineLoad;
-    const baseConsumption = (powerUsed * voyage.duration * sfoc) / 1000; // Convert to liters
-    
+    const powerUsed = params.enginePower * params.engineLoad;
+    const baseConsumption = (powerUsed * params.hours * sfoc) / 1000; // Convert g to kg
+
     // Apply speed factor (cubic relationship)
-    const speedFactor = Math.pow(operational.cruisingSpeed / ship.maxSpeed, 3);
-    
+    const speedFactor = Math.pow(params.speed / params.maxSpeed, 3);
+
     // Apply load factor
-    const loadFactor = 1 + (operational.loadFactor * 0.15); // Up to 15% increase for full load
-    
+    const loadFactor = 1 + (params.loadFactor * 0.15); // Up to 15% increase for full load
+
     return baseConsumption * speedFactor * loadFactor;
   }
 
@@ -237,6 +294,44 @@ export class FuelPredictorModel extends BaseModel {
     return baseConsumption * hvacFactor;
   }
 
+  private splitByFuelType(
+    input: FuelPredictionInput,
+    totalConsumption: number
+  ): Pick<FuelPrediction, 'fuelByType' | 'legs' | 'ecaExposure' | 'fuelCost'> {
+    const fuelByType = { HFO: 0, MGO: 0 };
+    const route = input.voyage.route || [];
+    let legs: FuelLegPrediction[] | undefined;
+    let ecaExposure: FuelPrediction['ecaExposure'];
+
+    if (route.length < 2) {
+      fuelByType[OPEN_SEA_FUEL] = totalConsumption;
+    } else {
+      const departure = input.voyage.departureTime ? new Date(input.voyage.departureTime) : undefined;
+      const exposure = emissionControlAreas.analyzeRoute(route, input.voyage.averageSpeed, departure);
+
+      // Constant speed along the route, so consumption is shared by distance
+      legs = exposure.legs.map(leg => ({
+        ...leg,
+        consumption: exposure.totalDistance > 0 ? totalConsumption * (leg.distance / exposure.totalDistance) : 0
+      }));
+      for (const leg of legs) {
+        fuelByType[leg.fuelType] += leg.consumption;
+      }
+      ecaExposure = {
+        zones: exposure.zones,
+        distanceInside: exposure.distanceInside,
+        timeInside: exposure.timeInside
+      };
+    }
+
+    const prices = input.fuelPrices;
+    const fuelCost = prices
+      ? (Object.keys(fuelByType) as MarineFuelType[]).reduce((sum, fuelType) => sum + fuelByType[fuelType] * (prices[fuelType] || 0), 0)
+      : undefined;
+
+    return { fuelByType, legs, ecaExposure, fuelCost };
+  }
+
   private calculateImpactFactors(input: FuelPredictionInput): {
     weatherImpact: number;
     loadImpact: number;
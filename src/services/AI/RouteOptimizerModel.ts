@@ -1,6 +1,15 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { BaseModel, ModelConfig, PredictionResult, TrainingData } from './BaseModel';
 import { logger } from '../../utils/logger';
+import { GeoPoint, distanceNm } from '../Navigation/Geometry';
+import { SegmentWeather, weatherSampler } from '../Navigation/WaypointSearch';
+import { routePlanner, PlannedRoute } from '../Navigation/RoutePlanner';
+import { ChokepointPreferences, ChokepointTransit } from '../Navigation/Chokepoints';
+import { emissionControlAreas, EcaZoneExposure, MarineFuelType, DEFAULT_ECA_FUEL_PRICE_RATIO } from '../Navigation/EmissionControlAreas';
+import { ExclusionZoneArea, ExclusionZoneIntersection, ExclusionZoneMap } from '../Navigation/ExclusionZones';
+import { speedProfileOptimizer, SpeedProfile } from '../Navigation/SpeedProfile';
+import { iceLimits, IceExposure } from '../Navigation/IceLimits';
+import { FuelPredictorModel } from './FuelPredictorModel';
 
 export interface RouteInput {
   origin: { latitude: number; longitude: number };
@@ -10,6 +19,11 @@ export interface RouteInput {
     fuelCapacity: number;
     cargoCapacity: number;
     currentCargoWeight: number;
+    draft?: number; // meters; routes avoid water shallower than this when provided
+    length?: number; // meters, checked against canal limits
+    width?: number; // meters, checked against canal limits
+    enginePower?: number; // kW, scales speed profile fuel
+    iceClass?: string; // e.g. 'IA' or 'PC5'; ice the class may not enter is avoided, 'None' when omitted
   };
   weatherConditions: {
     windSpeed: number;
@@ -17,27 +31,70 @@ export interface RouteInput {
     visibility: number;
     temperature: number;
   };
+  // Optional forecast points along the corridor; weatherConditions is used everywhere when omitted
+  weatherSamples?: Array<{
+    latitude: number;
+    longitude: number;
+    time?: string; // ISO forecast hour; samples without one hold for the whole voyage
+    windSpeed: number; // knots
+    waveHeight: number; // meters
+  }>;
   preferences: {
     prioritizeFuel: boolean;
     prioritizeTime: boolean;
     avoidRoughSeas: boolean;
+    minimizeEcaFuel?: boolean; // trade extra distance for less fuel burned inside ECAs
   };
+  departureTime?: string; // ISO timestamp, used for canal entry windows and ECA dates
+  chokepoints?: ChokepointPreferences; // canal/strait ids to force or forbid
+  fuelPrice?: number; // USD per kg of open-sea fuel (HFO), adds fuel to estimatedCost when provided
+  ecaFuelPrice?: number; // USD per kg of ECA fuel (MGO)
+  // Zones in force for the voyage; prohibited zones are avoided, restricted and advisory zones add cost
+  exclusionZones?: ExclusionZoneArea[];
+  // Berth slot (ISO timestamps); when given, a fuel-optimal per-leg speed profile sets the arrival
+  arrivalWindow?: { earliest: string; latest: string };
 }
 
 export interface RouteOptimization {
   optimizedRoute: Array<{ latitude: number; longitude: number }>;
   estimatedTime: number; // in hours
-  estimatedFuelConsumption: number; // in liters
+  estimatedFuelConsumption: number; // kg of main engine fuel
   weatherRiskScore: number; // 0-1 scale
+  riskScore: number; // 0-1, weather risk combined with the ice risk of the route
   totalDistance: number; // in nautical miles
-  alternativeRoutes?: Array<{
-    route: Array<{ latitude: number; longitude: number }>;
-    time: number;
-    fuel: number;
-    risk: number;
-  }>;
+  chokepointTransits: ChokepointTransit[];
+  transitFees: number; // USD
+  estimatedCost: number; // USD, transit fees plus fuel when fuel prices are given
+  fuelByType: { [fuelType in MarineFuelType]: number }; // kg, split at ECA boundaries
+  ecaExposure: {
+    zones: EcaZoneExposure[];
+    distanceInside: number; // nautical miles
+    timeInside: number; // hours
+  };
+  exclusionZones: ExclusionZoneIntersection[]; // soft zones the route still passes through
+  iceExposure: IceExposure; // ice in force at departure along the route
+  speedProfile?: SpeedProfile; // per-leg speeds for the arrival window
+  alternativeRoutes?: AlternativeRoute[]; // Pareto front over time, fuel, risk and cost
 }
 
+// Best-in-class objective of a Pareto-optimal alternative; 'balanced' when it leads in none
+export type RouteTradeOff = 'fastest' | 'cheapest' | 'safest' | 'balanced';
+
+export interface AlternativeRoute {
+  route: Array<{ latitude: number; longitude: number }>;
+  labels: RouteTradeOff[];
+  speed: number; // knots through the water
+  time: number; // hours, including chokepoint delays
+  fuel: number; // kg of main engine fuel for this ship
+  risk: number; // 0-1, distance-weighted sea roughness combined with the route's ice risk
+  cost: number; // USD, transit fees plus fuel when fuel prices are given
+  exclusionZones: ExclusionZoneIntersection[];
+}
+
+// Speeds, as fractions of max speed, at which every candidate route is evaluated for the alternatives
+const ALTERNATIVE_SPEED_RATIOS = [1, 0.85, 0.7];
+const MAX_ALTERNATIVE_ROUTES = 5;
+
 export class RouteOptimizerModel extends BaseModel {
   constructor() {
     const config: ModelConfig = {
@@ -97,7 +154,7 @@ export class RouteOptimizerModel extends BaseModel {
     } = data;
 
     // Calculate base distance
-    const distance = this.calculateDistance(origin, destination);
+    const distance = distanceNm(origin, destination);
 
     // Normalize inputs
     const features = [
@@ -129,37 +186,46 @@ export class RouteOptimizerModel extends BaseModel {
   async optimizeRoute(input: RouteInput): Promise<RouteOptimization> {
     try {
       const prediction = await this.predict(input);
-      const [timeFactor, fuelFactor, riskScore, routeEfficiency] = prediction.prediction;
+      const [timeFactor, , riskScore] = prediction.prediction;
 
-      // Calculate base metrics
-      const distance = this.calculateDistance(input.origin, input.destination);
+      // Find the weather- and preference-aware path, then derive base metrics from it
+      const route = this.searchRoute(input, input.preferences);
+      const distance = route.totalDistance;
       const baseTime = this.calculateBaseTime(distance, input.shipSpecs.maxSpeed);
-      const baseFuel = this.calculateBaseFuelConsumption(distance, input.shipSpecs);
-
-      // Apply AI optimization factors
-      const estimatedTime = baseTime * (1 + timeFactor * 0.5); // AI can improve time by up to 50%
-      const estimatedFuelConsumption = baseFuel * (1 + fuelFactor * 0.3); // AI can improve fuel by up to 30%
 
-      // Generate optimized route (simplified - could be enhanced with actual waypoint optimization)
-      const optimizedRoute = this.generateOptimizedWaypoints(
-        input.origin,
-        input.destination,
-        input.weatherConditions,
-        routeEfficiency
-      );
+      // Canal and strait passages add waiting/transit delays and tolls on top of sailing time
+      const chokepointTransits = this.estimateTransits(input, route);
+      const transitDelay = chokepointTransits.reduce((sum, transit) => sum + transit.delay, 0);
+      const transitFees = chokepointTransits.reduce((sum, transit) => sum + transit.toll, 0);
+
+      // Apply AI optimization factors; a berth window fixes the time through the speed profile instead
+      const speedProfile = input.arrivalWindow ? this.optimizeSpeedProfile(input, route, chokepointTransits) : undefined;
+      const estimatedTime = speedProfile
+        ? (new Date(speedProfile.arrivalTime).getTime() - new Date(speedProfile.departureTime).getTime()) / 3600000
+        : baseTime * (1 + timeFactor * 0.5) + transitDelay; // AI can improve time by up to 50%
+      // Fuel is costed like the alternatives, so the route compares with them on the same scale
+      const estimatedFuelConsumption = speedProfile
+        ? speedProfile.totalFuel
+        : this.evaluateAlternative(input, route, input.shipSpecs.maxSpeed).fuel;
+
+      // Fuel burned inside ECAs is compliant (more expensive) fuel
+      const { fuelByType, ecaExposure } = this.splitFuelByType(input, route, estimatedFuelConsumption, speedProfile);
+      const estimatedCost = transitFees + this.calculateFuelCost(input, fuelByType);
+
+      const optimizedRoute = route.waypoints;
+      const exclusionZones = new ExclusionZoneMap(input.exclusionZones || []).analyzeRoute(optimizedRoute);
+      const iceExposure = this.analyzeIce(input, route, input.shipSpecs.maxSpeed);
 
       // Generate alternative routes
-      const alternativeRoutes = this.generateAlternativeRoutes(
-        input.origin,
-        input.destination,
-        input.weatherConditions
-      );
+      const alternativeRoutes = this.generateAlternativeRoutes(input, route);
 
       logger.info('Route optimization completed', {
         distance,
         estimatedTime,
         estimatedFuelConsumption,
         riskScore,
+        waypointCount: optimizedRoute.length,
+        chokepoints: chokepointTransits.map(transit => transit.chokepointId),
         confidence: prediction.confidence
       });
 
@@ -168,7 +234,16 @@ export class RouteOptimizerModel extends BaseModel {
         estimatedTime,
         estimatedFuelConsumption,
         weatherRiskScore: riskScore,
+        riskScore: combineRisks(riskScore, iceExposure.risk),
         totalDistance: distance,
+        chokepointTransits,
+        transitFees,
+        estimatedCost,
+        fuelByType,
+        ecaExposure,
+        exclusionZones,
+        iceExposure,
+        speedProfile,
         alternativeRoutes
       };
     } catch (error) {
@@ -179,126 +254,252 @@ export class RouteOptimizerModel extends BaseModel {
     }
   }
 
-  private calculateDistance(
-    point1: { latitude: number; longitude: number },
-    point2: { latitude: number; longitude: number }
-  ): number {
-    // Haversine formula for calculating distance between two points on Earth
-    const R = 3440.065; // Earth's radius in nautical miles
-    const lat1Rad = (point1.latitude * Math.PI) / 180;
-    const lat2Rad = (point2.latitude * Math.PI) / 180;
-    const deltaLatRad = ((point2.latitude - point1.latitude) * Math.PI) / 180;
-    const deltaLonRad = ((point2.longitude - point1.longitude) * Math.PI) / 180;
-
-    const a = Math.sin(deltaLatRad / 2) * Math.sin(deltaLatRad / 2) +
-              Math.cos(lat1Rad) * Math.cos(lat2Rad) *
-              Math.sin(deltaLonRad / 2) * Math.sin(deltaLonRad / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
   private calculateBaseTime(distance: number, speed: number): number {
     // Base time calculation without weather factors
     return distance / speed; // hours
   }
 
-  private calculateBaseFuelConsumption(
-    distance: number,
-    shipSpecs: { maxSpeed: number; fuelCapacity: number; cargoCapacity: number; currentCargoWeight: number }
-  ): number {
-    // Simplified fuel consumption model
-    const baseConsumption = distance * 0.3; // Base: 0.3 liters per nautical mile
-    const cargoFactor = 1 + (shipSpecs.currentCargoWeight / shipSpecs.cargoCapacity) * 0.2; // Up to 20% increase
-    const speedFactor = Math.pow(shipSpecs.maxSpeed / 20, 2); // Quadratic relationship with speed
-    
-    return baseConsumption * cargoFactor * speedFactor;
-  }
+  private searchRoute(input: RouteInput, preferences: RouteInput['preferences']): PlannedRoute {
+    const request = {
+      origin: input.origin,
+      destination: input.destination,
+      draft: input.shipSpecs.draft,
+      length: input.shipSpecs.length,
+      width: input.shipSpecs.width,
+      speed: input.shipSpecs.maxSpeed,
+      chokepoints: input.chokepoints,
+      ecaFuelPriceRatio: preferences.minimizeEcaFuel ? this.ecaFuelPriceRatio(input) : undefined,
+      departureTime: input.departureTime ? new Date(input.departureTime) : null,
+      exclusionZones: input.exclusionZones,
+      iceClass: input.shipSpecs.iceClass,
+      preferences,
+      weatherAt: this.createWeatherSampler(input)
+    };
 
-  private generateOptimizedWaypoints(
-    origin: { latitude: number; longitude: number },
-    destination: { latitude: number; longitude: number },
-    weather: { windSpeed: number; waveHeight: number; visibility: number; temperature: number },
-    efficiency: number
-  ): Array<{ latitude: number; longitude: number }> {
-    const waypoints = [origin];
+    const issues = routePlanner.checkChokepoints(request);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
 
-    // Simple route optimization - can be enhanced with more sophisticated algorithms
-    const numWaypoints = Math.max(2, Math.floor(efficiency * 10)); // More efficient routes have more waypoints
-    
-    for (let i = 1; i < numWaypoints; i++) {
-      const progress = i / numWaypoints;
-      
-      // Linear interpolation with weather-based adjustments
-      const lat = origin.latitude + (destination.latitude - origin.latitude) * progress;
-      const lon = origin.longitude + (destination.longitude - origin.longitude) * progress;
-      
-      // Add small weather-based deviations
-      const weatherDeviation = (weather.windSpeed + weather.waveHeight) / 100;
-      const latAdjustment = (Math.random() - 0.5) * weatherDeviation;
-      const lonAdjustment = (Math.random() - 0.5) * weatherDeviation;
-      
-      waypoints.push({
-        latitude: lat + latAdjustment,
-        longitude: lon + lonAdjustment
-      });
+    const route = routePlanner.findWaypoints(request);
+    if (!route) {
+      throw new Error('No navigable route found between origin and destination');
     }
 
-    waypoints.push(destination);
-    return waypoints;
+    return route;
   }
 
-  private generateAlternativeRoutes(
-    origin: { latitude: number; longitude: number },
-    destination: { latitude: number; longitude: number },
-    weather: { windSpeed: number; waveHeight: number; visibility: number; temperature: number }
-  ): Array<{
-    route: Array<{ latitude: number; longitude: number }>;
-    time: number;
-    fuel: number;
-    risk: number;
-  }> {
-    const alternatives = [];
-
-    // Generate 2 alternative routes
-    for (let i = 0; i < 2; i++) {
-      const routeVariation = (i + 1) * 0.1; // 10% and 20% variations
-      const route = [];
-
-      // Create slightly different route
-      const waypoints = 5;
-      for (let j = 0; j <= waypoints; j++) {
-        const progress = j / waypoints;
-        let lat = origin.latitude + (destination.latitude - origin.latitude) * progress;
-        let lon = origin.longitude + (destination.longitude - origin.longitude) * progress;
-
-        // Add variation
-        if (j > 0 && j < waypoints) {
-          lat += (Math.random() - 0.5) * routeVariation;
-          lon += (Math.random() - 0.5) * routeVariation;
-        }
-
-        route.push({ latitude: lat, longitude: lon });
+  private splitFuelByType(
+    input: RouteInput,
+    route: PlannedRoute,
+    fuel: number,
+    speedProfile?: SpeedProfile
+  ): Pick<RouteOptimization, 'fuelByType' | 'ecaExposure'> {
+    const departure = input.departureTime ? new Date(input.departureTime) : undefined;
+    const exposure = emissionControlAreas.analyzeRoute(route.waypoints, input.shipSpecs.maxSpeed, departure);
+
+    // A speed profile burns different amounts per mile on each leg; at constant speed fuel follows distance
+    let fuelByType = { HFO: 0, MGO: 0 };
+    if (speedProfile) {
+      fuelByType = emissionControlAreas.splitFuel(speedProfile.legs, departure);
+    } else {
+      for (const leg of exposure.legs) {
+        fuelByType[leg.fuelType] += exposure.totalDistance > 0 ? fuel * (leg.distance / exposure.totalDistance) : 0;
       }
+    }
+
+    return {
+      fuelByType,
+      ecaExposure: {
+        zones: exposure.zones,
+        distanceInside: exposure.distanceInside,
+        timeInside: exposure.timeInside
+      }
+    };
+  }
+
+  private calculateFuelCost(input: RouteInput, fuelByType: { [fuelType in MarineFuelType]: number }): number {
+    return fuelByType.HFO * (input.fuelPrice || 0) + fuelByType.MGO * (input.ecaFuelPrice || input.fuelPrice || 0);
+  }
+
+  // ECA fuel price relative to open-sea fuel, from the given prices or a typical MGO/HFO spread
+  private ecaFuelPriceRatio(input: RouteInput): number {
+    return input.fuelPrice && input.ecaFuelPrice
+      ? Math.max(1, input.ecaFuelPrice / input.fuelPrice)
+      : DEFAULT_ECA_FUEL_PRICE_RATIO;
+  }
+
+  // Weather-adjusted legs sailed at the speeds that reach the berth window on the least fuel
+  private optimizeSpeedProfile(input: RouteInput, route: PlannedRoute, transits: ChokepointTransit[]): SpeedProfile {
+    const window = input.arrivalWindow as { earliest: string; latest: string };
+    const { maxSpeed, cargoCapacity, currentCargoWeight } = input.shipSpecs;
+
+    return speedProfileOptimizer.optimize({
+      legs: route.legs,
+      departureTime: input.departureTime ? new Date(input.departureTime) : new Date(),
+      arrivalWindow: { earliest: new Date(window.earliest), latest: new Date(window.latest) },
+      maxSpeed,
+      delays: route.passages.map((passage, index) => ({
+        distanceFromOrigin: passage.distanceFromOrigin,
+        hours: transits[index].delay
+      })),
+      fuelConsumption: (speed, hours) => FuelPredictorModel.mainEngineConsumption({
+        enginePower: input.shipSpecs.enginePower || FuelPredictorModel.DEFAULT_ENGINE_POWER,
+        engineLoad: FuelPredictorModel.DEFAULT_MAIN_ENGINE_LOAD,
+        maxSpeed,
+        speed,
+        hours,
+        loadFactor: cargoCapacity > 0 ? currentCargoWeight / cargoCapacity : 0
+      })
+    });
+  }
+
+  private analyzeIce(input: RouteInput, route: PlannedRoute, speed: number): IceExposure {
+    return iceLimits.analyzeRoute(
+      route.waypoints,
+      input.shipSpecs.iceClass,
+      speed,
+      input.departureTime ? new Date(input.departureTime) : undefined
+    );
+  }
 
-      // Calculate metrics for alternative route
-      const distance = this.calculateTotalRouteDistance(route);
-      const time = distance / 20; // Assuming 20 knots average speed
-      const fuel = distance * 0.35; // Slightly higher consumption
-      const risk = Math.min(1, (weather.windSpeed + weather.waveHeight) / 30);
+  private estimateTransits(input: RouteInput, route: PlannedRoute): ChokepointTransit[] {
+    return routePlanner.estimateTransits(
+      route.passages,
+      input.shipSpecs,
+      input.shipSpecs.maxSpeed,
+      input.departureTime ? new Date(input.departureTime) : null
+    );
+  }
+
+  /**
+   * Inverse-distance weighting over the nearest forecast samples. Timed samples
+   * are matched to the ship's ETA at the point, estimated from the great-circle
+   * distance from the origin at maxSpeed; an hour off the ETA counts as the
+   * distance sailed in that hour.
+   */
+  private createWeatherSampler(input: RouteInput): (point: GeoPoint) => SegmentWeather {
+    const fallback: SegmentWeather = {
+      windSpeed: input.weatherConditions?.windSpeed || 0,
+      waveHeight: input.weatherConditions?.waveHeight || 0
+    };
 
-      alternatives.push({ route, time, fuel, risk });
+    return weatherSampler(
+      input.weatherSamples || [],
+      fallback,
+      input.origin,
+      input.departureTime ? new Date(input.departureTime) : new Date(),
+      input.shipSpecs.maxSpeed
+    );
+  }
+
+  /**
+   * Alternatives on the Pareto front of time, fuel, risk and cost. Candidate
+   * paths come from single-objective searches, each evaluated at several
+   * speeds with this ship's engine power and load, and only options no other
+   * candidate beats on every objective are kept. Each is labelled with the
+   * objectives it is best at, labelled options first.
+   */
+  private generateAlternativeRoutes(input: RouteInput, primary: PlannedRoute): AlternativeRoute[] {
+    const zones = new ExclusionZoneMap(input.exclusionZones || []);
+    const routes = [primary];
+    const seen = new Set([JSON.stringify(primary.waypoints)]);
+
+    // Re-run the search under each single-objective weighting and keep the distinct results
+    const { minimizeEcaFuel } = input.preferences;
+    const variants: Array<RouteInput['preferences']> = [
+      { prioritizeFuel: false, prioritizeTime: true, avoidRoughSeas: false, minimizeEcaFuel },
+      { prioritizeFuel: false, prioritizeTime: false, avoidRoughSeas: true, minimizeEcaFuel },
+      { prioritizeFuel: true, prioritizeTime: false, avoidRoughSeas: false, minimizeEcaFuel }
+    ];
+    for (const preferences of variants) {
+      const route = this.searchRoute(input, preferences);
+      const key = JSON.stringify(route.waypoints);
+      if (!seen.has(key)) {
+        seen.add(key);
+        routes.push(route);
+      }
     }
 
-    return alternatives;
+    const candidates = routes.flatMap(route =>
+      ALTERNATIVE_SPEED_RATIOS.map(ratio => ({ route, ...this.evaluateAlternative(input, route, input.shipSpecs.maxSpeed * ratio) }))
+    );
+
+    const objectives = ['time', 'fuel', 'risk', 'cost'] as const;
+    const dominates = (a: typeof candidates[number], b: typeof candidates[number]): boolean =>
+      objectives.every(key => a[key] <= b[key]) && objectives.some(key => a[key] < b[key]);
+    const front = candidates.filter(candidate => !candidates.some(other => dominates(other, candidate)));
+
+    // Ties on the labelled objective go to the quicker (or, for cost, less fuel-hungry) option
+    const best = {
+      fastest: front.reduce((a, b) => (b.time < a.time || (b.time === a.time && b.cost < a.cost) ? b : a)),
+      cheapest: front.reduce((a, b) => (b.cost < a.cost || (b.cost === a.cost && b.fuel < a.fuel) ? b : a)),
+      safest: front.reduce((a, b) => (b.risk < a.risk || (b.risk === a.risk && b.time < a.time) ? b : a))
+    };
+
+    const alternatives: AlternativeRoute[] = front.map(candidate => {
+      const labels = (Object.keys(best) as Array<keyof typeof best>).filter(label => best[label] === candidate);
+      return {
+        route: candidate.route.waypoints,
+        labels: labels.length > 0 ? labels : ['balanced'],
+        speed: candidate.speed,
+        time: candidate.time,
+        fuel: candidate.fuel,
+        risk: candidate.risk,
+        cost: candidate.cost,
+        exclusionZones: zones.analyzeRoute(candidate.route.waypoints)
+      };
+    });
+
+    const rank = (alternative: AlternativeRoute): number =>
+      alternative.labels.includes('balanced') ? 1 : 0;
+    return alternatives
+      .sort((a, b) => rank(a) - rank(b) || a.time - b.time)
+      .slice(0, MAX_ALTERNATIVE_ROUTES);
   }
 
-  private calculateTotalRouteDistance(route: Array<{ latitude: number; longitude: number }>): number {
-    let totalDistance = 0;
-    for (let i = 1; i < route.length; i++) {
-      totalDistance += this.calculateDistance(route[i - 1], route[i]);
+  // Weather-adjusted time, fuel, risk and cost of sailing the route at one speed through the water
+  private evaluateAlternative(
+    input: RouteInput,
+    route: PlannedRoute,
+    speed: number
+  ): { speed: number; time: number; fuel: number; risk: number; cost: number } {
+    const { maxSpeed, cargoCapacity, currentCargoWeight } = input.shipSpecs;
+    const transits = routePlanner.estimateTransits(
+      route.passages,
+      input.shipSpecs,
+      speed,
+      input.departureTime ? new Date(input.departureTime) : null
+    );
+
+    let sailingTime = 0;
+    let fuel = 0;
+    for (const leg of route.legs) {
+      const hours = leg.distance / (speed * (1 - leg.speedLoss));
+      sailingTime += hours;
+      fuel += FuelPredictorModel.mainEngineConsumption({
+        enginePower: input.shipSpecs.enginePower || FuelPredictorModel.DEFAULT_ENGINE_POWER,
+        engineLoad: FuelPredictorModel.DEFAULT_MAIN_ENGINE_LOAD,
+        maxSpeed,
+        speed,
+        hours,
+        loadFactor: cargoCapacity > 0 ? currentCargoWeight / cargoCapacity : 0
+      }) * leg.fuelFactor;
     }
-    return totalDistance;
+
+    const roughness = route.totalDistance > 0
+      ? route.legs.reduce((sum, leg) => sum + leg.roughness * leg.distance, 0) / route.totalDistance
+      : 0;
+    const risk = combineRisks(roughness, this.analyzeIce(input, route, speed).risk);
+    const { fuelByType } = this.splitFuelByType(input, route, fuel);
+
+    return {
+      speed,
+      time: sailingTime + transits.reduce((sum, transit) => sum + transit.delay, 0),
+      fuel,
+      risk,
+      cost: transits.reduce((sum, transit) => sum + transit.toll, 0) + this.calculateFuelCost(input, fuelByType)
+    };
   }
 
   async generateTrainingData(sampleSize: number): Promise<TrainingData> {
@@ -340,7 +541,7 @@ export class RouteOptimizerModel extends BaseModel {
       };
 
       // Calculate distance
-      const distance = this.calculateDistance(origin, destination);
+      const distance = distanceNm(origin, destination);
 
       // Create input vector
       const input = [
@@ -415,4 +616,9 @@ export class RouteOptimizerModel extends BaseModel {
     let efficiency = (timeFactor * 0.35 + fuelFactor * 0.35 + (1 - riskScore) * 0.3);
     return Math.max(0, Math.min(1, efficiency));
   }
-} 
\ No newline at end of file
+}
+
+// Chance of either of two independent risks (0-1) occurring
+function combineRisks(first: number, second: number): number {
+  return 1 - (1 - first) * (1 - second);
+}
@@ -0,0 +1,283 @@
+export type AisPositionMessageType = 1 | 2 | 3 | 18;
+
+export interface AisPositionReport {
+  type: AisPositionMessageType;
+  mmsi: string; // 9 digits, zero-padded
+  navigationStatus: number | null; // 0-15, class B reports have none
+  rateOfTurn: number | null; // raw -127..127, null when not available
+  speedOverGround: number | null; // knots
+  positionAccuracy: boolean; // true for DGPS quality, better than 10 m
+  latitude: number | null;
+  longitude: number | null;
+  courseOverGround: number | null; // degrees
+  trueHeading: number | null; // degrees
+  second: number | null; // UTC second of the fix
+}
+
+export interface AisStaticVoyageData {
+  type: 5;
+  mmsi: string;
+  imoNumber: string | null; // 7 digits
+  callSign: string;
+  shipName: string;
+  shipType: number;
+  dimensions: { toBow: number; toStern: number; toPort: number; toStarboard: number }; // meters from the GPS antenna
+  eta: { month: number; day: number; hour: number; minute: number } | null; // UTC, no year
+  draught: number | null; // meters
+  destination: string;
+}
+
+export type AisMessage = AisPositionReport | AisStaticVoyageData;
+
+export interface AisDecodeResult {
+  message: AisMessage | null; // null while a multi-part message is incomplete, or for unsupported types
+  messageType: number | null;
+  receivedAt: Date | null; // from the NMEA 4.0 tag block, when present
+  error: string | null;
+}
+
+interface PendingFragments {
+  parts: string[];
+  fillBits: number;
+  receivedAt: Date | null;
+  firstSeen: number;
+}
+
+// Multi-part fragments still waiting for the rest of their message are dropped after this long
+const FRAGMENT_TIMEOUT_MS = 60000;
+
+// AIS 6-bit text characters, indexed by value
+const SIX_BIT_TEXT = '@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_ !"#$%&\'()*+,-./0123456789:;<=>?';
+
+const SENTENCE_PATTERN = /^(?:\\([^\\]*)\\)?!([A-Z]{2}VD[MO]),(\d),(\d),(\d?),([A-Z0-9]?),([0-W`-w]*),([0-5])\*([0-9A-Fa-f]{2})$/;
+
+/**
+ * Decodes AIS NMEA 0183 sentences (!AIVDM and !AIVDO). Position reports
+ * (types 1, 2, 3 and class B type 18) and static and voyage data (type 5)
+ * are decoded; other types are recognised and skipped. Multi-part messages
+ * are reassembled across calls, so one decoder instance should see a feed
+ * in order.
+ */
+export class AisDecoder {
+  private pending = new Map<string, PendingFragments>();
+
+  decode(sentence: string, now: Date = new Date()): AisDecodeResult {
+    const empty = { message: null, messageType: null, receivedAt: null };
+    const trimmed = sentence.trim();
+    const match = trimmed.match(SENTENCE_PATTERN);
+    if (!match) {
+      return { ...empty, error: 'Not an AIVDM/AIVDO sentence' };
+    }
+
+    const [, tagBlock, , total, index, sequenceId, channel, payload, fillBits, checksum] = match;
+    const body = trimmed.slice(trimmed.indexOf('!') + 1, trimmed.lastIndexOf('*'));
+    if (nmeaChecksum(body) !== checksum.toUpperCase()) {
+      return { ...empty, error: 'Checksum mismatch' };
+    }
+
+    const receivedAt = tagBlock ? parseTagBlockTime(tagBlock) : null;
+    const partCount = Number(total);
+    const partIndex = Number(index);
+    if (partCount < 1 || partIndex < 1 || partIndex > partCount) {
+      return { ...empty, receivedAt, error: 'Invalid fragment numbering' };
+    }
+
+    this.expireFragments(now.getTime());
+
+    let armored = payload;
+    let padding = Number(fillBits);
+    let messageTime = receivedAt;
+    if (partCount > 1) {
+      const key = `${channel}:${sequenceId}:${partCount}`;
+      const entry = this.pending.get(key) || { parts: [], fillBits: 0, receivedAt, firstSeen: now.getTime() };
+      if (partIndex === 1) {
+        // A new first fragment replaces whatever was left of an earlier message with the same id
+        entry.parts = [];
+        entry.receivedAt = receivedAt;
+        entry.firstSeen = now.getTime();
+      }
+      entry.parts[partIndex - 1] = payload;
+      if (partIndex === partCount) {
+        entry.fillBits = padding;
+      }
+      this.pending.set(key, entry);
+
+      if (entry.parts.filter(part => part !== undefined).length < partCount) {
+        return { ...empty, receivedAt, error: null };
+      }
+      this.pending.delete(key);
+      armored = entry.parts.join('');
+      padding = entry.fillBits;
+      messageTime = entry.receivedAt;
+    }
+
+    const bits = unarmor(armored, padding);
+    if (bits.length < 38) {
+      return { ...empty, receivedAt: messageTime, error: 'Payload too short' };
+    }
+
+    const messageType = readUnsigned(bits, 0, 6);
+    try {
+      const message = this.decodePayload(messageType, bits);
+      return { message, messageType, receivedAt: messageTime, error: null };
+    } catch (error) {
+      return {
+        message: null,
+        messageType,
+        receivedAt: messageTime,
+        error: error instanceof Error ? error.message : 'Failed to decode payload'
+      };
+    }
+  }
+
+  private decodePayload(messageType: number, bits: string): AisMessage | null {
+    const mmsi = String(readUnsigned(bits, 8, 30)).padStart(9, '0');
+
+    switch (messageType) {
+      case 1:
+      case 2:
+      case 3: {
+        requireLength(bits, 168, messageType);
+        const rateOfTurn = readSigned(bits, 42, 8);
+        return {
+          type: messageType,
+          mmsi,
+          navigationStatus: readUnsigned(bits, 38, 4),
+          rateOfTurn: rateOfTurn === -128 ? null : rateOfTurn,
+          ...this.decodeKinematics(bits, 50)
+        };
+      }
+      case 18:
+        requireLength(bits, 168, messageType);
+        return {
+          type: 18,
+          mmsi,
+          navigationStatus: null,
+          rateOfTurn: null,
+          ...this.decodeKinematics(bits, 46)
+        };
+      case 5: {
+        // Some transponders send 420 bits, dropping the spare bits at the end
+        requireLength(bits, 420, messageType);
+        const imo = readUnsigned(bits, 40, 30);
+        const month = readUnsigned(bits, 274, 4);
+        const day = readUnsigned(bits, 278, 5);
+        const draught = readUnsigned(bits, 294, 8);
+        return {
+          type: 5,
+          mmsi,
+          imoNumber: imo > 0 && imo <= 9999999 ? String(imo).padStart(7, '0') : null,
+          callSign: readText(bits, 70, 7),
+          shipName: readText(bits, 112, 20),
+          shipType: readUnsigned(bits, 232, 8),
+          dimensions: {
+            toBow: readUnsigned(bits, 240, 9),
+            toStern: readUnsigned(bits, 249, 9),
+            toPort: readUnsigned(bits, 258, 6),
+            toStarboard: readUnsigned(bits, 264, 6)
+          },
+          eta: month > 0 && day > 0
+            ? { month, day, hour: readUnsigned(bits, 283, 5), minute: readUnsigned(bits, 288, 6) }
+            : null,
+          draught: draught > 0 ? draught / 10 : null,
+          destination: readText(bits, 302, 20)
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Speed, position, course, heading and time stamp, laid out the same in types 1-3 and 18
+  private decodeKinematics(bits: string, start: number): Omit<AisPositionReport, 'type' | 'mmsi' | 'navigationStatus' | 'rateOfTurn'> {
+    const speed = readUnsigned(bits, start, 10);
+    const longitude = readSigned(bits, start + 11, 28) / 600000;
+    const latitude = readSigned(bits, start + 39, 27) / 600000;
+    const course = readUnsigned(bits, start + 66, 12);
+    const heading = readUnsigned(bits, start + 78, 9);
+    const second = readUnsigned(bits, start + 87, 6);
+
+    return {
+      speedOverGround: speed === 1023 ? null : speed / 10,
+      positionAccuracy: bits[start + 10] === '1',
+      latitude: Math.abs(latitude) > 90 ? null : latitude,
+      longitude: Math.abs(longitude) > 180 ? null : longitude,
+      courseOverGround: course >= 3600 ? null : course / 10,
+      trueHeading: heading === 511 ? null : heading,
+      second: second < 60 ? second : null
+    };
+  }
+
+  private expireFragments(now: number): void {
+    for (const [key, entry] of this.pending) {
+      if (now - entry.firstSeen > FRAGMENT_TIMEOUT_MS) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
+
+// XOR of the characters between ! and *, as two hex digits
+function nmeaChecksum(body: string): string {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum.toString(16).toUpperCase().padStart(2, '0');
+}
+
+// "c:" is the UNIX time in seconds (or milliseconds) the receiver stamped the sentence with
+function parseTagBlockTime(tagBlock: string): Date | null {
+  const fields = tagBlock.split('*')[0].split(',');
+  const time = fields.find(field => field.startsWith('c:'));
+  if (!time) {
+    return null;
+  }
+
+  const value = Number(time.slice(2));
+  if (!Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  return new Date(value > 1e11 ? value : value * 1000);
+}
+
+// Payload characters to a bit string, without the fill bits
+function unarmor(payload: string, fillBits: number): string {
+  let bits = '';
+  for (const char of payload) {
+    let value = char.charCodeAt(0) - 48;
+    if (value > 40) {
+      value -= 8;
+    }
+    bits += value.toString(2).padStart(6, '0');
+  }
+  return fillBits > 0 ? bits.slice(0, bits.length - fillBits) : bits;
+}
+
+function requireLength(bits: string, length: number, messageType: number): void {
+  if (bits.length < length) {
+    throw new Error(`Type ${messageType} payload has ${bits.length} bits, expected ${length}`);
+  }
+}
+
+function readUnsigned(bits: string, start: number, length: number): number {
+  return parseInt(bits.slice(start, start + length), 2);
+}
+
+function readSigned(bits: string, start: number, length: number): number {
+  const value = readUnsigned(bits, start, length);
+  return bits[start] === '1' ? value - Math.pow(2, length) : value;
+}
+
+// 6-bit text, with "@" padding and trailing spaces removed
+function readText(bits: string, start: number, characters: number): string {
+  let text = '';
+  for (let i = 0; i < characters; i++) {
+    const offset = start + i * 6;
+    if (offset + 6 > bits.length) {
+      break;
+    }
+    text += SIX_BIT_TEXT[readUnsigned(bits, offset, 6)];
+  }
+  return text.replace(/@.*$/, '').trim();
+}
@@ -0,0 +1,193 @@
+import { logger } from '../../utils/logger';
+import { shipService, Ship } from '../../models/Ship';
+import { voyageService, Voyage } from '../../models/Voyage';
+import { VoyageEtaRevision } from '../../models/VoyageEtaRevision';
+import { etaEstimationService } from '../EtaEstimationService';
+import { distanceNm } from '../Navigation/Geometry';
+import { AisDecoder, AisPositionReport, AisStaticVoyageData } from './AisDecoder';
+
+export interface AisIngestionResult {
+  sentences: number;
+  messages: number; // complete messages decoded, multi-part messages counted once
+  positionsRecorded: number;
+  positionsSkipped: number; // no position fix, no active voyage, or too soon after the last track point
+  shipsIdentified: number; // ships given their MMSI from static and voyage data
+  unknownMmsi: string[];
+  errors: Array<{ line: number; error: string }>;
+  etaRevisions: VoyageEtaRevision[];
+}
+
+// Positions closer than this to the last point of a voyage track are not recorded
+export const AIS_MIN_REPORT_INTERVAL_MINUTES = 10;
+
+/**
+ * Turns an AIS feed into voyage tracks. Position reports are matched to ships
+ * by MMSI and appended to the actual route of the ship's active voyage; static
+ * and voyage data fills in the MMSI of ships registered by IMO number only.
+ */
+export class AisIngestionService {
+  // Shared by every request so multi-part messages can span them
+  private decoder = new AisDecoder();
+
+  async ingest(sentences: string[], receivedAt: Date = new Date()): Promise<AisIngestionResult> {
+    const result: AisIngestionResult = {
+      sentences: sentences.length,
+      messages: 0,
+      positionsRecorded: 0,
+      positionsSkipped: 0,
+      shipsIdentified: 0,
+      unknownMmsi: [],
+      errors: [],
+      etaRevisions: []
+    };
+    const ships = new Map<string, Ship | null>();
+    const voyages = new Map<string, Voyage | null>();
+    const latestReports = new Map<string, { voyage: Voyage; report: AisPositionReport; time: Date }>();
+
+    for (const [index, sentence] of sentences.entries()) {
+      const decoded = this.decoder.decode(sentence);
+      if (decoded.error) {
+        result.errors.push({ line: index + 1, error: decoded.error });
+        continue;
+      }
+      if (decoded.messageType === null) {
+        continue; // fragment of a multi-part message
+      }
+
+      result.messages++;
+      const message = decoded.message;
+      if (!message) {
+        continue;
+      }
+
+      if (message.type === 5) {
+        if (await this.identifyShip(message, ships)) {
+          result.shipsIdentified++;
+        }
+        continue;
+      }
+
+      const time = decoded.receivedAt || receivedAt;
+      const voyage = await this.recordPosition(message, time, ships, voyages, result);
+      if (voyage) {
+        latestReports.set(voyage.id, { voyage, report: message, time });
+      }
+    }
+
+    // Revise the ETA of each voyage from its newest recorded position
+    for (const { voyage, report, time } of latestReports.values()) {
+      const revision = await etaEstimationService.reestimate(voyage, {
+        time,
+        position: { latitude: report.latitude as number, longitude: report.longitude as number },
+        speed: report.speedOverGround,
+        source: 'position_report'
+      });
+      if (revision) {
+        result.etaRevisions.push(revision);
+      }
+    }
+
+    logger.info('AIS messages ingested', {
+      sentences: result.sentences,
+      messages: result.messages,
+      positionsRecorded: result.positionsRecorded,
+      errors: result.errors.length
+    });
+    return result;
+  }
+
+  // Append a position report to the active voyage of its ship; returns the voyage when recorded
+  private async recordPosition(
+    report: AisPositionReport,
+    time: Date,
+    ships: Map<string, Ship | null>,
+    voyages: Map<string, Voyage | null>,
+    result: AisIngestionResult
+  ): Promise<Voyage | null> {
+    if (report.latitude === null || report.longitude === null) {
+      result.positionsSkipped++;
+      return null;
+    }
+
+    if (!ships.has(report.mmsi)) {
+      ships.set(report.mmsi, await shipService.findByMmsi(report.mmsi));
+    }
+    const ship = ships.get(report.mmsi);
+    if (!ship) {
+      if (!result.unknownMmsi.includes(report.mmsi)) {
+        result.unknownMmsi.push(report.mmsi);
+      }
+      return null;
+    }
+
+    if (!voyages.has(ship.id)) {
+      voyages.set(ship.id, await voyageService.findActiveByShipId(ship.id));
+    }
+    const voyage = voyages.get(ship.id);
+    if (!voyage) {
+      result.positionsSkipped++;
+      return null;
+    }
+
+    const track = voyage.actualRoute || [];
+    const last = track[track.length - 1];
+    const lastTime = last?.timestamp ? new Date(last.timestamp).getTime() : null;
+    if (lastTime !== null && time.getTime() - lastTime < AIS_MIN_REPORT_INTERVAL_MINUTES * 60000) {
+      result.positionsSkipped++;
+      return null;
+    }
+
+    const position = { latitude: report.latitude, longitude: report.longitude };
+    const updated = await voyageService.appendActualPosition(
+      voyage.id,
+      {
+        ...position,
+        timestamp: time.toISOString(),
+        source: 'ais',
+        speedOverGround: report.speedOverGround,
+        courseOverGround: report.courseOverGround,
+        heading: report.trueHeading,
+        navigationStatus: report.navigationStatus
+      },
+      { distance: last ? distanceNm(last, position) : 0 }
+    );
+    voyages.set(ship.id, updated);
+    if (!updated) {
+      return null;
+    }
+
+    result.positionsRecorded++;
+    return updated;
+  }
+
+  // Give a ship registered by IMO number the MMSI its transponder reports
+  private async identifyShip(data: AisStaticVoyageData, ships: Map<string, Ship | null>): Promise<boolean> {
+    if (!data.imoNumber) {
+      return false;
+    }
+
+    const ship = await shipService.findByImoNumber(data.imoNumber);
+    if (!ship || ship.mmsi === data.mmsi) {
+      return false;
+    }
+    if (ship.mmsi) {
+      logger.warn('AIS static data reports a different MMSI for ship', {
+        shipId: ship.id,
+        imoNumber: data.imoNumber,
+        registeredMmsi: ship.mmsi,
+        reportedMmsi: data.mmsi
+      });
+      return false;
+    }
+    if (await shipService.findByMmsi(data.mmsi)) {
+      return false;
+    }
+
+    const updated = await shipService.update(ship.id, { mmsi: data.mmsi });
+    ships.set(data.mmsi, updated);
+    logger.info('Ship identified from AIS static data', { shipId: ship.id, mmsi: data.mmsi });
+    return true;
+  }
+}
+
+export const aisIngestionService = new AisIngestionService();
@@ -0,0 +1,288 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { FuelLog } from '../models/FuelLog';
+import { shipService } from '../models/Ship';
+import { voyageService, Voyage } from '../models/Voyage';
+import { voyageItineraryService, VoyageItinerary } from '../models/VoyageItinerary';
+import { voyageEtaRevisionService, VoyageEtaRevision, EtaRevisionSource } from '../models/VoyageEtaRevision';
+import { weatherService, WeatherCondition } from './WeatherService';
+import { voyagePlanningService } from './VoyagePlanningService';
+import { speedProfileOptimizer, waypointEtas, SailingRequest, SpeedProfile } from './Navigation/SpeedProfile';
+import { GeoPoint, distanceNm, distanceToSegment } from './Navigation/Geometry';
+import { weatherFactors } from './Navigation/WaypointSearch';
+import { FuelPredictorModel } from './AI/FuelPredictorModel';
+
+export interface PositionReport {
+  time: Date;
+  position: GeoPoint;
+  speed?: number | null; // knots over ground, the service speed is used when missing
+  source: EtaRevisionSource;
+}
+
+// Hours the estimated arrival may slip behind the planned arrival before the voyage is marked delayed
+export const ETA_DELAY_THRESHOLD_HOURS = Number(process.env.ETA_DELAY_THRESHOLD_HOURS) || 6;
+
+// Reported speeds below this (at anchor, drifting, manoeuvring) say nothing about the passage speed
+const MIN_REPORTED_SPEED_KNOTS = 3;
+
+// Recorded as the author of status changes the estimator makes
+const ETA_MONITOR = 'eta-monitor';
+
+// A port call or canal entry this close to a remaining waypoint is still ahead of the ship
+const WAYPOINT_MATCH_NM = 0.01;
+
+const KM_PER_NAUTICAL_MILE = 1.852;
+
+/**
+ * Re-estimates the arrival of a voyage under way from its latest reported
+ * position. The ship is placed on the nearest leg of the planned route and
+ * sails the rest of it at the reported speed, slowed by the forecast weather
+ * it will meet on each remaining leg. Planned stays at the port calls still
+ * ahead and canal waits on the legs not yet sailed are added, so the ETA is
+ * the arrival at the final port.
+ */
+export class EtaEstimationService {
+  /**
+   * Revise the ETA and remaining fuel for a position report, store the
+   * revision and mark the voyage delayed when the ETA slips too far. Reports
+   * for voyages that are not under way, or older than the latest revision,
+   * are ignored. Failures are logged rather than thrown so ingesting the
+   * report never depends on the estimate.
+   */
+  async reestimate(voyage: Voyage, report: PositionReport): Promise<VoyageEtaRevision | null> {
+    if (!['in_progress', 'delayed'].includes(voyage.status)) {
+      return null;
+    }
+
+    try {
+      const [ship, first, latest, itinerary] = await Promise.all([
+        shipService.findById(voyage.shipId),
+        voyageEtaRevisionService.findFirstByVoyageId(voyage.id),
+        voyageEtaRevisionService.findLatestByVoyageId(voyage.id),
+        voyageItineraryService.findByVoyageId(voyage.id)
+      ]);
+      if (!ship || (latest && latest.reportTime.getTime() > report.time.getTime())) {
+        return null;
+      }
+
+      const specifications = ship.specifications;
+      const remaining = this.remainingRoute(voyage, report.position);
+      const legs = remaining.slice(1).map((point, index) => ({
+        from: remaining[index],
+        to: point,
+        distance: distanceNm(remaining[index], point)
+      }));
+      const loadFactor = specifications.cargoCapacity > 0
+        ? Math.min(1, (voyage.cargoWeight || 0) / specifications.cargoCapacity)
+        : 0;
+      const sailing: SailingRequest = {
+        legs,
+        departureTime: report.time,
+        delays: this.remainingDelays(itinerary, remaining, report.time),
+        fuelConsumption: (speed: number, hours: number) => FuelPredictorModel.mainEngineConsumption({
+          enginePower: Number(specifications.enginePower) || FuelPredictorModel.DEFAULT_ENGINE_POWER,
+          engineLoad: FuelPredictorModel.DEFAULT_MAIN_ENGINE_LOAD,
+          maxSpeed: specifications.maxSpeed,
+          speed,
+          hours,
+          loadFactor
+        })
+      };
+
+      // Time the remaining legs in calm water first, then rate each on the forecast for when it is sailed
+      const preferences = (voyage.optimizationParameters?.preferences || {}) as { [key: string]: unknown };
+      const serviceSpeed = voyagePlanningService.serviceSpeed(specifications.maxSpeed, preferences);
+      const reportedSpeed = report.speed && report.speed >= MIN_REPORTED_SPEED_KNOTS ? report.speed : null;
+      const calmSpeed = reportedSpeed || serviceSpeed;
+      const etas = waypointEtas(report.time, speedProfileOptimizer.sailAtSpeed(sailing, calmSpeed));
+      const weatherAnalysis = await weatherService.analyzeRouteWeather(
+        remaining.map((point, index) => ({ ...point, estimatedArrival: etas[index] }))
+      );
+      const factors = legs.map((_, index) => this.averageWeatherFactors(weatherAnalysis.routeSegments[index]?.weatherConditions || []));
+      sailing.legs = legs.map((leg, index) => ({ ...leg, ...factors[index] }));
+
+      // A reported speed is made good in the weather at the ship, so remove that loss to get the speed through the water
+      const speed = reportedSpeed
+        ? Math.min(specifications.maxSpeed, reportedSpeed / (1 - (factors[0]?.speedLoss || 0)))
+        : serviceSpeed;
+      const profileLegs = speedProfileOptimizer.sailAtSpeed(sailing, speed);
+
+      const remainingDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+      const speedLoss = remainingDistance > 0
+        ? legs.reduce((sum, leg, index) => sum + leg.distance * factors[index].speedLoss, 0) / remainingDistance
+        : 0;
+      const estimatedArrivalTime = profileLegs.length > 0 ? new Date(profileLegs[profileLegs.length - 1].eta) : report.time;
+      const finalLeg = itinerary.legs[itinerary.legs.length - 1];
+      const plannedArrivalTime = first
+        ? first.plannedArrivalTime
+        : finalLeg ? finalLeg.estimatedArrivalTime : voyage.estimatedArrivalTime;
+      const delayHours = (estimatedArrivalTime.getTime() - plannedArrivalTime.getTime()) / 3600000;
+      const raiseDelay = delayHours > ETA_DELAY_THRESHOLD_HOURS && voyage.status === 'in_progress';
+
+      const trx = await db.transaction();
+      let revision: VoyageEtaRevision;
+      try {
+        revision = await voyageEtaRevisionService.create({
+          voyageId: voyage.id,
+          reportTime: report.time,
+          source: report.source,
+          position: report.position,
+          remainingDistance: Math.round(remainingDistance * 100) / 100,
+          speed: Math.round(speed * 100) / 100,
+          speedLoss: Math.round(speedLoss * 10000) / 10000,
+          estimatedArrivalTime,
+          previousEstimatedArrivalTime: voyage.estimatedArrivalTime,
+          plannedArrivalTime,
+          delayHours: Math.round(delayHours * 100) / 100,
+          remainingFuelConsumption: Math.round(profileLegs.reduce((sum, leg) => sum + leg.fuel, 0) * 100) / 100,
+          delayRaised: raiseDelay
+        }, trx);
+        await trx('voyages')
+          .where({ id: voyage.id })
+          .update({ estimated_arrival_time: estimatedArrivalTime, updated_at: db.fn.now() });
+        await trx.commit();
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      if (raiseDelay) {
+        await voyageService.updateStatus(voyage.id, 'delayed', {
+          changedBy: ETA_MONITOR,
+          notes: `ETA ${estimatedArrivalTime.toISOString()} is ${revision.delayHours} h behind the planned arrival ${plannedArrivalTime.toISOString()}`
+        });
+        logger.warn('Voyage delayed', { voyageId: voyage.id, delayHours: revision.delayHours });
+      }
+
+      logger.info('Voyage ETA revised', {
+        voyageId: voyage.id,
+        source: report.source,
+        estimatedArrivalTime,
+        delayHours: revision.delayHours
+      });
+      return revision;
+    } catch (error) {
+      logger.error('Failed to re-estimate voyage ETA', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: voyage.id
+      });
+      return null;
+    }
+  }
+
+  // Re-estimate each voyage in a batch of fuel logs from its latest log with a position
+  async reestimateFromFuelLogs(fuelLogs: FuelLog[]): Promise<VoyageEtaRevision[]> {
+    const latestByVoyage = new Map<string, FuelLog>();
+    for (const log of fuelLogs) {
+      if (!log.voyageId || !log.position) {
+        continue;
+      }
+      const current = latestByVoyage.get(log.voyageId);
+      if (!current || log.logTime.getTime() > current.logTime.getTime()) {
+        latestByVoyage.set(log.voyageId, log);
+      }
+    }
+
+    const revisions: VoyageEtaRevision[] = [];
+    for (const [voyageId, log] of latestByVoyage) {
+      const voyage = await voyageService.findById(voyageId);
+      const revision = voyage && await this.reestimate(voyage, {
+        time: log.logTime,
+        position: log.position as GeoPoint,
+        speed: log.currentSpeed,
+        source: 'fuel_log'
+      });
+      if (revision) {
+        revisions.push(revision);
+      }
+    }
+    return revisions;
+  }
+
+  // The reported position followed by the planned waypoints still ahead of it
+  private remainingRoute(voyage: Voyage, position: GeoPoint): GeoPoint[] {
+    const route: GeoPoint[] = voyage.plannedRoute && voyage.plannedRoute.length >= 2
+      ? voyage.plannedRoute.map(point => ({ latitude: point.latitude, longitude: point.longitude }))
+      : [voyage.origin, voyage.destination];
+
+    // The ship is on the leg it is closest to
+    let nearestLeg = 0;
+    let nearestDistance = Infinity;
+    for (let index = 0; index < route.length - 1; index++) {
+      const distance = Math.abs(distanceToSegment(position, route[index], route[index + 1]).distance);
+      if (distance <= nearestDistance) {
+        nearestLeg = index;
+        nearestDistance = distance;
+      }
+    }
+
+    return [position, ...route.slice(nearestLeg + 1)];
+  }
+
+  /**
+   * Time the ship will spend stopped on the remaining route: the planned stay
+   * at each port call ahead (what is left of it when the ship is alongside)
+   * and the canal waits of the speed profiles of legs not yet completed, each
+   * placed at its distance along the remaining route.
+   */
+  private remainingDelays(
+    itinerary: VoyageItinerary,
+    remaining: GeoPoint[],
+    reportTime: Date
+  ): Array<{ distanceFromOrigin: number; hours: number }> {
+    const distances = remaining.map((_, index) => remaining.slice(1, index + 1)
+      .reduce((sum, point, offset) => sum + distanceNm(remaining[offset], point), 0));
+    // Distance to the waypoint ahead at the point, null once the ship has passed it
+    const distanceAhead = (point: GeoPoint): number | null => {
+      const index = remaining.findIndex((waypoint, offset) => offset > 0 && distanceNm(waypoint, point) <= WAYPOINT_MATCH_NM);
+      return index === -1 ? null : distances[index];
+    };
+
+    const delays: Array<{ distanceFromOrigin: number; hours: number }> = [];
+    itinerary.portCalls.slice(1, -1).forEach(call => {
+      if (call.actualDepartureTime || !call.plannedArrivalTime || !call.plannedDepartureTime) {
+        return;
+      }
+      const stay = (call.plannedDepartureTime.getTime() - call.plannedArrivalTime.getTime()) / 3600000;
+      if (call.actualArrivalTime) {
+        const alongside = (reportTime.getTime() - call.actualArrivalTime.getTime()) / 3600000;
+        delays.push({ distanceFromOrigin: 0, hours: Math.max(0, stay - alongside) });
+        return;
+      }
+      const distance = distanceAhead(call);
+      if (distance !== null) {
+        delays.push({ distanceFromOrigin: distance, hours: stay });
+      }
+    });
+
+    itinerary.legs.filter(leg => !leg.actualArrivalTime).forEach(leg => {
+      const profile = leg.speedProfile as SpeedProfile | null;
+      for (const profileLeg of profile && Array.isArray(profile.legs) ? profile.legs : []) {
+        const distance = profileLeg.delay > 0 ? distanceAhead(profileLeg.from) : null;
+        if (distance !== null) {
+          delays.push({ distanceFromOrigin: distance, hours: profileLeg.delay });
+        }
+      }
+    });
+    return delays;
+  }
+
+  // Speed loss and fuel factor averaged over the forecast hours of a leg, calm water without a forecast
+  private averageWeatherFactors(conditions: WeatherCondition[]): { speedLoss: number; fuelFactor: number } {
+    if (conditions.length === 0) {
+      return { speedLoss: 0, fuelFactor: 1 };
+    }
+
+    const total = conditions.reduce((sum, condition) => {
+      const factors = weatherFactors({
+        windSpeed: condition.windSpeed / KM_PER_NAUTICAL_MILE,
+        waveHeight: condition.seaState?.waveHeight || 0
+      });
+      return { speedLoss: sum.speedLoss + factors.speedLoss, fuelFactor: sum.fuelFactor + factors.fuelFactor };
+    }, { speedLoss: 0, fuelFactor: 0 });
+
+    return { speedLoss: total.speedLoss / conditions.length, fuelFactor: total.fuelFactor / conditions.length };
+  }
+}
+
+export const etaEstimationService = new EtaEstimationService();
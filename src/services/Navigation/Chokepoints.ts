@@ -0,0 +1,256 @@
+import chokepointData from '../../data/navigation/chokepoints.json';
+import { GeoPoint, distanceNm, distanceToSegment, wrapLongitude } from './Geometry';
+
+export type ChokepointType = 'canal' | 'strait';
+
+export interface ChokepointLimits {
+  maxLength?: number; // meters
+  maxWidth?: number; // meters
+  maxDraft?: number; // meters
+}
+
+export interface Chokepoint {
+  id: string;
+  name: string;
+  type: ChokepointType;
+  path: GeoPoint[]; // open water at both ends, traversable in either direction
+  radius: number; // nautical miles around the path interior closed to grid routes
+  limits: ChokepointLimits;
+  transitTime: number | null; // hours for the passage, null when ships sail it at service speed
+  averageWaitingTime: number; // hours at anchor before entry
+  entryWindows: Array<{ start: string; end: string }>; // daily UTC "HH:MM" windows, empty when entry is continuous
+  toll: { base: number; perCapacityTon: number }; // USD
+}
+
+export interface ChokepointPreferences {
+  force?: string[]; // chokepoint ids the route must pass through, in order
+  forbid?: string[]; // chokepoint ids the route must not use
+}
+
+export interface ShipDimensions {
+  length?: number | null; // meters
+  width?: number | null; // meters
+  draft?: number | null; // meters
+  cargoCapacity?: number | null; // tons, used as the toll basis
+}
+
+export interface ChokepointTransit {
+  chokepointId: string;
+  name: string;
+  type: ChokepointType;
+  entryTime: string | null; // ISO timestamp, null when the departure time is unknown
+  waitingTime: number; // hours
+  transitTime: number; // hours
+  delay: number; // hours beyond sailing the passage at service speed
+  toll: number; // USD
+}
+
+interface ChokepointArea {
+  chokepoint: Chokepoint;
+  interior: GeoPoint[];
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+interface ChokepointFile {
+  chokepoints: Array<Omit<Chokepoint, 'path'> & { path: number[][] }>;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Arrival times sampled across the day when averaging the wait for an entry window
+const WINDOW_SAMPLE_MINUTES = 15;
+
+/**
+ * Catalogue of canals and straits that routes must pass through as fixed
+ * passages, with the dimension limits, delays and tolls that come with them.
+ */
+export class ChokepointCatalogue {
+  private chokepoints: Chokepoint[];
+  private areas: ChokepointArea[];
+
+  constructor(data: ChokepointFile) {
+    this.chokepoints = data.chokepoints.map(chokepoint => ({
+      ...chokepoint,
+      path: chokepoint.path.map(([longitude, latitude]) => ({ latitude, longitude }))
+    }));
+
+    // Bounding boxes of the closed interiors, padded by the radius, for cheap rejection
+    this.areas = this.chokepoints.map(chokepoint => {
+      const interior = chokepoint.path.length > 2 ? chokepoint.path.slice(1, -1) : chokepoint.path;
+      const latitudes = interior.map(point => point.latitude);
+      const longitudes = interior.map(point => point.longitude);
+      const latMargin = chokepoint.radius / 60;
+      const lonMargin = latMargin / Math.max(0.1, Math.cos((Math.max(...latitudes.map(Math.abs)) * Math.PI) / 180));
+      return {
+        chokepoint,
+        interior,
+        minLat: Math.min(...latitudes) - latMargin,
+        maxLat: Math.max(...latitudes) + latMargin,
+        minLon: Math.min(...longitudes) - lonMargin,
+        maxLon: Math.max(...longitudes) + lonMargin
+      };
+    });
+  }
+
+  list(): Chokepoint[] {
+    return this.chokepoints;
+  }
+
+  findById(id: string): Chokepoint | undefined {
+    return this.chokepoints.find(chokepoint => chokepoint.id === id);
+  }
+
+  // Dimension limits the ship exceeds; unknown dimensions are not checked
+  checkShip(chokepoint: Chokepoint, ship: ShipDimensions): string[] {
+    const checks: Array<[string, number | null | undefined, number | undefined]> = [
+      ['Length', ship.length, chokepoint.limits.maxLength],
+      ['Width', ship.width, chokepoint.limits.maxWidth],
+      ['Draft', ship.draft, chokepoint.limits.maxDraft]
+    ];
+
+    return checks
+      .filter(([, value, limit]) => value && limit !== undefined && value > limit)
+      .map(([label, value, limit]) => `${label} ${value} m exceeds the ${chokepoint.name} limit of ${limit} m`);
+  }
+
+  pathDistance(chokepoint: Chokepoint): number {
+    let distance = 0;
+    for (let i = 0; i < chokepoint.path.length - 1; i++) {
+      distance += distanceNm(chokepoint.path[i], chokepoint.path[i + 1]);
+    }
+    return distance;
+  }
+
+  /**
+   * True when the segment keeps clear of every chokepoint interior, so grid
+   * routes cannot bypass a passage and its limits. Segments touching the
+   * ignore points (port approaches) are exempt.
+   */
+  isSegmentClear(from: GeoPoint, to: GeoPoint, ignoreNear: GeoPoint[] = [], ignoreRadius: number = 0): boolean {
+    if (ignoreNear.some(point => distanceNm(point, from) <= ignoreRadius || distanceNm(point, to) <= ignoreRadius)) {
+      return true;
+    }
+
+    return this.areas.every(({ chokepoint, interior, minLat, maxLat, minLon, maxLon }) => {
+      if (
+        Math.max(from.latitude, to.latitude) < minLat || Math.min(from.latitude, to.latitude) > maxLat ||
+        Math.max(from.longitude, to.longitude) < minLon || Math.min(from.longitude, to.longitude) > maxLon
+      ) {
+        return true;
+      }
+      if (interior.length === 1) {
+        return distanceToSegmentNm(interior[0], from, to) > chokepoint.radius;
+      }
+      for (let i = 0; i < interior.length - 1; i++) {
+        if (segmentDistanceNm(from, to, interior[i], interior[i + 1]) <= chokepoint.radius) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Waiting time, transit time and toll for one passage. Without an entry time
+   * the wait for an entry window is averaged over the day.
+   */
+  estimateTransit(chokepoint: Chokepoint, ship: ShipDimensions, speed: number, entryTime?: Date | null): ChokepointTransit {
+    const sailingTime = this.pathDistance(chokepoint) / speed;
+    const transitTime = chokepoint.transitTime ?? sailingTime;
+    const windowWait = entryTime
+      ? this.waitForWindow(chokepoint, entryTime.getUTCHours() * 60 + entryTime.getUTCMinutes())
+      : this.averageWindowWait(chokepoint);
+    const waitingTime = chokepoint.averageWaitingTime + windowWait;
+
+    return {
+      chokepointId: chokepoint.id,
+      name: chokepoint.name,
+      type: chokepoint.type,
+      entryTime: entryTime ? entryTime.toISOString() : null,
+      waitingTime,
+      transitTime,
+      delay: waitingTime + Math.max(0, transitTime - sailingTime),
+      toll: chokepoint.toll.base + chokepoint.toll.perCapacityTon * (ship.cargoCapacity || 0)
+    };
+  }
+
+  // Expected delay in hours, used to price the passage before arrival times are known
+  expectedDelay(chokepoint: Chokepoint, speed: number): number {
+    const sailingTime = this.pathDistance(chokepoint) / speed;
+    return chokepoint.averageWaitingTime + this.averageWindowWait(chokepoint) +
+      Math.max(0, (chokepoint.transitTime ?? sailingTime) - sailingTime);
+  }
+
+  // Hours from arrival (minutes after midnight UTC) until an entry window is open
+  private waitForWindow(chokepoint: Chokepoint, arrivalMinute: number): number {
+    if (chokepoint.entryWindows.length === 0) {
+      return 0;
+    }
+
+    let wait = MINUTES_PER_DAY;
+    for (const window of chokepoint.entryWindows) {
+      const start = parseMinutes(window.start);
+      const end = parseMinutes(window.end);
+      const open = start <= end
+        ? arrivalMinute >= start && arrivalMinute < end
+        : arrivalMinute >= start || arrivalMinute < end;
+      wait = Math.min(wait, open ? 0 : (start - arrivalMinute + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+    }
+    return wait / 60;
+  }
+
+  private averageWindowWait(chokepoint: Chokepoint): number {
+    let total = 0;
+    let samples = 0;
+    for (let minute = 0; minute < MINUTES_PER_DAY; minute += WINDOW_SAMPLE_MINUTES) {
+      total += this.waitForWindow(chokepoint, minute);
+      samples++;
+    }
+    return total / samples;
+  }
+}
+
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Local equirectangular projection in nautical miles around a reference point
+function project(point: GeoPoint, reference: GeoPoint): [number, number] {
+  const cosLat = Math.cos((reference.latitude * Math.PI) / 180);
+  return [
+    wrapLongitude(point.longitude - reference.longitude) * 60 * cosLat,
+    (point.latitude - reference.latitude) * 60
+  ];
+}
+
+function distanceToSegmentNm(point: GeoPoint, from: GeoPoint, to: GeoPoint): number {
+  return Math.abs(distanceToSegment(point, from, to).distance);
+}
+
+function segmentDistanceNm(a1: GeoPoint, a2: GeoPoint, b1: GeoPoint, b2: GeoPoint): number {
+  const [x1, y1] = project(a1, b1);
+  const [x2, y2] = project(a2, b1);
+  const [x4, y4] = project(b2, b1);
+  // b1 is the projection origin
+  const denominator = (x2 - x1) * y4 - (y2 - y1) * x4;
+  if (denominator !== 0) {
+    const t = (-x1 * y4 + y1 * x4) / denominator;
+    const u = (-x1 * (y2 - y1) + y1 * (x2 - x1)) / denominator;
+    if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
+      return 0;
+    }
+  }
+
+  return Math.min(
+    distanceToSegmentNm(a1, b1, b2),
+    distanceToSegmentNm(a2, b1, b2),
+    distanceToSegmentNm(b1, a1, a2),
+    distanceToSegmentNm(b2, a1, a2)
+  );
+}
+
+export const chokepointCatalogue = new ChokepointCatalogue(chokepointData as ChokepointFile);
@@ -0,0 +1,200 @@
+import ecaZones from '../../data/navigation/eca-zones.json';
+import { GeoPoint, distanceNm, interpolate, unwrapSegment, wrapLongitude } from './Geometry';
+import { pointInRing, segmentIntersection } from './LandMask';
+
+export type MarineFuelType = 'HFO' | 'MGO';
+
+// Residual fuel outside ECAs, 0.10% sulphur distillate inside them
+export const OPEN_SEA_FUEL: MarineFuelType = 'HFO';
+export const ECA_FUEL: MarineFuelType = 'MGO';
+
+// Typical MGO price relative to HFO, used to weigh ECA fuel when no prices are given
+export const DEFAULT_ECA_FUEL_PRICE_RATIO = 1.6;
+
+export interface EcaZoneCollection {
+  features: Array<{
+    properties: { id: string; name: string; part?: string; effectiveFrom: string };
+    geometry: { type: string; coordinates: number[][][] }; // [longitude, latitude]
+  }>;
+}
+
+export interface EcaLeg {
+  from: GeoPoint;
+  to: GeoPoint;
+  distance: number; // nautical miles
+  ecaId: string | null;
+  fuelType: MarineFuelType;
+}
+
+export interface EcaZoneExposure {
+  ecaId: string;
+  name: string;
+  distance: number; // nautical miles
+  time: number; // hours
+}
+
+export interface EcaExposure {
+  legs: EcaLeg[]; // route legs split at ECA boundaries
+  zones: EcaZoneExposure[];
+  totalDistance: number; // nautical miles
+  distanceInside: number; // nautical miles
+  timeInside: number; // hours
+}
+
+interface PreparedZone {
+  id: string;
+  name: string;
+  effectiveFrom: Date;
+  ring: number[][];
+  minLon: number;
+  maxLon: number;
+  minLat: number;
+  maxLat: number;
+}
+
+/**
+ * Emission Control Area lookups: which zone a position falls in, and how a
+ * route splits into legs sailed on open-sea fuel and on ECA-compliant fuel.
+ */
+export class EmissionControlAreas {
+  private zones: PreparedZone[];
+
+  constructor(data: EcaZoneCollection) {
+    this.zones = data.features
+      .filter(feature => feature.geometry.type === 'Polygon')
+      .map(feature => {
+        const ring = feature.geometry.coordinates[0];
+        return {
+          id: feature.properties.id,
+          name: feature.properties.name,
+          effectiveFrom: new Date(feature.properties.effectiveFrom),
+          ring,
+          minLon: Math.min(...ring.map(([lon]) => lon)),
+          maxLon: Math.max(...ring.map(([lon]) => lon)),
+          minLat: Math.min(...ring.map(([, lat]) => lat)),
+          maxLat: Math.max(...ring.map(([, lat]) => lat))
+        };
+      });
+  }
+
+  // Zone in force at the position on the given date (today when omitted)
+  findZoneAt(point: GeoPoint, date: Date = new Date()): { id: string; name: string } | null {
+    const longitude = wrapLongitude(point.longitude);
+    const zone = this.zones.find(candidate =>
+      candidate.effectiveFrom <= date &&
+      longitude >= candidate.minLon && longitude <= candidate.maxLon &&
+      point.latitude >= candidate.minLat && point.latitude <= candidate.maxLat &&
+      pointInRing(longitude, point.latitude, candidate.ring)
+    );
+    return zone ? { id: zone.id, name: zone.name } : null;
+  }
+
+  /**
+   * Split the route at ECA boundaries and total the distance and time sailed
+   * inside each zone at the given speed (knots).
+   */
+  analyzeRoute(waypoints: GeoPoint[], speed: number, date: Date = new Date()): EcaExposure {
+    const legs: EcaLeg[] = [];
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      legs.push(...this.splitLeg(waypoints[i], waypoints[i + 1], date));
+    }
+
+    const zones: EcaZoneExposure[] = [];
+    for (const leg of legs) {
+      if (!leg.ecaId) {
+        continue;
+      }
+      let zone = zones.find(item => item.ecaId === leg.ecaId);
+      if (!zone) {
+        zone = { ecaId: leg.ecaId, name: this.zoneName(leg.ecaId), distance: 0, time: 0 };
+        zones.push(zone);
+      }
+      zone.distance += leg.distance;
+      zone.time += leg.distance / speed;
+    }
+
+    const distanceInside = zones.reduce((sum, zone) => sum + zone.distance, 0);
+    return {
+      legs,
+      zones,
+      totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      distanceInside,
+      timeInside: distanceInside / speed
+    };
+  }
+
+  /**
+   * Fuel burned on each fuel type when every leg carries its own consumption,
+   * as in a speed profile: a leg's fuel is shared by distance between its
+   * pieces inside and outside ECAs.
+   */
+  splitFuel(legs: Array<{ from: GeoPoint; to: GeoPoint; fuel: number }>, date: Date = new Date()): { [fuelType in MarineFuelType]: number } {
+    const fuelByType = { HFO: 0, MGO: 0 };
+    for (const leg of legs) {
+      const pieces = this.splitLeg(leg.from, leg.to, date);
+      const distance = pieces.reduce((sum, piece) => sum + piece.distance, 0);
+      for (const piece of pieces) {
+        fuelByType[piece.fuelType] += leg.fuel * (distance > 0 ? piece.distance / distance : 1 / pieces.length);
+      }
+    }
+    return fuelByType;
+  }
+
+  // Pieces of one leg between boundary crossings, merged while they stay in the same zone
+  private splitLeg(from: GeoPoint, to: GeoPoint, date: Date): EcaLeg[] {
+    const { start, end } = unwrapSegment(from, to);
+    const pointAt = (t: number): GeoPoint => interpolate(start, end, t);
+
+    const crossings = [0, 1];
+    for (const zone of this.zones) {
+      if (
+        Math.max(start.longitude, end.longitude) < zone.minLon || Math.min(start.longitude, end.longitude) > zone.maxLon ||
+        Math.max(start.latitude, end.latitude) < zone.minLat || Math.min(start.latitude, end.latitude) > zone.maxLat
+      ) {
+        continue;
+      }
+      for (let i = 0; i < zone.ring.length - 1; i++) {
+        const [x3, y3] = zone.ring[i];
+        const [x4, y4] = zone.ring[i + 1];
+        const t = segmentIntersection(start.longitude, start.latitude, end.longitude, end.latitude, x3, y3, x4, y4);
+        if (t !== null) {
+          crossings.push(t);
+        }
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    const pieces: Array<{ from: number; to: number; ecaId: string | null }> = [];
+    for (let i = 0; i < crossings.length - 1; i++) {
+      const [a, b] = [crossings[i], crossings[i + 1]];
+      if (b - a < 1e-9) {
+        continue;
+      }
+      const ecaId = this.findZoneAt(pointAt((a + b) / 2), date)?.id ?? null;
+      const previous = pieces[pieces.length - 1];
+      if (previous && previous.ecaId === ecaId) {
+        previous.to = b;
+      } else {
+        pieces.push({ from: a, to: b, ecaId });
+      }
+    }
+
+    return pieces.map(piece => {
+      const pieceFrom = pointAt(piece.from);
+      const pieceTo = pointAt(piece.to);
+      return {
+        from: pieceFrom,
+        to: pieceTo,
+        distance: distanceNm(pieceFrom, pieceTo),
+        ecaId: piece.ecaId,
+        fuelType: piece.ecaId ? ECA_FUEL : OPEN_SEA_FUEL
+      };
+    });
+  }
+
+  private zoneName(id: string): string {
+    return this.zones.find(zone => zone.id === id)?.name || id;
+  }
+}
+
+export const emissionControlAreas = new EmissionControlAreas(ecaZones as EcaZoneCollection);
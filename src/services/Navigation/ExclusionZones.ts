@@ -0,0 +1,222 @@
+import { GeoPoint, distanceNm, interpolate, unwrapSegment, wrapLongitude } from './Geometry';
+import { pointInRing, segmentIntersection } from './LandMask';
+
+export type ExclusionZoneCategory = 'piracy' | 'war_risk' | 'sanctions' | 'other';
+
+// Prohibited zones are never routed through; restricted zones need an escort; advisory zones only add cost
+export type ExclusionZoneSeverity = 'prohibited' | 'restricted' | 'advisory';
+
+export interface ExclusionZoneGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: number[][][] | number[][][][]; // GeoJSON [longitude, latitude] rings, outer ring first
+}
+
+export interface ExclusionZoneArea {
+  id: string;
+  name: string;
+  category: ExclusionZoneCategory;
+  severity: ExclusionZoneSeverity;
+  geometry: ExclusionZoneGeometry;
+}
+
+export interface ExclusionZoneIntersection {
+  zoneId: string;
+  name: string;
+  category: ExclusionZoneCategory;
+  severity: ExclusionZoneSeverity;
+  escortRequired: boolean;
+  entry: GeoPoint; // where the route first enters the zone
+  distance: number; // nautical miles sailed inside
+}
+
+export const EXCLUSION_ZONE_CATEGORIES: ExclusionZoneCategory[] = ['piracy', 'war_risk', 'sanctions', 'other'];
+export const EXCLUSION_ZONE_SEVERITIES: ExclusionZoneSeverity[] = ['prohibited', 'restricted', 'advisory'];
+
+// Route cost multipliers inside soft zones; restricted transits also carry escort costs and delays
+const SOFT_ZONE_COST_FACTORS: { [severity in ExclusionZoneSeverity]: number } = {
+  prohibited: 1,
+  restricted: 3,
+  advisory: 1.25
+};
+
+interface PreparedPolygon {
+  rings: number[][][]; // outer ring followed by holes
+  minLon: number;
+  maxLon: number;
+  minLat: number;
+  maxLat: number;
+}
+
+interface PreparedZone {
+  zone: ExclusionZoneArea;
+  polygons: PreparedPolygon[];
+}
+
+/**
+ * Point and segment lookups over a set of exclusion zones, typically the
+ * zones in force at the planned departure time.
+ */
+export class ExclusionZoneMap {
+  private zones: PreparedZone[];
+
+  constructor(zones: ExclusionZoneArea[]) {
+    this.zones = zones.map(zone => ({
+      zone,
+      polygons: polygonsOf(zone.geometry).map(rings => ({
+        rings,
+        minLon: Math.min(...rings[0].map(([lon]) => lon)),
+        maxLon: Math.max(...rings[0].map(([lon]) => lon)),
+        minLat: Math.min(...rings[0].map(([, lat]) => lat)),
+        maxLat: Math.max(...rings[0].map(([, lat]) => lat))
+      }))
+    }));
+  }
+
+  isEmpty(): boolean {
+    return this.zones.length === 0;
+  }
+
+  findZonesAt(point: GeoPoint): ExclusionZoneArea[] {
+    const longitude = wrapLongitude(point.longitude);
+    return this.zones
+      .filter(({ polygons }) => polygons.some(polygon => containsPoint(polygon, longitude, point.latitude)))
+      .map(({ zone }) => zone);
+  }
+
+  // Highest soft-zone cost multiplier at the position, 1 outside all zones
+  costFactorAt(point: GeoPoint): number {
+    return this.findZonesAt(point).reduce((factor, zone) => Math.max(factor, SOFT_ZONE_COST_FACTORS[zone.severity]), 1);
+  }
+
+  // True when the segment neither starts inside nor crosses into a prohibited zone
+  isSegmentAllowed(from: GeoPoint, to: GeoPoint): boolean {
+    return this.zones
+      .filter(({ zone }) => zone.severity === 'prohibited')
+      .every(({ polygons }) => polygons.every(polygon => this.segmentCrossings(polygon, from, to) === null));
+  }
+
+  // True when the segment touches no zone at all
+  isSegmentClear(from: GeoPoint, to: GeoPoint): boolean {
+    return this.zones.every(({ polygons }) => polygons.every(polygon => this.segmentCrossings(polygon, from, to) === null));
+  }
+
+  /**
+   * Zones the route passes through, in the order they are entered, with the
+   * distance sailed inside each.
+   */
+  analyzeRoute(waypoints: GeoPoint[]): ExclusionZoneIntersection[] {
+    const intersections: ExclusionZoneIntersection[] = [];
+
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const { start, end } = unwrapSegment(waypoints[i], waypoints[i + 1]);
+      const pointAt = (t: number): GeoPoint => interpolate(start, end, t);
+
+      for (const { zone, polygons } of this.zones) {
+        for (const polygon of polygons) {
+          const crossings = this.segmentCrossings(polygon, start, end);
+          if (!crossings) {
+            continue;
+          }
+
+          // Between consecutive crossings the segment is entirely inside or outside the polygon
+          for (let j = 0; j < crossings.length - 1; j++) {
+            const [a, b] = [crossings[j], crossings[j + 1]];
+            const middle = pointAt((a + b) / 2);
+            if (b - a < 1e-9 || !containsPoint(polygon, wrapLongitude(middle.longitude), middle.latitude)) {
+              continue;
+            }
+
+            const distance = distanceNm(pointAt(a), pointAt(b));
+            const existing = intersections.find(item => item.zoneId === zone.id);
+            if (existing) {
+              existing.distance += distance;
+            } else {
+              intersections.push({
+                zoneId: zone.id,
+                name: zone.name,
+                category: zone.category,
+                severity: zone.severity,
+                escortRequired: zone.severity === 'restricted',
+                entry: pointAt(a),
+                distance
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return intersections;
+  }
+
+  // Sorted crossing positions (0-1) including both ends, or null when the segment stays outside the polygon
+  private segmentCrossings(polygon: PreparedPolygon, from: GeoPoint, to: GeoPoint): number[] | null {
+    const { start, end } = unwrapSegment(from, to);
+    if (
+      Math.max(start.longitude, end.longitude) < polygon.minLon || Math.min(start.longitude, end.longitude) > polygon.maxLon ||
+      Math.max(start.latitude, end.latitude) < polygon.minLat || Math.min(start.latitude, end.latitude) > polygon.maxLat
+    ) {
+      return null;
+    }
+
+    const crossings = [0, 1];
+    for (const ring of polygon.rings) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [x3, y3] = ring[i];
+        const [x4, y4] = ring[i + 1];
+        const t = segmentIntersection(start.longitude, start.latitude, end.longitude, end.latitude, x3, y3, x4, y4);
+        if (t !== null) {
+          crossings.push(t);
+        }
+      }
+    }
+
+    if (crossings.length === 2 && !containsPoint(polygon, start.longitude, start.latitude)) {
+      return null;
+    }
+    return crossings.sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Structural check for GeoJSON Polygon and MultiPolygon geometries: closed
+ * rings of at least four valid [longitude, latitude] positions.
+ */
+export function isValidZoneGeometry(value: unknown): value is ExclusionZoneGeometry {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+  const isPosition = (position: unknown): boolean =>
+    Array.isArray(position) && position.length >= 2 &&
+    typeof position[0] === 'number' && position[0] >= -180 && position[0] <= 180 &&
+    typeof position[1] === 'number' && position[1] >= -90 && position[1] <= 90;
+  const isRing = (ring: unknown): boolean =>
+    Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition) &&
+    ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+  const isPolygon = (polygon: unknown): boolean =>
+    Array.isArray(polygon) && polygon.length >= 1 && polygon.every(isRing);
+
+  if (type === 'Polygon') {
+    return isPolygon(coordinates);
+  }
+  if (type === 'MultiPolygon') {
+    return Array.isArray(coordinates) && coordinates.length >= 1 && coordinates.every(isPolygon);
+  }
+  return false;
+}
+
+function polygonsOf(geometry: ExclusionZoneGeometry): number[][][][] {
+  return geometry.type === 'Polygon'
+    ? [geometry.coordinates as number[][][]]
+    : geometry.coordinates as number[][][][];
+}
+
+// Inside the outer ring and outside every hole
+function containsPoint(polygon: PreparedPolygon, longitude: number, latitude: number): boolean {
+  return longitude >= polygon.minLon && longitude <= polygon.maxLon &&
+    latitude >= polygon.minLat && latitude <= polygon.maxLat &&
+    pointInRing(longitude, latitude, polygon.rings[0]) &&
+    polygon.rings.slice(1).every(hole => !pointInRing(longitude, latitude, hole));
+}
@@ -0,0 +1,321 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export type DistanceUnit = 'nm' | 'km' | 'mi' | 'm';
+
+export const DISTANCE_UNITS: DistanceUnit[] = ['nm', 'km', 'mi', 'm'];
+
+export interface CompositeSailing {
+  waypoints: GeoPoint[]; // great-circle arcs and the limiting parallel, spaced for sailing as great-circle legs
+  distance: number; // in the requested unit
+  greatCircleDistance: number; // the unrestricted great circle, in the requested unit
+  parallelDistance: number; // sailed along the limiting parallel, in the requested unit
+  limited: boolean; // false when the great circle stays within the limit and is sailed as is
+}
+
+export const EARTH_RADIUS_NM = 3440.065;
+
+// Length of one unit in nautical miles
+const UNIT_IN_NM: { [unit in DistanceUnit]: number } = {
+  nm: 1,
+  km: 1 / 1.852,
+  mi: 1609.344 / 1852,
+  m: 1 / 1852
+};
+
+// Greatest spacing of the waypoints a composite sailing is broken into
+const DEFAULT_COMPOSITE_SPACING_NM = 100;
+
+// Samples used to find how far from the equator a great-circle leg reaches
+const VERTEX_SAMPLES = 64;
+
+/*
+ * Shared spherical navigation geometry. Points are decimal degrees, east and
+ * north positive; bearings are degrees true from 0 to 360. Distances are
+ * nautical miles unless a unit is passed, and every longitude this module
+ * returns is wrapped to -180..180 so legs may cross the antimeridian.
+ */
+
+export function convertDistance(nauticalMiles: number, unit: DistanceUnit = 'nm'): number {
+  return nauticalMiles / UNIT_IN_NM[unit];
+}
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+export function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+// End longitude unwrapped relative to the start so segments crossing the antimeridian stay short
+export function unwrapSegment(from: GeoPoint, to: GeoPoint): { start: GeoPoint; end: GeoPoint } {
+  const start = { latitude: from.latitude, longitude: wrapLongitude(from.longitude) };
+  return {
+    start,
+    end: { latitude: to.latitude, longitude: start.longitude + wrapLongitude(to.longitude - start.longitude) }
+  };
+}
+
+/**
+ * Point a fraction of the way along a segment, linear in latitude and
+ * longitude the short way round. This matches grid cells and polygon edges,
+ * which are straight in latitude and longitude; use intermediatePoint for a
+ * position on the great circle.
+ */
+export function interpolate(from: GeoPoint, to: GeoPoint, fraction: number): GeoPoint {
+  const { start, end } = unwrapSegment(from, to);
+  return {
+    latitude: start.latitude + (end.latitude - start.latitude) * fraction,
+    longitude: wrapLongitude(start.longitude + (end.longitude - start.longitude) * fraction)
+  };
+}
+
+// Great-circle (haversine) distance
+export function greatCircleDistance(from: GeoPoint, to: GeoPoint, unit: DistanceUnit = 'nm'): number {
+  return convertDistance(EARTH_RADIUS_NM * angularDistance(from, to), unit);
+}
+
+// Great-circle distance in nautical miles, the unit the planner works in
+export function distanceNm(from: GeoPoint, to: GeoPoint): number {
+  return EARTH_RADIUS_NM * angularDistance(from, to);
+}
+
+// Distance on a constant true course (loxodrome)
+export function rhumbLineDistance(from: GeoPoint, to: GeoPoint, unit: DistanceUnit = 'nm'): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const deltaLat = lat2 - lat1;
+  const deltaLon = toRadians(wrapLongitude(to.longitude - from.longitude));
+  const stretchedDelta = mercatorLatitude(lat2) - mercatorLatitude(lat1);
+  // Along a parallel the ratio is 0/0 and the course is east or west
+  const q = Math.abs(stretchedDelta) > 1e-12 ? deltaLat / stretchedDelta : Math.cos(lat1);
+
+  return convertDistance(EARTH_RADIUS_NM * Math.hypot(deltaLat, q * deltaLon), unit);
+}
+
+// Initial true course of the great circle
+export function initialBearing(from: GeoPoint, to: GeoPoint): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const deltaLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(deltaLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Constant true course of the rhumb line
+export function rhumbBearing(from: GeoPoint, to: GeoPoint): number {
+  const deltaLon = toRadians(wrapLongitude(to.longitude - from.longitude));
+  const stretchedDelta = mercatorLatitude(toRadians(to.latitude)) - mercatorLatitude(toRadians(from.latitude));
+  return (toDegrees(Math.atan2(deltaLon, stretchedDelta)) + 360) % 360;
+}
+
+// Position reached sailing the great circle from a point on an initial course
+export function destinationPoint(from: GeoPoint, bearing: number, distance: number, unit: DistanceUnit = 'nm'): GeoPoint {
+  const angle = (distance * UNIT_IN_NM[unit]) / EARTH_RADIUS_NM;
+  const course = toRadians(bearing);
+  const lat1 = toRadians(from.latitude);
+  const lon1 = toRadians(from.longitude);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(course));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(course) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { latitude: toDegrees(lat2), longitude: wrapLongitude(toDegrees(lon2)) };
+}
+
+// Point a fraction of the way along the great circle between two points
+export function intermediatePoint(from: GeoPoint, to: GeoPoint, fraction: number): GeoPoint {
+  const angle = angularDistance(from, to);
+  if (angle < 1e-12) {
+    return { latitude: from.latitude, longitude: wrapLongitude(from.longitude) };
+  }
+
+  const a = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const b = Math.sin(fraction * angle) / Math.sin(angle);
+  const [x1, y1, z1] = toVector(from);
+  const [x2, y2, z2] = toVector(to);
+  const x = a * x1 + b * x2;
+  const y = a * y1 + b * y2;
+  const z = a * z1 + b * z2;
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.hypot(x, y))),
+    longitude: wrapLongitude(toDegrees(Math.atan2(y, x)))
+  };
+}
+
+// Point a fraction of the way along the rhumb line between two points
+export function rhumbIntermediatePoint(from: GeoPoint, to: GeoPoint, fraction: number): GeoPoint {
+  const latitude = from.latitude + (to.latitude - from.latitude) * fraction;
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const deltaLon = wrapLongitude(to.longitude - from.longitude);
+  const stretchedTotal = mercatorLatitude(lat2) - mercatorLatitude(lat1);
+  // Longitude advances in proportion to Mercator latitude, or evenly along a parallel
+  const lonFraction = Math.abs(stretchedTotal) > 1e-12
+    ? (mercatorLatitude(toRadians(latitude)) - mercatorLatitude(lat1)) / stretchedTotal
+    : fraction;
+  return { latitude, longitude: wrapLongitude(from.longitude + deltaLon * lonFraction) };
+}
+
+// Great circle broken into legs of at most maxSpacing, both ends included
+export function greatCirclePoints(from: GeoPoint, to: GeoPoint, maxSpacing: number, unit: DistanceUnit = 'nm'): GeoPoint[] {
+  const count = Math.max(1, Math.ceil(greatCircleDistance(from, to, unit) / maxSpacing));
+  return Array.from({ length: count + 1 }, (_, index) =>
+    index === 0 ? from : index === count ? to : intermediatePoint(from, to, index / count)
+  );
+}
+
+/**
+ * Signed distance off the great-circle track from `from` to `to`, positive
+ * to starboard, and the distance along the track to the foot of the
+ * perpendicular (negative before `from`).
+ */
+export function crossTrackDistance(
+  point: GeoPoint,
+  from: GeoPoint,
+  to: GeoPoint,
+  unit: DistanceUnit = 'nm'
+): { crossTrack: number; alongTrack: number } {
+  const toPoint = angularDistance(from, point);
+  const angle = toRadians(initialBearing(from, point) - initialBearing(from, to));
+  const crossTrack = Math.asin(Math.sin(toPoint) * Math.sin(angle));
+  const alongTrack = Math.acos(Math.min(1, Math.max(-1, Math.cos(toPoint) / Math.cos(crossTrack)))) *
+    (Math.cos(angle) < 0 ? -1 : 1);
+
+  return {
+    crossTrack: convertDistance(crossTrack * EARTH_RADIUS_NM, unit),
+    alongTrack: convertDistance(alongTrack * EARTH_RADIUS_NM, unit)
+  };
+}
+
+/**
+ * Distance from a point to the nearest point of a great-circle segment,
+ * signed like crossTrackDistance. Beyond either end the nearest point is
+ * the end itself; alongTrack is then 0 or the segment length.
+ */
+export function distanceToSegment(
+  point: GeoPoint,
+  from: GeoPoint,
+  to: GeoPoint,
+  unit: DistanceUnit = 'nm'
+): { distance: number; alongTrack: number } {
+  const length = greatCircleDistance(from, to, unit);
+  const { crossTrack, alongTrack } = crossTrackDistance(point, from, to, unit);
+  const side = Math.sign(crossTrack || 1);
+  if (length === 0 || alongTrack < 0) {
+    return { distance: side * greatCircleDistance(from, point, unit), alongTrack: 0 };
+  }
+  if (alongTrack > length) {
+    return { distance: side * greatCircleDistance(to, point, unit), alongTrack: length };
+  }
+  return { distance: crossTrack, alongTrack };
+}
+
+// Furthest latitude from the equator the great circle reaches between the two points, signed
+export function maxLatitudeOnGreatCircle(from: GeoPoint, to: GeoPoint): number {
+  let extreme = from.latitude;
+  for (let index = 1; index <= VERTEX_SAMPLES; index++) {
+    const { latitude } = intermediatePoint(from, to, index / VERTEX_SAMPLES);
+    if (Math.abs(latitude) > Math.abs(extreme)) {
+      extreme = latitude;
+    }
+  }
+  return extreme;
+}
+
+/**
+ * Composite great-circle sailing: the great circle, unless it reaches beyond
+ * the limiting latitude (ice, weather or a load line zone). Then the route
+ * follows the great circle from the departure that touches the limit, sails
+ * along the limiting parallel, and leaves it on the great circle that
+ * touches the limit and reaches the destination. Points already beyond the
+ * limit cannot be routed inside it and get the plain great circle.
+ */
+export function compositeSailing(
+  from: GeoPoint,
+  to: GeoPoint,
+  limitLatitude: number,
+  unit: DistanceUnit = 'nm',
+  spacing: number = convertDistance(DEFAULT_COMPOSITE_SPACING_NM, unit)
+): CompositeSailing {
+  const direct = greatCircleDistance(from, to, unit);
+  const plain: CompositeSailing = {
+    waypoints: greatCirclePoints(from, to, spacing, unit),
+    distance: direct,
+    greatCircleDistance: direct,
+    parallelDistance: 0,
+    limited: false
+  };
+
+  const limit = Math.abs(limitLatitude);
+  const extreme = maxLatitudeOnGreatCircle(from, to);
+  const hemisphere = Math.sign(extreme) || 1;
+  const limitRad = toRadians(limit);
+  const lat1 = toRadians(from.latitude * hemisphere);
+  const lat2 = toRadians(to.latitude * hemisphere);
+  if (Math.abs(extreme) <= limit || limit <= 0 || limit >= 90 || lat1 >= limitRad || lat2 >= limitRad) {
+    return plain;
+  }
+
+  // Napier's rules on the right spherical triangle pole - departure - vertex
+  const direction = Math.sign(wrapLongitude(to.longitude - from.longitude)) || 1;
+  const lonToVertex1 = toDegrees(Math.acos(Math.tan(lat1) / Math.tan(limitRad)));
+  const lonToVertex2 = toDegrees(Math.acos(Math.tan(lat2) / Math.tan(limitRad)));
+  const parallelLongitude = Math.abs(wrapLongitude(to.longitude - from.longitude)) - lonToVertex1 - lonToVertex2;
+  if (parallelLongitude <= 0) {
+    return plain;
+  }
+
+  const vertex1 = { latitude: limit * hemisphere, longitude: wrapLongitude(from.longitude + direction * lonToVertex1) };
+  const vertex2 = { latitude: limit * hemisphere, longitude: wrapLongitude(to.longitude - direction * lonToVertex2) };
+  const parallelDistance = convertDistance(parallelLongitude * 60 * Math.cos(limitRad), unit);
+  const parallelSteps = Math.max(1, Math.ceil(parallelDistance / spacing));
+  const parallel = Array.from({ length: parallelSteps - 1 }, (_, index) => ({
+    latitude: vertex1.latitude,
+    longitude: wrapLongitude(vertex1.longitude + direction * parallelLongitude * ((index + 1) / parallelSteps))
+  }));
+
+  const firstArc = greatCircleDistance(from, vertex1, unit);
+  const lastArc = greatCircleDistance(vertex2, to, unit);
+  return {
+    waypoints: [
+      ...greatCirclePoints(from, vertex1, spacing, unit),
+      ...parallel,
+      ...greatCirclePoints(vertex2, to, spacing, unit)
+    ],
+    distance: firstArc + parallelDistance + lastArc,
+    greatCircleDistance: direct,
+    parallelDistance,
+    limited: true
+  };
+}
+
+// Central angle between two points, in radians
+function angularDistance(from: GeoPoint, to: GeoPoint): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const deltaLat = lat2 - lat1;
+  const deltaLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(deltaLon / 2) * Math.sin(deltaLon / 2);
+  return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Stretched (Mercator) latitude used by rhumb-line sailing
+function mercatorLatitude(latitude: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + latitude / 2));
+}
+
+function toVector(point: GeoPoint): [number, number, number] {
+  const latitude = toRadians(point.latitude);
+  const longitude = toRadians(point.longitude);
+  return [Math.cos(latitude) * Math.cos(longitude), Math.cos(latitude) * Math.sin(longitude), Math.sin(latitude)];
+}
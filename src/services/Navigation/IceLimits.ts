@@ -0,0 +1,190 @@
+import iceLimitData from '../../data/navigation/ice-limits.json';
+import { GeoPoint, distanceNm } from './Geometry';
+import { ExclusionZoneArea, ExclusionZoneGeometry, ExclusionZoneMap, ExclusionZoneSeverity } from './ExclusionZones';
+
+// Stage of development of the ice, thinnest first
+export type IceType = 'new_ice' | 'thin_first_year' | 'medium_first_year' | 'thick_first_year' | 'multi_year';
+
+// Whether the ship's ice class may sail the ice on its own, only behind an icebreaker, or not at all
+export type IceRule = 'permitted' | 'escort' | 'prohibited';
+
+export interface IceLimitCollection {
+  features: Array<{
+    properties: { id: string; name: string; iceType: string; season: { from: string; to: string } }; // season MM-DD, UTC
+    geometry: ExclusionZoneGeometry;
+  }>;
+}
+
+export interface IceZoneExposure {
+  zoneId: string;
+  name: string;
+  iceType: IceType;
+  rule: IceRule;
+  entry: GeoPoint; // where the route first enters the ice
+  distance: number; // nautical miles
+  time: number; // hours
+}
+
+export interface IceExposure {
+  iceClass: string | null;
+  zones: IceZoneExposure[];
+  distanceInside: number; // nautical miles
+  timeInside: number; // hours
+  escortRequired: boolean;
+  risk: number; // 0-1, distance-weighted ice severity, doubled where the ice class needs an escort
+  hullWear: number; // 0-1, distance-weighted ice severity whatever the ice class
+}
+
+// Finnish-Swedish classes, then IACS Polar Classes from the lightest up
+export const ICE_CLASSES = ['None', 'II', 'IC', 'IB', 'IA', 'IA Super', 'PC7', 'PC6', 'PC5', 'PC4', 'PC3', 'PC2', 'PC1'];
+
+// Ice each class handles, on one scale with ICE_REQUIREMENTS; written as in the seed data, compared without spaces or case
+const ICE_CLASS_RANKS: { [iceClass: string]: number } = {
+  NONE: 0,
+  II: 1,
+  IC: 2,
+  '1C': 2,
+  IB: 3,
+  '1B': 3,
+  IA: 4,
+  '1A': 4,
+  IASUPER: 5,
+  '1ASUPER': 5,
+  PC7: 5,
+  PC6: 6,
+  PC5: 7,
+  PC4: 8,
+  PC3: 9,
+  PC2: 10,
+  PC1: 10
+};
+
+// Lowest rank that sails the ice unescorted; one rank below may follow an icebreaker
+const ICE_REQUIREMENTS: { [type in IceType]: number } = {
+  new_ice: 1,
+  thin_first_year: 2,
+  medium_first_year: 4,
+  thick_first_year: 5,
+  multi_year: 9
+};
+
+const ICE_SEVERITY: { [type in IceType]: number } = {
+  new_ice: 0.2,
+  thin_first_year: 0.4,
+  medium_first_year: 0.6,
+  thick_first_year: 0.8,
+  multi_year: 1
+};
+
+// Ice is routed like an exclusion zone: escorted transits cost as much as restricted zones, unescorted ones as advisory
+const RULE_SEVERITIES: { [rule in IceRule]: ExclusionZoneSeverity } = {
+  permitted: 'advisory',
+  escort: 'restricted',
+  prohibited: 'prohibited'
+};
+
+interface IceLimit {
+  id: string;
+  name: string;
+  iceType: IceType;
+  from: string; // MM-DD
+  to: string; // MM-DD
+  geometry: ExclusionZoneGeometry;
+}
+
+/**
+ * Seasonal ice limits and the rules that decide, from a ship's ice class,
+ * which of the ice in force on a date it may enter. Areas are in force
+ * between their season's dates every year.
+ */
+export class IceLimits {
+  private limits: IceLimit[];
+
+  constructor(data: IceLimitCollection) {
+    this.limits = data.features.map(feature => ({
+      id: feature.properties.id,
+      name: feature.properties.name,
+      iceType: feature.properties.iceType as IceType,
+      from: feature.properties.season.from,
+      to: feature.properties.season.to,
+      geometry: feature.geometry
+    }));
+  }
+
+  rule(iceType: IceType, iceClass: string | null | undefined): IceRule {
+    const rank = iceClassRank(iceClass);
+    if (rank >= ICE_REQUIREMENTS[iceType]) {
+      return 'permitted';
+    }
+    // Ships without an ice class are kept out of ice altogether
+    return rank > 0 && rank === ICE_REQUIREMENTS[iceType] - 1 ? 'escort' : 'prohibited';
+  }
+
+  // Ice in force on the date, as exclusion zones of the severity the ship's ice class gives each
+  zoneAreas(iceClass: string | null | undefined, date: Date = new Date()): ExclusionZoneArea[] {
+    return this.inForce(date).map(limit => ({
+      id: limit.id,
+      name: limit.name,
+      category: 'other',
+      severity: RULE_SEVERITIES[this.rule(limit.iceType, iceClass)],
+      geometry: limit.geometry
+    }));
+  }
+
+  /**
+   * Ice the route passes through on the date, with the distance and the time
+   * at the given speed (knots) spent in each, and the route's ice risk and
+   * hull wear for the ship's ice class.
+   */
+  analyzeRoute(waypoints: GeoPoint[], iceClass: string | null | undefined, speed: number, date: Date = new Date()): IceExposure {
+    const limits = this.inForce(date);
+    const intersections = new ExclusionZoneMap(this.zoneAreas(iceClass, date)).analyzeRoute(waypoints);
+    const zones: IceZoneExposure[] = intersections.map(intersection => {
+      const limit = limits.find(item => item.id === intersection.zoneId) as IceLimit;
+      return {
+        zoneId: limit.id,
+        name: limit.name,
+        iceType: limit.iceType,
+        rule: this.rule(limit.iceType, iceClass),
+        entry: intersection.entry,
+        distance: intersection.distance,
+        time: speed > 0 ? intersection.distance / speed : 0
+      };
+    });
+
+    const totalDistance = waypoints.slice(1).reduce((sum, point, index) => sum + distanceNm(waypoints[index], point), 0);
+    const weighted = (weight: (zone: IceZoneExposure) => number): number => totalDistance > 0
+      ? Math.min(1, zones.reduce((sum, zone) => sum + zone.distance * weight(zone), 0) / totalDistance)
+      : 0;
+    const distanceInside = zones.reduce((sum, zone) => sum + zone.distance, 0);
+
+    return {
+      iceClass: iceClass || null,
+      zones,
+      distanceInside,
+      timeInside: speed > 0 ? distanceInside / speed : 0,
+      escortRequired: zones.some(zone => zone.rule === 'escort'),
+      risk: weighted(zone => ICE_SEVERITY[zone.iceType] * (zone.rule === 'permitted' ? 1 : 2)),
+      hullWear: weighted(zone => ICE_SEVERITY[zone.iceType])
+    };
+  }
+
+  private inForce(date: Date): IceLimit[] {
+    const day = date.toISOString().slice(5, 10);
+    return this.limits.filter(limit => limit.from <= limit.to
+      ? day >= limit.from && day <= limit.to
+      : day >= limit.from || day <= limit.to);
+  }
+}
+
+// Ice class from a ship's specifications, stored as ice_class; null when the ship has none
+export function shipIceClass(specifications: { [key: string]: unknown }): string | null {
+  const iceClass = specifications.ice_class;
+  return typeof iceClass === 'string' && iceClassRank(iceClass) > 0 ? iceClass : null;
+}
+
+function iceClassRank(iceClass: string | null | undefined): number {
+  return iceClass ? ICE_CLASS_RANKS[iceClass.replace(/[\s_-]/g, '').toUpperCase()] || 0 : 0;
+}
+
+export const iceLimits = new IceLimits(iceLimitData as IceLimitCollection);
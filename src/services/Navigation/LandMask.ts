@@ -0,0 +1,261 @@
+import landPolygons from '../../data/navigation/land-polygons.json';
+import depthGrid from '../../data/navigation/depth-grid.json';
+import { GeoPoint, destinationPoint, distanceNm, interpolate, unwrapSegment, wrapLongitude } from './Geometry';
+
+export interface LandPolygonCollection {
+  features: Array<{
+    properties: { name: string };
+    geometry: { type: string; coordinates: number[][][] }; // [longitude, latitude]
+  }>;
+}
+
+export interface DepthGridData {
+  resolution: number; // degrees
+  defaultDepth: number; // meters, used for water outside listed cells
+  cells: Array<{ latitude: number; longitude: number; depth: number; area?: string }>;
+}
+
+export interface NavigationHazard {
+  type: 'land' | 'shallow_water';
+  position: GeoPoint;
+  name?: string; // land polygon or shallow area name
+  depth?: number; // meters, for shallow water
+}
+
+export interface SegmentCheckOptions {
+  draft?: number | null; // meters; depth is not checked when omitted
+  clearance?: number; // meters required under the keel, default 0
+  // Hazards within ignoreRadius of these points are tolerated (port approaches the coarse mask cannot resolve)
+  ignoreNear?: GeoPoint[];
+  ignoreRadius?: number; // nautical miles
+}
+
+interface PreparedPolygon {
+  name: string;
+  ring: number[][];
+  minLon: number;
+  maxLon: number;
+  minLat: number;
+  maxLat: number;
+}
+
+/**
+ * Land and shallow-water lookups over a bundled, deliberately coarse dataset:
+ * simplified coastline polygons plus a sparse depth grid of shallow areas.
+ */
+export class LandMask {
+  private polygons: PreparedPolygon[];
+  private depthResolution: number;
+  private defaultDepth: number;
+  private depthCells = new Map<string, { depth: number; area?: string }>();
+
+  constructor(land: LandPolygonCollection, depth: DepthGridData) {
+    this.polygons = land.features
+      .filter(feature => feature.geometry.type === 'Polygon')
+      .map(feature => {
+        const ring = feature.geometry.coordinates[0];
+        return {
+          name: feature.properties.name,
+          ring,
+          minLon: Math.min(...ring.map(([lon]) => lon)),
+          maxLon: Math.max(...ring.map(([lon]) => lon)),
+          minLat: Math.min(...ring.map(([, lat]) => lat)),
+          maxLat: Math.max(...ring.map(([, lat]) => lat))
+        };
+      });
+
+    this.depthResolution = depth.resolution;
+    this.defaultDepth = depth.defaultDepth;
+    for (const cell of depth.cells) {
+      this.depthCells.set(this.cellKey(cell.latitude, cell.longitude), { depth: cell.depth, area: cell.area });
+    }
+  }
+
+  findLandAt(point: GeoPoint): string | null {
+    const longitude = wrapLongitude(point.longitude);
+    for (const polygon of this.polygons) {
+      if (
+        longitude >= polygon.minLon && longitude <= polygon.maxLon &&
+        point.latitude >= polygon.minLat && point.latitude <= polygon.maxLat &&
+        pointInRing(longitude, point.latitude, polygon.ring)
+      ) {
+        return polygon.name;
+      }
+    }
+    return null;
+  }
+
+  // Charted depth in meters, or null on land
+  depthAt(point: GeoPoint): number | null {
+    if (this.findLandAt(point)) {
+      return null;
+    }
+    return this.findDepthCell(point)?.depth ?? this.defaultDepth;
+  }
+
+  isPointNavigable(point: GeoPoint, draft?: number | null, clearance: number = 0): boolean {
+    const depth = this.depthAt(point);
+    return depth !== null && (!draft || depth >= draft + clearance);
+  }
+
+  // First land crossing or shallow patch along the segment, or null if it is navigable
+  findSegmentHazard(from: GeoPoint, to: GeoPoint, options: SegmentCheckOptions = {}): NavigationHazard | null {
+    const { start, end } = unwrapSegment(from, to);
+    const withinApproach = (...positions: GeoPoint[]): boolean =>
+      (options.ignoreNear || []).some(point =>
+        positions.every(position => distanceNm(point, position) <= (options.ignoreRadius || 0))
+      );
+
+    // A stretch over land is tolerated only when it lies entirely within one port approach
+    for (const { from: stretchStart, to: stretchEnd, ...hazard } of this.findLandStretches(start, end)) {
+      if (!withinApproach(stretchStart, stretchEnd)) {
+        return hazard;
+      }
+    }
+
+    if (options.draft) {
+      const requiredDepth = options.draft + (options.clearance || 0);
+      const steps = Math.max(1, Math.ceil(
+        Math.max(Math.abs(end.latitude - start.latitude), Math.abs(end.longitude - start.longitude)) /
+        (this.depthResolution / 2)
+      ));
+
+      for (let i = 0; i <= steps; i++) {
+        const position = interpolate(start, end, i / steps);
+        const cell = this.findDepthCell(position);
+        if (cell && cell.depth < requiredDepth && !withinApproach(position)) {
+          return { type: 'shallow_water', position, name: cell.area, depth: cell.depth };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  isSegmentNavigable(from: GeoPoint, to: GeoPoint, options: SegmentCheckOptions = {}): boolean {
+    return this.findSegmentHazard(from, to, options) === null;
+  }
+
+  // Closest navigable water within maxRadius (nautical miles), searched in 5 nm rings
+  findNearestNavigablePoint(point: GeoPoint, maxRadius: number, draft?: number | null): GeoPoint | null {
+    if (this.isPointNavigable(point, draft)) {
+      return point;
+    }
+
+    for (let radius = 5; radius <= maxRadius; radius += 5) {
+      for (let bearing = 0; bearing < 360; bearing += 15) {
+        const candidate = destinationPoint(point, bearing, radius);
+        if (this.isPointNavigable(candidate, draft)) {
+          return candidate;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Stretches of the segment over land, split at every coastline crossing
+  private findLandStretches(start: GeoPoint, end: GeoPoint): Array<NavigationHazard & { from: GeoPoint; to: GeoPoint }> {
+    const stretches: Array<NavigationHazard & { from: GeoPoint; to: GeoPoint }> = [];
+    const minLon = Math.min(start.longitude, end.longitude);
+    const maxLon = Math.max(start.longitude, end.longitude);
+
+    // Segments crossing the antimeridian are also tested shifted back into [-180, 180]
+    const shifts = [0, ...(maxLon > 180 ? [-360] : []), ...(minLon < -180 ? [360] : [])];
+
+    for (const shift of shifts) {
+      const x1 = start.longitude + shift;
+      const x2 = end.longitude + shift;
+      const y1 = start.latitude;
+      const y2 = end.latitude;
+      const pointAt = (t: number): GeoPoint => ({
+        latitude: y1 + (y2 - y1) * t,
+        longitude: wrapLongitude(x1 + (x2 - x1) * t)
+      });
+
+      for (const polygon of this.polygons) {
+        if (
+          Math.max(x1, x2) < polygon.minLon || Math.min(x1, x2) > polygon.maxLon ||
+          Math.max(y1, y2) < polygon.minLat || Math.min(y1, y2) > polygon.maxLat
+        ) {
+          continue;
+        }
+
+        const crossings = [0, 1];
+        for (let i = 0; i < polygon.ring.length - 1; i++) {
+          const [x3, y3] = polygon.ring[i];
+          const [x4, y4] = polygon.ring[i + 1];
+          const t = segmentIntersection(x1, y1, x2, y2, x3, y3, x4, y4);
+          if (t !== null) {
+            crossings.push(t);
+          }
+        }
+        crossings.sort((a, b) => a - b);
+
+        // Between consecutive crossings the segment is entirely inside or outside the polygon
+        for (let i = 0; i < crossings.length - 1; i++) {
+          const [a, b] = [crossings[i], crossings[i + 1]];
+          if (b - a < 1e-9) {
+            continue;
+          }
+          const middle = (a + b) / 2;
+          if (pointInRing(x1 + (x2 - x1) * middle, y1 + (y2 - y1) * middle, polygon.ring)) {
+            stretches.push({
+              type: 'land',
+              position: pointAt(middle),
+              name: polygon.name,
+              from: pointAt(a),
+              to: pointAt(b)
+            });
+          }
+        }
+      }
+    }
+
+    return stretches;
+  }
+
+  private findDepthCell(point: GeoPoint): { depth: number; area?: string } | undefined {
+    const latitude = Math.floor(point.latitude / this.depthResolution) * this.depthResolution;
+    const longitude = Math.floor(wrapLongitude(point.longitude) / this.depthResolution) * this.depthResolution;
+    return this.depthCells.get(this.cellKey(latitude, longitude));
+  }
+
+  private cellKey(latitude: number, longitude: number): string {
+    return `${latitude.toFixed(2)}:${longitude.toFixed(2)}`;
+  }
+}
+
+// Even-odd ray casting on [longitude, latitude] rings
+export function pointInRing(x: number, y: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Position along the first segment (0-1) where it meets the second (touching counts), or null
+export function segmentIntersection(
+  x1: number, y1: number, x2: number, y2: number,
+  x3: number, y3: number, x4: number, y4: number
+): number | null {
+  const denominator = (x2 - x1) * (y4 - y3) - (y2 - y1) * (x4 - x3);
+  if (denominator === 0) {
+    return null;
+  }
+
+  const t = ((x3 - x1) * (y4 - y3) - (y3 - y1) * (x4 - x3)) / denominator;
+  const u = ((x3 - x1) * (y2 - y1) - (y3 - y1) * (x2 - x1)) / denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) {
+    return null;
+  }
+
+  return t;
+}
+
+export const landMask = new LandMask(landPolygons as LandPolygonCollection, depthGrid as DepthGridData);
@@ -0,0 +1,232 @@
+import loadLineData from '../../data/navigation/load-line-zones.json';
+import { GeoPoint, distanceNm, interpolate } from './Geometry';
+import { pointInRing } from './LandMask';
+
+export type LoadLineZoneType = 'tropical' | 'summer' | 'winter' | 'winter_north_atlantic';
+
+export interface LoadLineZoneCollection {
+  features: Array<{
+    properties: {
+      id: string;
+      name: string;
+      winterNorthAtlantic: boolean;
+      seasons: Array<{ from: string; to: string; zone: string }>; // MM-DD, UTC
+    };
+    geometry: { type: 'Polygon'; coordinates: number[][][] };
+  }>;
+}
+
+// Load line particulars of a ship, from its specifications
+export interface LoadLineShip {
+  summerDraft: number; // meters, at the summer load line
+  lightDraft: number; // meters, with no cargo on board
+  cargoCapacity: number; // tons, deadweight available for cargo at the summer draft
+  length: number | null; // meters
+}
+
+export interface LoadLineZoneCrossing {
+  areaId: string | null; // null in the summer zone outside every seasonal area
+  name: string;
+  zone: LoadLineZoneType;
+  entry: GeoPoint; // where the route enters the zone, or the departure when it starts there
+  enteredAt: Date;
+  allowedDraft: number | null; // meters, null when the ship's summer draft is unknown
+  maxCargoWeight: number | null; // tons on board at the allowed draft
+}
+
+export interface LoadLineViolation extends LoadLineZoneCrossing {
+  plannedDraft: number; // meters
+  excessDraft: number; // meters
+  excessCargo: number | null; // tons to discharge, or not load, to sail the zone
+}
+
+export interface LoadLineCheck {
+  summerDraft: number | null; // meters
+  plannedDraft: number | null; // meters, held for the whole leg
+  draftEstimated: boolean; // plannedDraft comes from the cargo on board, no sailing draft was given
+  zones: LoadLineZoneCrossing[];
+  violations: LoadLineViolation[];
+}
+
+// ICLL Regulation 40: tropical and winter freeboards differ from summer by 1/48 of the summer draft,
+// and the Winter North Atlantic freeboard is 50 mm more than the winter one
+const SEASONAL_DRAFT_FRACTION = 1 / 48;
+const WINTER_NORTH_ATLANTIC_MARGIN_M = 0.05;
+
+// Only ships of this length or less have a Winter North Atlantic load line
+const WINTER_NORTH_ATLANTIC_MAX_LENGTH_M = 100;
+
+// Light-ship draft as a share of the summer draft, for ships that do not record one
+const DEFAULT_LIGHT_DRAFT_RATIO = 0.4;
+
+// Greatest distance between the points the route is checked at
+const SAMPLE_SPACING_NM = 10;
+
+interface LoadLineArea {
+  id: string;
+  name: string;
+  winterNorthAtlantic: boolean;
+  seasons: Array<{ from: string; to: string; zone: LoadLineZoneType }>;
+  ring: number[][];
+}
+
+/**
+ * Load line zones and seasonal areas, and the draft each allows a ship on a
+ * date. A route is checked at the time the ship reaches each part of it, so a
+ * passage that runs into a winter season is held to the winter load line from
+ * that day on. The planned draft is kept for the whole leg: fuel and stores
+ * burned on passage are not credited.
+ */
+export class LoadLineZones {
+  private areas: LoadLineArea[];
+
+  constructor(data: LoadLineZoneCollection) {
+    this.areas = data.features.map(feature => ({
+      id: feature.properties.id,
+      name: feature.properties.name,
+      winterNorthAtlantic: feature.properties.winterNorthAtlantic,
+      seasons: feature.properties.seasons.map(season => ({ ...season, zone: season.zone as LoadLineZoneType })),
+      ring: feature.geometry.coordinates[0]
+    }));
+  }
+
+  // Zone in force at a position on a date; the first listed area containing the position decides
+  zoneAt(point: GeoPoint, date: Date, length: number | null = null): { areaId: string | null; name: string; zone: LoadLineZoneType } {
+    const area = this.areas.find(candidate => pointInRing(point.longitude, point.latitude, candidate.ring));
+    if (!area) {
+      return { areaId: null, name: 'Summer Zone', zone: 'summer' };
+    }
+
+    const day = date.toISOString().slice(5, 10);
+    const season = area.seasons.find(candidate => candidate.from <= candidate.to
+      ? day >= candidate.from && day <= candidate.to
+      : day >= candidate.from || day <= candidate.to);
+    let zone: LoadLineZoneType = season ? season.zone : 'summer';
+    if (zone === 'winter' && area.winterNorthAtlantic && length !== null && length <= WINTER_NORTH_ATLANTIC_MAX_LENGTH_M) {
+      zone = 'winter_north_atlantic';
+    }
+    return { areaId: area.id, name: area.name, zone };
+  }
+
+  allowedDraft(summerDraft: number, zone: LoadLineZoneType): number {
+    switch (zone) {
+      case 'tropical':
+        return summerDraft * (1 + SEASONAL_DRAFT_FRACTION);
+      case 'winter':
+        return summerDraft * (1 - SEASONAL_DRAFT_FRACTION);
+      case 'winter_north_atlantic':
+        return summerDraft * (1 - SEASONAL_DRAFT_FRACTION) - WINTER_NORTH_ATLANTIC_MARGIN_M;
+      default:
+        return summerDraft;
+    }
+  }
+
+  // Draft with the cargo on board, taken as rising linearly from the light draft to the summer draft at full capacity
+  estimateDraft(ship: LoadLineShip, cargoWeight: number): number {
+    const loadFactor = ship.cargoCapacity > 0 ? Math.max(0, cargoWeight) / ship.cargoCapacity : 0;
+    return ship.lightDraft + (ship.summerDraft - ship.lightDraft) * loadFactor;
+  }
+
+  /**
+   * Load line zones the route enters, timed from the ETA at each waypoint,
+   * and those where the planned draft (or, without one, the draft estimated
+   * from the cargo on board) is deeper than the zone allows.
+   */
+  checkRoute(
+    waypoints: GeoPoint[],
+    etas: Date[],
+    ship: LoadLineShip | null,
+    cargoWeight: number,
+    plannedDraft: number | null = null
+  ): LoadLineCheck {
+    const draft = plannedDraft ?? (ship ? this.estimateDraft(ship, cargoWeight) : null);
+    const zones: LoadLineZoneCrossing[] = [];
+
+    for (const sample of this.samples(waypoints, etas)) {
+      const { areaId, name, zone } = this.zoneAt(sample.point, sample.time, ship ? ship.length : null);
+      const current = zones[zones.length - 1];
+      if (current && current.areaId === areaId && current.zone === zone) {
+        continue;
+      }
+
+      const allowedDraft = ship ? this.allowedDraft(ship.summerDraft, zone) : null;
+      zones.push({
+        areaId,
+        name,
+        zone,
+        entry: sample.point,
+        enteredAt: sample.time,
+        allowedDraft: allowedDraft !== null ? round(allowedDraft) : null,
+        maxCargoWeight: ship && allowedDraft !== null ? round(this.cargoAtDraft(ship, allowedDraft)) : null
+      });
+    }
+
+    const violations: LoadLineViolation[] = draft === null
+      ? []
+      : zones
+        .filter(crossing => crossing.allowedDraft !== null && round(draft) > crossing.allowedDraft)
+        .map(crossing => ({
+          ...crossing,
+          plannedDraft: round(draft),
+          excessDraft: round(draft - (crossing.allowedDraft as number)),
+          excessCargo: crossing.maxCargoWeight !== null ? round(Math.max(0, cargoWeight - crossing.maxCargoWeight)) : null
+        }));
+
+    return {
+      summerDraft: ship ? ship.summerDraft : null,
+      plannedDraft: draft !== null ? round(draft) : null,
+      draftEstimated: plannedDraft === null && draft !== null,
+      zones,
+      violations
+    };
+  }
+
+  private cargoAtDraft(ship: LoadLineShip, draft: number): number {
+    const range = ship.summerDraft - ship.lightDraft;
+    return range > 0 ? Math.max(0, ship.cargoCapacity * (draft - ship.lightDraft) / range) : 0;
+  }
+
+  // Waypoints and points between them at most SAMPLE_SPACING_NM apart, each timed between its waypoints' ETAs
+  private samples(waypoints: GeoPoint[], etas: Date[]): Array<{ point: GeoPoint; time: Date }> {
+    if (waypoints.length === 0) {
+      return [];
+    }
+
+    const samples = [{ point: waypoints[0], time: etas[0] }];
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const start = etas[i].getTime();
+      const end = (etas[i + 1] || etas[i]).getTime();
+      const steps = Math.max(1, Math.ceil(distanceNm(waypoints[i], waypoints[i + 1]) / SAMPLE_SPACING_NM));
+      for (let step = 1; step <= steps; step++) {
+        samples.push({
+          point: interpolate(waypoints[i], waypoints[i + 1], step / steps),
+          time: new Date(start + (end - start) * step / steps)
+        });
+      }
+    }
+    return samples;
+  }
+}
+
+// Load line particulars from a ship's specifications; null without a summer draft. A light
+// draft stored as lightDraft is used, otherwise DEFAULT_LIGHT_DRAFT_RATIO of the summer draft
+export function shipLoadLine(specifications: { [key: string]: unknown }): LoadLineShip | null {
+  const summerDraft = Number(specifications.draft);
+  if (!(summerDraft > 0)) {
+    return null;
+  }
+
+  const lightDraft = Number(specifications.lightDraft);
+  return {
+    summerDraft,
+    lightDraft: lightDraft > 0 && lightDraft < summerDraft ? lightDraft : summerDraft * DEFAULT_LIGHT_DRAFT_RATIO,
+    cargoCapacity: Number(specifications.cargoCapacity) || 0,
+    length: Number(specifications.length) || null
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const loadLineZones = new LoadLineZones(loadLineData as LoadLineZoneCollection);
@@ -0,0 +1,337 @@
+import portApproachData from '../../data/navigation/port-approaches.json';
+import { GeoPoint, distanceNm, toRadians } from './Geometry';
+
+export interface PortApproachCollection {
+  features: Array<{
+    properties: {
+      id: string;
+      name: string;
+      portCode: string; // UN/LOCODE
+      requiredUkc: number; // share of the static draft
+      speedLimit: number; // knots
+      tide: { meanLevel: number; constituents: Array<{ name: string; amplitude: number; phase: number }> };
+      sections: Array<{ name: string; depth: number; width: number | null }>; // one per coordinate
+    };
+    geometry: { type: 'LineString'; coordinates: number[][] };
+  }>;
+}
+
+// Hull particulars that decide squat
+export interface HullForm {
+  draft: number; // meters, on arrival
+  length: number; // meters
+  width: number; // meters
+  blockCoefficient: number;
+}
+
+export interface ApproachSection {
+  name: string;
+  position: GeoPoint;
+  depth: number; // meters below chart datum
+  width: number | null; // meters, null in open water
+  passingTime: Date;
+  tideHeight: number; // meters above chart datum
+  squat: number; // meters at the approach speed, or at the critical speed when critical
+  ukc: number; // meters under the keel at the approach speed, after squat
+  critical: boolean; // the approach speed is above the critical speed of open water this deep
+  requiredUkc: number; // meters
+  maxSpeed: number; // knots that keep the required clearance, 0 when the tide is too low at any speed
+}
+
+export interface TidalWindow {
+  opens: Date; // earliest arrival at the berth with the required clearance at MIN_APPROACH_SPEED_KN
+  closes: Date;
+  waitingTime: number; // hours after the planned arrival
+  maxApproachSpeed: number; // knots, when the window opens
+}
+
+export type UkcStatus = 'clear' | 'reduce_speed' | 'await_tide' | 'no_window';
+
+export interface UkcAssessment {
+  approachId: string;
+  name: string;
+  draft: number; // meters
+  blockCoefficient: number;
+  approachSpeed: number; // knots planned for the approach
+  arrivalTime: Date; // at the berth
+  sections: ApproachSection[];
+  minUkc: number; // meters, at the approach speed
+  maxApproachSpeed: number | null; // knots at the planned arrival, null below MIN_APPROACH_SPEED_KN
+  status: UkcStatus;
+  tidalWindow: TidalWindow | null; // set when the tide is too low at the planned arrival
+}
+
+// Block coefficient by ship type, for ships that do not record specifications.blockCoefficient
+const BLOCK_COEFFICIENTS: { [type: string]: number } = {
+  tanker: 0.82,
+  bulk_carrier: 0.82,
+  cargo: 0.7,
+  container: 0.65,
+  passenger: 0.62
+};
+
+const DEFAULT_BLOCK_COEFFICIENT = 0.75;
+
+// Slowest speed a ship keeps steerage way at in an approach
+const MIN_APPROACH_SPEED_KN = 5;
+
+// A port call this close to an approach's berth uses the approach
+const APPROACH_RADIUS_NM = 15;
+
+// Tidal windows are looked for over two tidal days after the planned arrival, in these steps
+const TIDAL_WINDOW_SEARCH_HOURS = 50;
+const TIDAL_WINDOW_STEP_MINUTES = 10;
+
+// Depth Froude number at which squat in open water grows without bound. Squat is
+// estimated at this Froude number for faster speeds, and no faster speed is safe
+const CRITICAL_DEPTH_FROUDE = 0.9;
+
+const GRAVITY = 9.81;
+const KNOT_MS = 1852 / 3600;
+
+// Degrees per hour of the tidal constituents used in the approach data
+const CONSTITUENT_SPEEDS: { [name: string]: number } = {
+  M2: 28.9841042,
+  S2: 30,
+  N2: 28.4397295,
+  K2: 30.0821373,
+  K1: 15.0410686,
+  O1: 13.9430356,
+  P1: 14.9589314
+};
+
+const TIDE_EPOCH = Date.UTC(2000, 0, 1);
+
+interface PortApproach {
+  id: string;
+  name: string;
+  portCode: string;
+  requiredUkc: number;
+  speedLimit: number;
+  tide: PortApproachCollection['features'][number]['properties']['tide'];
+  sections: Array<{ name: string; position: GeoPoint; depth: number; width: number | null; distanceToBerth: number }>;
+}
+
+/**
+ * Port approaches with their charted depths and tides, and the under-keel
+ * clearance of a ship sailing them. Squat is estimated with the ICORELS
+ * formula in open water and Barrass's formula in channels, from the ship's
+ * draft, length, width and block coefficient. Each section is passed at the
+ * time the approach speed puts the ship there before its arrival at the berth.
+ */
+export class PortApproaches {
+  private approaches: PortApproach[];
+
+  constructor(data: PortApproachCollection) {
+    this.approaches = data.features.map(feature => {
+      const points = feature.geometry.coordinates.map(([longitude, latitude]) => ({ latitude, longitude }));
+      const toBerth = points.map((_, index) => points.slice(index + 1)
+        .reduce((sum, point, offset) => sum + distanceNm(points[index + offset], point), 0));
+      return {
+        id: feature.properties.id,
+        name: feature.properties.name,
+        portCode: feature.properties.portCode,
+        requiredUkc: feature.properties.requiredUkc,
+        speedLimit: feature.properties.speedLimit,
+        tide: feature.properties.tide,
+        sections: feature.properties.sections.map((section, index) => ({
+          ...section,
+          position: points[index],
+          distanceToBerth: toBerth[index]
+        }))
+      };
+    });
+  }
+
+  // Approach to a port call, by its port code or by its position near the berth
+  private findApproach(call: { code?: string; latitude: number; longitude: number }): PortApproach | null {
+    const code = call.code?.toUpperCase();
+    return this.approaches.find(approach => code && approach.portCode === code) ||
+      this.approaches.find(approach =>
+        distanceNm(call, approach.sections[approach.sections.length - 1].position) <= APPROACH_RADIUS_NM) ||
+      null;
+  }
+
+  // Height of the tide above chart datum, in meters
+  private tideHeight(approach: PortApproach, date: Date): number {
+    const hours = (date.getTime() - TIDE_EPOCH) / 3600000;
+    return approach.tide.constituents.reduce((height, constituent) => {
+      const speed = CONSTITUENT_SPEEDS[constituent.name] || 0;
+      return height + constituent.amplitude * Math.cos(toRadians(speed * hours - constituent.phase));
+    }, approach.tide.meanLevel);
+  }
+
+  /**
+   * Under-keel clearance in each section of the approach to a port call,
+   * arriving at the berth at the given time and sailing the approach at the
+   * given speed (capped at the approach's speed limit). Recommends the highest
+   * speed that keeps the required clearance or, when the tide is too low even
+   * at steerage speed, the next tidal window. Null when the port has no
+   * approach on record.
+   */
+  assess(
+    call: { code?: string; latitude: number; longitude: number },
+    hull: HullForm,
+    speed: number,
+    arrivalTime: Date
+  ): UkcAssessment | null {
+    const approach = this.findApproach(call);
+    if (!approach) {
+      return null;
+    }
+
+    const approachSpeed = Math.min(speed, approach.speedLimit);
+    const requiredUkc = hull.draft * approach.requiredUkc;
+    const passing = (at: Date) => approach.sections.map(section => {
+      const passingTime = new Date(at.getTime() - section.distanceToBerth / Math.max(approachSpeed, MIN_APPROACH_SPEED_KN) * 3600000);
+      const tideHeight = this.tideHeight(approach, passingTime);
+      const waterDepth = section.depth + tideHeight;
+      const maxSpeed = maxSafeSpeed(hull, waterDepth, section.width, waterDepth - hull.draft - requiredUkc, approach.speedLimit);
+      return { section, passingTime, tideHeight, waterDepth, maxSpeed };
+    });
+    const safeSpeedAt = (at: Date): number => Math.min(...passing(at).map(item => item.maxSpeed));
+
+    const sections: ApproachSection[] = passing(arrivalTime).map(({ section, passingTime, tideHeight, waterDepth, maxSpeed }) => {
+      const sectionSquat = squat(hull, waterDepth, section.width, approachSpeed);
+      return {
+        name: section.name,
+        position: section.position,
+        depth: section.depth,
+        width: section.width,
+        passingTime,
+        tideHeight: round(tideHeight),
+        squat: round(sectionSquat),
+        ukc: round(waterDepth - hull.draft - sectionSquat),
+        critical: section.width === null && approachSpeed > criticalSpeed(waterDepth),
+        requiredUkc: round(requiredUkc),
+        maxSpeed: round(maxSpeed)
+      };
+    });
+
+    const maxApproachSpeed = safeSpeedAt(arrivalTime);
+    let status: UkcStatus = 'clear';
+    let tidalWindow: TidalWindow | null = null;
+    if (maxApproachSpeed < MIN_APPROACH_SPEED_KN) {
+      tidalWindow = this.tidalWindow(arrivalTime, safeSpeedAt);
+      status = tidalWindow ? 'await_tide' : 'no_window';
+    } else if (maxApproachSpeed < approachSpeed) {
+      status = 'reduce_speed';
+    }
+
+    return {
+      approachId: approach.id,
+      name: approach.name,
+      draft: hull.draft,
+      blockCoefficient: hull.blockCoefficient,
+      approachSpeed: round(approachSpeed),
+      arrivalTime,
+      sections,
+      minUkc: Math.min(...sections.map(section => section.ukc)),
+      maxApproachSpeed: maxApproachSpeed >= MIN_APPROACH_SPEED_KN ? round(maxApproachSpeed) : null,
+      status,
+      tidalWindow
+    };
+  }
+
+  // First stretch after the planned arrival in which the whole approach can be sailed at steerage speed or faster
+  private tidalWindow(arrivalTime: Date, safeSpeedAt: (at: Date) => number): TidalWindow | null {
+    const step = TIDAL_WINDOW_STEP_MINUTES * 60000;
+    const end = arrivalTime.getTime() + TIDAL_WINDOW_SEARCH_HOURS * 3600000;
+    let opens: Date | null = null;
+    let closes: Date | null = null;
+    for (let time = arrivalTime.getTime() + step; time <= end; time += step) {
+      const open = safeSpeedAt(new Date(time)) >= MIN_APPROACH_SPEED_KN;
+      if (open && !opens) {
+        opens = new Date(time);
+      }
+      if (opens && !open) {
+        break;
+      }
+      if (open) {
+        closes = new Date(time);
+      }
+    }
+
+    if (!opens || !closes) {
+      return null;
+    }
+    return {
+      opens,
+      closes,
+      waitingTime: round((opens.getTime() - arrivalTime.getTime()) / 3600000),
+      maxApproachSpeed: round(safeSpeedAt(opens))
+    };
+  }
+}
+
+// Hull form from a ship's specifications; null without a draft, length and width
+export function shipHullForm(specifications: { [key: string]: unknown }, shipType: string, draft: number | null): HullForm | null {
+  const length = Number(specifications.length);
+  const width = Number(specifications.width);
+  const blockCoefficient = Number(specifications.blockCoefficient);
+  if (!(draft && draft > 0 && length > 0 && width > 0)) {
+    return null;
+  }
+
+  return {
+    draft,
+    length,
+    width,
+    blockCoefficient: blockCoefficient > 0 && blockCoefficient < 1
+      ? blockCoefficient
+      : BLOCK_COEFFICIENTS[shipType] || DEFAULT_BLOCK_COEFFICIENT
+  };
+}
+
+// Squat in meters: ICORELS in open water, Barrass in a channel, where the ship
+// blocks a larger share of the cross-section than its width of influence in open water
+function squat(hull: HullForm, waterDepth: number, channelWidth: number | null, speed: number): number {
+  if (speed <= 0) {
+    return 0;
+  }
+
+  if (channelWidth === null) {
+    const depthFroude = Math.min(speed * KNOT_MS / Math.sqrt(GRAVITY * waterDepth), CRITICAL_DEPTH_FROUDE);
+    const displacement = hull.blockCoefficient * hull.length * hull.width * hull.draft;
+    return 2.4 * displacement / (hull.length * hull.length) * depthFroude * depthFroude / Math.sqrt(1 - depthFroude * depthFroude);
+  }
+
+  const effectiveWidth = Math.min(channelWidth, 7.04 / Math.pow(hull.blockCoefficient, 0.85) * hull.width);
+  const blockage = Math.min(1, (hull.width * hull.draft) / (effectiveWidth * waterDepth));
+  return hull.blockCoefficient * Math.pow(blockage, 0.81) * Math.pow(speed, 2.08) / 20;
+}
+
+// Speed in knots at the critical depth Froude number
+function criticalSpeed(waterDepth: number): number {
+  return CRITICAL_DEPTH_FROUDE * Math.sqrt(GRAVITY * Math.max(waterDepth, 0)) / KNOT_MS;
+}
+
+// Highest speed up to the limit, and up to the critical speed in open water, whose squat fits
+// the clearance allowed for it; squat grows with speed
+function maxSafeSpeed(hull: HullForm, waterDepth: number, channelWidth: number | null, allowedSquat: number, speedLimit: number): number {
+  if (allowedSquat <= 0) {
+    return 0;
+  }
+  const limit = channelWidth === null ? Math.min(speedLimit, criticalSpeed(waterDepth)) : speedLimit;
+  if (squat(hull, waterDepth, channelWidth, limit) <= allowedSquat) {
+    return limit;
+  }
+
+  let low = 0;
+  let high = limit;
+  for (let i = 0; i < 30; i++) {
+    const middle = (low + high) / 2;
+    if (squat(hull, waterDepth, channelWidth, middle) <= allowedSquat) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const portApproaches = new PortApproaches(portApproachData as PortApproachCollection);
@@ -0,0 +1,255 @@
+import { GeoPoint } from './Geometry';
+
+export interface ExchangeWaypoint extends GeoPoint {
+  name: string;
+  leg: number; // voyage leg the waypoint belongs to; a port call ends one leg and starts the next
+  eta: Date | null;
+  speed: number | null; // knots planned on the way to this waypoint, null at the first
+  xtd: number | null; // nautical miles allowed to either side on the way to this waypoint
+}
+
+export interface ExchangeRoute {
+  name: string;
+  vessel?: { name: string; imoNumber: string | null; mmsi: string | null };
+  waypoints: ExchangeWaypoint[];
+}
+
+export interface RtzImport {
+  routeName: string;
+  vesselMmsi: string | null;
+  vesselImo: string | null;
+  waypoints: Array<GeoPoint & { name: string | null; speed: number | null; xtd: number | null }>;
+  departureTime: Date | null; // from the first waypoint of the first schedule
+}
+
+export type RtzImportResult =
+  | { route: RtzImport; errors: [] }
+  | { route: null; errors: string[] };
+
+export type RouteExportFormat = 'rtz' | 'gpx' | 'geojson';
+
+export const ROUTE_EXPORT_FORMATS: RouteExportFormat[] = ['rtz', 'gpx', 'geojson'];
+
+const RTZ_NAMESPACE = 'http://www.cirm.org/RTZ/1/0';
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const CREATOR = 'Maritime Voyage Planner';
+
+/**
+ * Reads and writes routes in the formats other tools exchange them in: IEC
+ * 61174 RTZ 1.0 for bridge ECDIS, GPX 1.1 for shore tools, and GeoJSON.
+ * Legs are great-circle (orthodrome), as the planner measures them.
+ */
+export class RouteExchange {
+  toRtz(route: ExchangeRoute): string {
+    const info = attributes({
+      routeName: route.name,
+      vesselName: route.vessel?.name,
+      vesselMMSI: route.vessel?.mmsi,
+      vesselIMO: route.vessel?.imoNumber
+    });
+    const waypoints = route.waypoints.map((point, index) => {
+      const leg = index === 0 ? '' : `\n      <leg${attributes({
+        starboardXTD: point.xtd,
+        portsideXTD: point.xtd,
+        geometryType: 'Orthodrome',
+        speedMax: point.speed
+      })}/>`;
+      return `    <waypoint${attributes({ id: index + 1, name: point.name })}>\n` +
+        `      <position${attributes({ lat: coordinate(point.latitude), lon: coordinate(point.longitude) })}/>${leg}\n` +
+        '    </waypoint>';
+    });
+    const schedule = route.waypoints.some(point => point.eta)
+      ? '\n  <schedules>\n    <schedule id="1" name="Planned">\n      <calculated>\n' +
+        route.waypoints.map((point, index) => `        <scheduleElement${attributes({
+          waypointId: index + 1,
+          eta: index > 0 ? point.eta?.toISOString() : undefined,
+          etd: index === 0 ? point.eta?.toISOString() : undefined,
+          speed: point.speed
+        })}/>`).join('\n') +
+        '\n      </calculated>\n    </schedule>\n  </schedules>'
+      : '';
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      `<route xmlns="${RTZ_NAMESPACE}" version="1.0">\n` +
+      `  <routeInfo${info}/>\n` +
+      `  <waypoints>\n${waypoints.join('\n')}\n  </waypoints>${schedule}\n` +
+      '</route>\n';
+  }
+
+  toGpx(route: ExchangeRoute): string {
+    const segments = groupByLeg(route.waypoints).map(points =>
+      '    <trkseg>\n' +
+      points.map(point => `      <trkpt${attributes({ lat: coordinate(point.latitude), lon: coordinate(point.longitude) })}>` +
+        (point.eta ? `<time>${point.eta.toISOString()}</time>` : '') +
+        `<name>${escapeXml(point.name)}</name></trkpt>`).join('\n') +
+      '\n    </trkseg>'
+    );
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      `<gpx xmlns="${GPX_NAMESPACE}" version="1.1" creator="${CREATOR}">\n` +
+      `  <metadata><name>${escapeXml(route.name)}</name><time>${new Date().toISOString()}</time></metadata>\n` +
+      `  <trk>\n    <name>${escapeXml(route.name)}</name>\n${segments.join('\n')}\n  </trk>\n` +
+      '</gpx>\n';
+  }
+
+  // One line per voyage leg, split at the antimeridian, and a point per named waypoint
+  toGeoJson(route: ExchangeRoute): object {
+    const legs = groupByLeg(route.waypoints).map(points => {
+      const lines = splitAtAntimeridian(points);
+      return {
+        type: 'Feature',
+        geometry: lines.length === 1
+          ? { type: 'LineString', coordinates: lines[0] }
+          : { type: 'MultiLineString', coordinates: lines },
+        properties: {
+          leg: points[0].leg,
+          from: points[0].name,
+          to: points[points.length - 1].name,
+          departureTime: points[0].eta?.toISOString() || null,
+          arrivalTime: points[points.length - 1].eta?.toISOString() || null,
+          speeds: points.slice(1).map(point => point.speed),
+          xtd: points[points.length - 1].xtd
+        }
+      };
+    });
+    const waypoints = route.waypoints.map((point, index) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [round(point.longitude), round(point.latitude)] },
+      properties: { id: index + 1, name: point.name, leg: point.leg, eta: point.eta?.toISOString() || null, speed: point.speed }
+    }));
+
+    return { type: 'FeatureCollection', name: route.name, features: [...legs, ...waypoints] };
+  }
+
+  parseRtz(xml: string): RtzImportResult {
+    const errors: string[] = [];
+    if (!/<(?:\w+:)?route[\s>]/.test(xml)) {
+      return { route: null, errors: ['Not an RTZ route document'] };
+    }
+
+    const info = parseAttributes(xml.match(/<(?:\w+:)?routeInfo\b([^>]*)>/)?.[1] || '');
+    const schedule = new Map<string, Record<string, string>>();
+    const firstSchedule = xml.match(/<(?:\w+:)?schedule\b[^>]*>([\s\S]*?)<\/(?:\w+:)?schedule>/);
+    for (const match of (firstSchedule?.[1] || '').matchAll(/<(?:\w+:)?scheduleElement\b([^>]*)>/g)) {
+      const element = parseAttributes(match[1]);
+      if (element.waypointId && !schedule.has(element.waypointId)) {
+        schedule.set(element.waypointId, element);
+      }
+    }
+
+    const waypoints: RtzImport['waypoints'] = [];
+    let departureTime: Date | null = null;
+    for (const [index, match] of [...xml.matchAll(/<(?:\w+:)?waypoint\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?waypoint>/g)].entries()) {
+      const waypoint = parseAttributes(match[1]);
+      const position = parseAttributes(match[2].match(/<(?:\w+:)?position\b([^>]*)>/)?.[1] || '');
+      const leg = parseAttributes(match[2].match(/<(?:\w+:)?leg\b([^>]*)>/)?.[1] || '');
+      const latitude = Number(position.lat);
+      const longitude = Number(position.lon);
+      if (!position.lat || !position.lon || Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || Number.isNaN(latitude + longitude)) {
+        errors.push(`Waypoint ${waypoint.id || index + 1} has no valid position`);
+        continue;
+      }
+
+      const timing = schedule.get(waypoint.id) || {};
+      const speed = Number(timing.speed) || Number(leg.speedMax) || null;
+      const xtd = Math.max(Number(leg.portsideXTD) || 0, Number(leg.starboardXTD) || 0) || null;
+      if (index === 0 && (timing.etd || timing.eta)) {
+        const time = new Date(timing.etd || timing.eta);
+        departureTime = Number.isNaN(time.getTime()) ? null : time;
+      }
+      waypoints.push({ latitude, longitude, name: waypoint.name || null, speed: index === 0 ? null : speed, xtd: index === 0 ? null : xtd });
+    }
+
+    if (errors.length === 0 && waypoints.length < 2) {
+      errors.push('Route needs at least two waypoints');
+    }
+    if (errors.length > 0) {
+      return { route: null, errors };
+    }
+
+    return {
+      route: {
+        routeName: info.routeName || 'Imported route',
+        vesselMmsi: info.vesselMMSI || null,
+        vesselImo: info.vesselIMO || null,
+        waypoints,
+        departureTime
+      },
+      errors: []
+    };
+  }
+}
+
+// Consecutive waypoints of the same leg, each group starting at the waypoint that ended the previous one
+function groupByLeg(waypoints: ExchangeWaypoint[]): ExchangeWaypoint[][] {
+  const groups: ExchangeWaypoint[][] = [];
+  waypoints.forEach((point, index) => {
+    if (index === 0 || (index > 1 && point.leg !== waypoints[index - 1].leg)) {
+      groups.push(index > 0 ? [waypoints[index - 1], point] : [point]);
+    } else {
+      groups[groups.length - 1].push(point);
+    }
+  });
+  return groups;
+}
+
+// GeoJSON positions, starting a new line where a segment crosses 180 degrees
+function splitAtAntimeridian(points: GeoPoint[]): number[][][] {
+  const lines: number[][][] = [[[round(points[0].longitude), round(points[0].latitude)]]];
+  points.slice(1).forEach((point, index) => {
+    const previous = points[index];
+    const deltaLon = point.longitude - previous.longitude;
+    if (Math.abs(deltaLon) > 180) {
+      const edge = previous.longitude > 0 ? 180 : -180;
+      const span = 360 - Math.abs(deltaLon);
+      const latitude = previous.latitude + (point.latitude - previous.latitude) * (Math.abs(edge - previous.longitude) / span);
+      lines[lines.length - 1].push([edge, round(latitude)]);
+      lines.push([[-edge, round(latitude)]]);
+    }
+    lines[lines.length - 1].push([round(point.longitude), round(point.latitude)]);
+  });
+  return lines;
+}
+
+function attributes(values: { [name: string]: string | number | null | undefined }): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    result[match[1].replace(/^\w+:/, '')] = unescapeXml(match[2] ?? match[3]);
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function coordinate(value: number): string {
+  return value.toFixed(6);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+export const routeExchange = new RouteExchange();
@@ -0,0 +1,437 @@
+import { logger } from '../../utils/logger';
+import { GeoPoint, compositeSailing, distanceNm } from './Geometry';
+import {
+  waypointSearch,
+  SegmentWeather,
+  WaypointSearchPreferences,
+  WaypointSearchResult,
+  RouteLeg,
+  SearchLink,
+  MIN_GRID_RESOLUTION
+} from './WaypointSearch';
+import { landMask, NavigationHazard, SegmentCheckOptions } from './LandMask';
+import { emissionControlAreas } from './EmissionControlAreas';
+import {
+  chokepointCatalogue,
+  Chokepoint,
+  ChokepointPreferences,
+  ChokepointTransit,
+  ShipDimensions
+} from './Chokepoints';
+import { ExclusionZoneArea, ExclusionZoneMap } from './ExclusionZones';
+import { iceLimits } from './IceLimits';
+
+export interface RoutePlanRequest {
+  origin: GeoPoint;
+  destination: GeoPoint;
+  draft?: number | null; // meters
+  length?: number | null; // meters, checked against chokepoint limits
+  width?: number | null; // meters, checked against chokepoint limits
+  speed?: number; // knots, converts chokepoint delays into route cost
+  chokepoints?: ChokepointPreferences;
+  // ECA fuel price relative to open-sea fuel; when set, routes trade extra distance for less ECA fuel
+  ecaFuelPriceRatio?: number;
+  departureTime?: Date | null; // decides which ECAs are in force, today when omitted
+  // Zones in force for the voyage: prohibited ones are never entered, the others make routes through them costlier
+  exclusionZones?: ExclusionZoneArea[];
+  preferences?: WaypointSearchPreferences;
+  weatherAt?: (point: GeoPoint) => SegmentWeather;
+  // Degrees north or south the route must not go beyond; great circles reaching past it become composite sailings
+  latitudeLimit?: number | null;
+  // Ship's ice class; ice in force at the departure time is routed around or through by its rules
+  iceClass?: string | null;
+}
+
+export interface ChokepointPassage {
+  chokepoint: Chokepoint;
+  distanceFromOrigin: number; // nautical miles sailed before entering
+}
+
+export interface PlannedRoute extends WaypointSearchResult {
+  passages: ChokepointPassage[];
+}
+
+export interface RoutePlan {
+  waypoints: GeoPoint[];
+  distance: number; // nautical miles
+  repaired: boolean; // true when the direct route was replaced by a searched one
+  hazard: NavigationHazard | null; // what blocked the direct route
+  passages: ChokepointPassage[];
+}
+
+// Ports sit inside the coarse coastline; land and shallows this close to either end are tolerated
+export const APPROACH_RADIUS_NM = 50;
+
+const NEUTRAL_PREFERENCES: WaypointSearchPreferences = {
+  prioritizeFuel: false,
+  prioritizeTime: false,
+  avoidRoughSeas: false
+};
+
+const CALM_WEATHER: SegmentWeather = { windSpeed: 0, waveHeight: 0 };
+
+// Service speed assumed when pricing chokepoint delays without a ship speed
+const DEFAULT_SPEED_KNOTS = 14;
+
+export class RoutePlanner {
+  /**
+   * Plan a route that avoids land and water shallower than the draft. The direct
+   * route is kept when it is clear, otherwise it is repaired with a grid search.
+   */
+  plan(request: RoutePlanRequest): { plan: RoutePlan | null; issues: string[] } {
+    const issues = [...this.checkEndpoints(request), ...this.checkChokepoints(request)];
+    if (issues.length > 0) {
+      return { plan: null, issues };
+    }
+
+    // Direct routes through a chokepoint or an exclusion zone are searched too, so limits and zone costs apply
+    const { waypoints, distance } = this.directRoute(request);
+    const zones = this.zoneMap(request);
+    let hazard: NavigationHazard | null = null;
+    for (let i = 0; i < waypoints.length - 1 && !hazard; i++) {
+      hazard = landMask.findSegmentHazard(waypoints[i], waypoints[i + 1], this.segmentOptions(request));
+    }
+    const direct = !hazard &&
+      !(request.chokepoints?.force || []).length &&
+      waypoints.every((point, index) => index === 0 ||
+        chokepointCatalogue.isSegmentClear(waypoints[index - 1], point, [request.origin, request.destination], APPROACH_RADIUS_NM)) &&
+      this.isPathClear(waypoints, zones);
+    if (direct) {
+      return {
+        plan: {
+          waypoints,
+          distance,
+          repaired: false,
+          hazard: null,
+          passages: []
+        },
+        issues: []
+      };
+    }
+
+    const route = this.findWaypoints(request);
+    if (!route) {
+      return {
+        plan: null,
+        issues: [
+          (hazard ? `Direct route crosses ${this.describeHazard(hazard)} and no` : 'No') +
+          ' navigable alternative was found' +
+          (request.draft ? ` for a draft of ${request.draft} m` : '')
+        ]
+      };
+    }
+
+    logger.info('Direct route repaired', {
+      hazard: hazard?.type,
+      hazardName: hazard?.name,
+      chokepoints: route.passages.map(passage => passage.chokepoint.id),
+      waypointCount: route.waypoints.length
+    });
+
+    return {
+      plan: {
+        waypoints: route.waypoints,
+        distance: route.totalDistance,
+        repaired: true,
+        hazard,
+        passages: route.passages
+      },
+      issues: []
+    };
+  }
+
+  /**
+   * Grid search restricted to navigable water, with the usable chokepoints as
+   * fixed passages. Forced chokepoints split the search into consecutive legs.
+   */
+  findWaypoints(request: RoutePlanRequest): PlannedRoute | null {
+    const forced = (request.chokepoints?.force || [])
+      .map(id => chokepointCatalogue.findById(id))
+      .filter((chokepoint): chokepoint is Chokepoint => chokepoint !== undefined);
+    const links = this.searchLinks(request, forced);
+
+    const sections: WaypointSearchResult[] = [];
+    const searched: WaypointSearchResult[] = [];
+    let current = request.origin;
+    for (const chokepoint of forced) {
+      // Enter at whichever end is closer to where the previous section finished
+      const path = distanceNm(current, chokepoint.path[0]) <= distanceNm(current, chokepoint.path[chokepoint.path.length - 1])
+        ? chokepoint.path
+        : [...chokepoint.path].reverse();
+
+      const approach = this.searchSection(current, path[0], request, links);
+      if (!approach) {
+        return null;
+      }
+      searched.push(approach);
+      sections.push(approach, this.passageSection(chokepoint, path, request));
+      current = path[path.length - 1];
+    }
+
+    const final = this.searchSection(current, request.destination, request, links);
+    if (!final) {
+      return null;
+    }
+    searched.push(final);
+    sections.push(final);
+
+    const legs = sections.flatMap(section => section.legs);
+    return {
+      waypoints: sections.reduce<GeoPoint[]>(
+        (waypoints, section) => [...waypoints, ...section.waypoints.slice(waypoints.length > 0 ? 1 : 0)], []
+      ),
+      legs,
+      totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      cost: sections.reduce((sum, section) => sum + section.cost, 0),
+      gridResolution: Math.min(...searched.map(section => section.gridResolution)),
+      expandedNodes: searched.reduce((sum, section) => sum + section.expandedNodes, 0),
+      passages: this.findPassages(legs)
+    };
+  }
+
+  /**
+   * Delays and tolls for each passage, in order. Entry times follow from the
+   * departure time, the distance sailed and the delays at earlier passages.
+   */
+  estimateTransits(
+    passages: ChokepointPassage[],
+    ship: ShipDimensions,
+    speed: number,
+    departureTime?: Date | null
+  ): ChokepointTransit[] {
+    const transits: ChokepointTransit[] = [];
+    let delay = 0;
+
+    for (const passage of passages) {
+      const entryTime = departureTime
+        ? new Date(departureTime.getTime() + (passage.distanceFromOrigin / speed + delay) * 3600000)
+        : null;
+      const transit = chokepointCatalogue.estimateTransit(passage.chokepoint, ship, speed, entryTime);
+      transits.push(transit);
+      delay += transit.delay;
+    }
+
+    return transits;
+  }
+
+  // Unknown ids, contradictory preferences and forced passages the ship does not fit
+  checkChokepoints(request: RoutePlanRequest): string[] {
+    const issues: string[] = [];
+    const { force = [], forbid = [] } = request.chokepoints || {};
+
+    for (const id of [...force, ...forbid]) {
+      if (!chokepointCatalogue.findById(id)) {
+        issues.push(`Unknown chokepoint: ${id}`);
+      }
+    }
+
+    for (const id of force) {
+      const chokepoint = chokepointCatalogue.findById(id);
+      if (!chokepoint) {
+        continue;
+      }
+      if (forbid.includes(id)) {
+        issues.push(`${chokepoint.name} cannot be both forced and forbidden`);
+      }
+      issues.push(...chokepointCatalogue.checkShip(chokepoint, this.shipDimensions(request)));
+      if (!this.isPathAllowed(chokepoint.path, this.zoneMap(request))) {
+        issues.push(`${chokepoint.name} lies in a prohibited exclusion zone`);
+      }
+    }
+
+    return issues;
+  }
+
+  // Refine the grid when narrow passages defeat the coarse resolution
+  private searchSection(
+    origin: GeoPoint,
+    destination: GeoPoint,
+    request: RoutePlanRequest,
+    links: SearchLink[]
+  ): WaypointSearchResult | null {
+    const segmentOptions = this.segmentOptions(request);
+    const weather = request.weatherAt || ((): SegmentWeather => CALM_WEATHER);
+    const ignoreNear = [request.origin, request.destination];
+    const ecaDate = request.departureTime || new Date();
+    const ecaFuelPriceRatio = request.ecaFuelPriceRatio;
+    const fuelPriceAt = ecaFuelPriceRatio
+      ? (point: GeoPoint): number => (emissionControlAreas.findZoneAt(point, ecaDate) ? ecaFuelPriceRatio : 1)
+      : undefined;
+    const zones = this.zoneMap(request);
+
+    let resolution = waypointSearch.defaultGridResolution(origin, destination);
+    for (;;) {
+      const route = waypointSearch.findRoute(origin, destination, {
+        preferences: request.preferences || NEUTRAL_PREFERENCES,
+        weatherAt: weather,
+        isNavigable: (from, to) =>
+          this.isWithinLatitudeLimit(from, to, request) &&
+          landMask.isSegmentNavigable(from, to, segmentOptions) &&
+          chokepointCatalogue.isSegmentClear(from, to, ignoreNear, APPROACH_RADIUS_NM) &&
+          zones.isSegmentAllowed(from, to),
+        fuelPriceAt,
+        costFactorAt: zones.isEmpty() ? undefined : (point: GeoPoint): number => zones.costFactorAt(point),
+        gridResolution: resolution,
+        links
+      });
+
+      if (route || resolution <= MIN_GRID_RESOLUTION) {
+        return route;
+      }
+      resolution = Math.max(MIN_GRID_RESOLUTION, Math.floor(resolution / 2 / MIN_GRID_RESOLUTION) * MIN_GRID_RESOLUTION);
+    }
+  }
+
+  // Chokepoints the search may route through: not forbidden, not already forced, the ship fits and no prohibited zone
+  private searchLinks(request: RoutePlanRequest, forced: Chokepoint[]): SearchLink[] {
+    const forbid = request.chokepoints?.forbid || [];
+    const speed = request.speed || DEFAULT_SPEED_KNOTS;
+    const ship = this.shipDimensions(request);
+    const zones = this.zoneMap(request);
+
+    return chokepointCatalogue.list()
+      .filter(chokepoint =>
+        !forbid.includes(chokepoint.id) &&
+        !forced.includes(chokepoint) &&
+        chokepointCatalogue.checkShip(chokepoint, ship).length === 0 &&
+        this.isPathAllowed(chokepoint.path, zones)
+      )
+      .map(chokepoint => ({
+        id: chokepoint.id,
+        path: chokepoint.path,
+        cost: this.passageCost(chokepoint, speed, zones)
+      }));
+  }
+
+  private passageSection(chokepoint: Chokepoint, path: GeoPoint[], request: RoutePlanRequest): WaypointSearchResult {
+    const legs: RouteLeg[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+      legs.push({
+        from: path[i],
+        to: path[i + 1],
+        distance: distanceNm(path[i], path[i + 1]),
+        speedLoss: 0,
+        fuelFactor: 1,
+        roughness: 0,
+        linkId: chokepoint.id
+      });
+    }
+
+    return {
+      waypoints: path,
+      legs,
+      totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      cost: this.passageCost(chokepoint, request.speed || DEFAULT_SPEED_KNOTS, this.zoneMap(request)),
+      gridResolution: 0,
+      expandedNodes: 0
+    };
+  }
+
+  // Path distance plus the expected delay expressed as distance sailed in that time, scaled up inside soft zones
+  private passageCost(chokepoint: Chokepoint, speed: number, zones: ExclusionZoneMap): number {
+    const costFactor = Math.max(...chokepoint.path.map(point => zones.costFactorAt(point)));
+    return (chokepointCatalogue.pathDistance(chokepoint) + chokepointCatalogue.expectedDelay(chokepoint, speed) * speed) * costFactor;
+  }
+
+  private isPathAllowed(path: GeoPoint[], zones: ExclusionZoneMap): boolean {
+    return path.every((point, index) => index === 0 || zones.isSegmentAllowed(path[index - 1], point));
+  }
+
+  private isPathClear(path: GeoPoint[], zones: ExclusionZoneMap): boolean {
+    return path.every((point, index) => index === 0 || zones.isSegmentClear(path[index - 1], point));
+  }
+
+  // Great circle, or the composite sailing when it reaches beyond the latitude limit
+  private directRoute(request: RoutePlanRequest): { waypoints: GeoPoint[]; distance: number } {
+    if (request.latitudeLimit) {
+      const sailing = compositeSailing(request.origin, request.destination, request.latitudeLimit);
+      if (sailing.limited) {
+        return { waypoints: sailing.waypoints, distance: sailing.distance };
+      }
+    }
+    return {
+      waypoints: [request.origin, request.destination],
+      distance: distanceNm(request.origin, request.destination)
+    };
+  }
+
+  // Ports beyond the limit still have to be reached, so the limit widens to take them in
+  private isWithinLatitudeLimit(from: GeoPoint, to: GeoPoint, request: RoutePlanRequest): boolean {
+    if (!request.latitudeLimit) {
+      return true;
+    }
+    const limit = Math.max(
+      Math.abs(request.latitudeLimit),
+      Math.abs(request.origin.latitude),
+      Math.abs(request.destination.latitude)
+    );
+    return Math.abs(from.latitude) <= limit && Math.abs(to.latitude) <= limit;
+  }
+
+  private zoneMap(request: RoutePlanRequest): ExclusionZoneMap {
+    return new ExclusionZoneMap([
+      ...(request.exclusionZones || []),
+      ...iceLimits.zoneAreas(request.iceClass, request.departureTime || new Date())
+    ]);
+  }
+
+  private findPassages(legs: RouteLeg[]): ChokepointPassage[] {
+    const passages: ChokepointPassage[] = [];
+    let distance = 0;
+
+    legs.forEach((leg, index) => {
+      if (leg.linkId && leg.linkId !== legs[index - 1]?.linkId) {
+        passages.push({ chokepoint: chokepointCatalogue.findById(leg.linkId) as Chokepoint, distanceFromOrigin: distance });
+      }
+      distance += leg.distance;
+    });
+
+    return passages;
+  }
+
+  private shipDimensions(request: RoutePlanRequest): ShipDimensions {
+    return { length: request.length, width: request.width, draft: request.draft };
+  }
+
+  private checkEndpoints(request: RoutePlanRequest): string[] {
+    const issues: string[] = [];
+    const endpoints: Array<[string, GeoPoint]> = [['Origin', request.origin], ['Destination', request.destination]];
+
+    const zones = new ExclusionZoneMap(request.exclusionZones || []);
+    const ice = new ExclusionZoneMap(iceLimits.zoneAreas(request.iceClass, request.departureTime || new Date()));
+
+    for (const [label, point] of endpoints) {
+      if (!landMask.findNearestNavigablePoint(point, APPROACH_RADIUS_NM, request.draft)) {
+        issues.push(
+          `${label} is more than ${APPROACH_RADIUS_NM} nm from navigable water` +
+          (request.draft ? ` for a draft of ${request.draft} m` : '')
+        );
+      }
+      for (const zone of zones.findZonesAt(point).filter(item => item.severity === 'prohibited')) {
+        issues.push(`${label} lies in the prohibited exclusion zone ${zone.name}`);
+      }
+      for (const zone of ice.findZonesAt(point).filter(item => item.severity === 'prohibited')) {
+        issues.push(`${label} lies in ice (${zone.name}) that ice class ${request.iceClass || 'None'} may not enter`);
+      }
+    }
+
+    return issues;
+  }
+
+  private segmentOptions(request: RoutePlanRequest): SegmentCheckOptions {
+    return {
+      draft: request.draft,
+      ignoreNear: [request.origin, request.destination],
+      ignoreRadius: APPROACH_RADIUS_NM
+    };
+  }
+
+  private describeHazard(hazard: NavigationHazard): string {
+    const position = `${hazard.position.latitude.toFixed(2)}, ${hazard.position.longitude.toFixed(2)}`;
+    return hazard.type === 'land'
+      ? `land (${hazard.name}) at ${position}`
+      : `shallow water (${hazard.name}, ${hazard.depth} m) at ${position}`;
+  }
+}
+
+export const routePlanner = new RoutePlanner();
@@ -0,0 +1,200 @@
+import { GeoPoint } from './Geometry';
+
+export interface ArrivalWindow {
+  earliest: Date; // berth available from
+  latest: Date; // berth slot lost after
+}
+
+export interface SpeedProfileLegInput {
+  from: GeoPoint;
+  to: GeoPoint;
+  distance: number; // nautical miles
+  speedLoss?: number; // fraction of speed through water lost to wind and waves (0-0.5)
+  fuelFactor?: number; // multiplier on calm-water consumption
+}
+
+export interface SailingRequest {
+  legs: SpeedProfileLegInput[];
+  departureTime: Date;
+  // Time not spent sailing (canal waits and slow transits), placed at the distance where it occurs
+  delays?: Array<{ distanceFromOrigin: number; hours: number }>;
+  // Main engine fuel in kg for sailing the hours at a speed; hourly consumption must grow with the cube of the speed
+  fuelConsumption: (speed: number, hours: number) => number;
+}
+
+export interface SpeedProfileRequest extends SailingRequest {
+  arrivalWindow: ArrivalWindow;
+  maxSpeed: number; // knots
+  minSpeed?: number; // knots, slowest sustained speed; 40% of maxSpeed when omitted
+  safetyMargin?: number; // hours kept before the end of the window, default 2
+}
+
+export interface SpeedProfileLeg {
+  from: GeoPoint;
+  to: GeoPoint;
+  distance: number; // nautical miles
+  speed: number; // knots through the water
+  speedOverGround: number; // knots after weather speed loss
+  delay: number; // hours waited before sailing the leg
+  duration: number; // hours sailing
+  fuel: number; // kg
+  eta: string; // ISO timestamp at the end of the leg
+}
+
+export interface SpeedProfile {
+  legs: SpeedProfileLeg[];
+  departureTime: string;
+  targetArrival: string; // ISO timestamp aimed for inside the window
+  arrivalTime: string; // ISO timestamp at the end of the route
+  berthingTime: string; // ISO timestamp, the arrival or the window opening, whichever is later
+  waitingTime: number; // hours at anchor before the window opens
+  lateness: number; // hours after the window closes, 0 when on time
+  feasible: boolean; // false when even maxSpeed misses the window
+  totalFuel: number; // kg
+  constantSpeedFuel: number; // kg for the same sailing time at one constant speed
+  fuelSaving: number; // kg saved against constantSpeedFuel
+}
+
+const DEFAULT_MIN_SPEED_RATIO = 0.4;
+const DEFAULT_SAFETY_MARGIN_HOURS = 2;
+const BISECTION_STEPS = 60;
+
+/**
+ * Just-in-time arrival: the per-leg speeds that burn the least fuel while
+ * reaching the berth inside its window.
+ *
+ * With hourly consumption proportional to speed cubed, fuel on a leg is
+ * proportional to fuelFactor x distance x speed squared, and minimising the
+ * total for a fixed sailing time gives speed proportional to fuelFactor^(-1/3):
+ * the ship sails slower where the weather makes each mile expensive. The
+ * common scale is found by bisection, with speeds clamped to the ship's range.
+ */
+export class SpeedProfileOptimizer {
+  optimize(request: SpeedProfileRequest): SpeedProfile {
+    const maxSpeed = request.maxSpeed;
+    const minSpeed = Math.min(maxSpeed, request.minSpeed || maxSpeed * DEFAULT_MIN_SPEED_RATIO);
+    const margin = request.safetyMargin ?? DEFAULT_SAFETY_MARGIN_HOURS;
+    const { earliest, latest } = request.arrivalWindow;
+
+    const targetArrival = new Date(Math.max(earliest.getTime(), latest.getTime() - margin * 3600000));
+    const legDelays = this.assignDelays(request);
+    const totalDelay = legDelays.reduce((sum, delay) => sum + delay, 0);
+    const sailingTime = (targetArrival.getTime() - request.departureTime.getTime()) / 3600000 - totalDelay;
+
+    const legs = request.legs.map(leg => ({
+      distance: leg.distance,
+      loss: Math.min(0.5, Math.max(0, leg.speedLoss || 0)),
+      fuelFactor: Math.max(0.01, leg.fuelFactor || 1)
+    }));
+    const speedsFor = (scale: number): number[] =>
+      legs.map(leg => Math.min(maxSpeed, Math.max(minSpeed, scale * Math.pow(leg.fuelFactor, -1 / 3))));
+    const timeFor = (speeds: number[]): number =>
+      legs.reduce((sum, leg, index) => sum + leg.distance / (speeds[index] * (1 - leg.loss)), 0);
+
+    let speeds: number[];
+    if (sailingTime <= 0 || timeFor(speedsFor(Infinity)) >= sailingTime) {
+      speeds = speedsFor(Infinity);
+    } else if (timeFor(speedsFor(0)) <= sailingTime) {
+      speeds = speedsFor(0);
+    } else {
+      // Sailing time falls as the scale grows, so bisect for the scale that uses the available time
+      const factors = legs.map(leg => Math.pow(leg.fuelFactor, 1 / 3));
+      let low = minSpeed * Math.min(...factors);
+      let high = maxSpeed * Math.max(...factors);
+      for (let step = 0; step < BISECTION_STEPS; step++) {
+        const middle = (low + high) / 2;
+        if (timeFor(speedsFor(middle)) > sailingTime) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      speeds = speedsFor(high);
+    }
+
+    const profileLegs = this.sail(request, speeds, legDelays);
+    const arrival = profileLegs.length > 0 ? new Date(profileLegs[profileLegs.length - 1].eta) : request.departureTime;
+    const totalFuel = profileLegs.reduce((sum, leg) => sum + leg.fuel, 0);
+    const constantSpeedFuel = this.constantSpeedFuel(request, profileLegs);
+
+    return {
+      legs: profileLegs,
+      departureTime: request.departureTime.toISOString(),
+      targetArrival: targetArrival.toISOString(),
+      arrivalTime: arrival.toISOString(),
+      berthingTime: new Date(Math.max(arrival.getTime(), earliest.getTime())).toISOString(),
+      waitingTime: Math.max(0, (earliest.getTime() - arrival.getTime()) / 3600000),
+      lateness: Math.max(0, (arrival.getTime() - latest.getTime()) / 3600000),
+      feasible: arrival.getTime() <= latest.getTime(),
+      totalFuel,
+      constantSpeedFuel,
+      fuelSaving: constantSpeedFuel - totalFuel
+    };
+  }
+
+  // Every leg at one speed through the water, e.g. the service speed when no berth window is set
+  sailAtSpeed(request: SailingRequest, speed: number): SpeedProfileLeg[] {
+    return this.sail(request, request.legs.map(() => speed), this.assignDelays(request));
+  }
+
+  private sail(request: SailingRequest, speeds: number[], legDelays: number[]): SpeedProfileLeg[] {
+    let clock = request.departureTime.getTime();
+    return request.legs.map((leg, index) => {
+      const speedOverGround = speeds[index] * (1 - Math.min(0.5, Math.max(0, leg.speedLoss || 0)));
+      const duration = leg.distance / speedOverGround;
+      clock += (legDelays[index] + duration) * 3600000;
+      return {
+        from: leg.from,
+        to: leg.to,
+        distance: leg.distance,
+        speed: speeds[index],
+        speedOverGround,
+        delay: legDelays[index],
+        duration,
+        fuel: request.fuelConsumption(speeds[index], duration) * Math.max(0.01, leg.fuelFactor || 1),
+        eta: new Date(clock).toISOString()
+      };
+    });
+  }
+
+  // Delay hours per leg, each delay on the first leg starting at or after its distance
+  private assignDelays(request: SailingRequest): number[] {
+    const delays = request.legs.map(() => 0);
+    let distance = 0;
+    const starts = request.legs.map(leg => {
+      const start = distance;
+      distance += leg.distance;
+      return start;
+    });
+
+    for (const delay of request.delays || []) {
+      const index = starts.findIndex(start => start >= delay.distanceFromOrigin - 1e-6);
+      delays[index === -1 ? delays.length - 1 : index] += delay.hours;
+    }
+    return delays;
+  }
+
+  // One speed through the water on every leg, covering the route in the profile's sailing time
+  private constantSpeedFuel(request: SpeedProfileRequest, legs: SpeedProfileLeg[]): number {
+    const sailingTime = legs.reduce((sum, leg) => sum + leg.duration, 0);
+    const waterDistance = request.legs.reduce(
+      (sum, leg) => sum + leg.distance / (1 - Math.min(0.5, Math.max(0, leg.speedLoss || 0))), 0
+    );
+    const speed = sailingTime > 0 ? waterDistance / sailingTime : request.maxSpeed;
+
+    return request.legs.reduce((sum, leg) => {
+      const duration = leg.distance / (speed * (1 - Math.min(0.5, Math.max(0, leg.speedLoss || 0))));
+      return sum + request.fuelConsumption(speed, duration) * Math.max(0.01, leg.fuelFactor || 1);
+    }, 0);
+  }
+}
+
+/**
+ * Time the ship reaches each waypoint of the legs: the departure for the first,
+ * then the end of every leg. Delays before a leg fall after reaching its start.
+ */
+export function waypointEtas(departureTime: Date, legs: SpeedProfileLeg[]): Date[] {
+  return [departureTime, ...legs.map(leg => new Date(leg.eta))];
+}
+
+export const speedProfileOptimizer = new SpeedProfileOptimizer();
@@ -0,0 +1,233 @@
+import { GeoPoint, distanceNm, distanceToSegment } from './Geometry';
+
+export interface PlannedLegTrack {
+  route: GeoPoint[];
+  plannedDepartureTime: Date;
+  plannedArrivalTime: Date; // end of the sea passage
+  plannedFuel: number | null; // tons
+  actualDepartureTime: Date | null;
+  actualArrivalTime: Date | null;
+  actualFuel: number | null; // tons, recorded for the whole leg
+}
+
+export interface TrackPoint extends GeoPoint {
+  timestamp?: string; // ISO 8601
+}
+
+export interface CrossTrackSample {
+  timestamp: string | null;
+  latitude: number;
+  longitude: number;
+  leg: number;
+  crossTrackError: number; // nautical miles, positive to starboard of the planned track
+  alongTrack: number; // nautical miles from the start of the leg's planned track
+}
+
+export interface LegDeviation {
+  leg: number;
+  samples: number;
+  complete: boolean; // the leg has an actual arrival
+  maxDeviation: number; // nautical miles
+  maxDeviationAt: CrossTrackSample | null;
+  meanDeviation: number; // nautical miles
+  plannedDistance: number; // nautical miles of planned track over the part sailed
+  actualDistance: number; // nautical miles sailed over the same part
+  extraDistance: number; // nautical miles
+  plannedHours: number | null;
+  actualHours: number | null;
+  timeLost: number | null; // hours behind the planned pace
+  plannedFuel: number | null; // over the part sailed
+  actualFuel: number | null;
+  fuelLost: number | null;
+  fuelLostEstimated: boolean; // fuelLost is the planned consumption of the extra distance, no actual fuel was recorded
+}
+
+export interface TrackDeviationSummary {
+  trackPoints: number;
+  maxDeviation: number; // nautical miles
+  meanDeviation: number; // nautical miles
+  extraDistance: number; // nautical miles
+  timeLost: number | null; // hours
+  fuelLost: number | null;
+  analyzedAt: string; // ISO 8601
+}
+
+export interface TrackDeviationAnalysis {
+  legs: LegDeviation[];
+  crossTrack: CrossTrackSample[];
+  summary: TrackDeviationSummary;
+}
+
+interface TimedSample extends CrossTrackSample {
+  time: number | null;
+}
+
+/**
+ * Compares the track a ship actually sailed with its planned legs. Each
+ * reported position is measured against the planned track of the leg being
+ * sailed at the time: cross-track error, and how far along the leg it is.
+ * Distance, time and fuel are compared with the plan only over the part of
+ * each leg covered by the reports, so a voyage still under way is not
+ * measured against legs it has not sailed yet.
+ */
+export class TrackDeviationAnalyzer {
+  analyze(legs: PlannedLegTrack[], track: TrackPoint[], now: Date = new Date()): TrackDeviationAnalysis {
+    const samples = this.assignToLegs(legs, track);
+    const legDeviations = legs.map((leg, index) => this.analyzeLeg(index, leg, samples.filter(sample => sample.leg === index)));
+
+    const sampled = legDeviations.filter(leg => leg.samples > 0);
+    const sum = (values: Array<number | null>): number | null =>
+      values.some(value => value !== null) ? values.reduce<number>((total, value) => total + (value || 0), 0) : null;
+
+    return {
+      legs: legDeviations,
+      crossTrack: samples.map(withoutTime),
+      summary: {
+        trackPoints: samples.length,
+        maxDeviation: round(Math.max(0, ...legDeviations.map(leg => leg.maxDeviation))),
+        meanDeviation: round(sampled.reduce((total, leg) => total + leg.meanDeviation * leg.samples, 0) / Math.max(1, samples.length)),
+        extraDistance: round(legDeviations.reduce((total, leg) => total + leg.extraDistance, 0)),
+        timeLost: roundOrNull(sum(legDeviations.map(leg => leg.timeLost))),
+        fuelLost: roundOrNull(sum(legDeviations.map(leg => leg.fuelLost))),
+        analyzedAt: now.toISOString()
+      }
+    };
+  }
+
+  // Each position belongs to the leg sailed at its time; untimed positions to the nearest leg
+  private assignToLegs(legs: PlannedLegTrack[], track: TrackPoint[]): TimedSample[] {
+    const windows = legs.map((leg, index) => {
+      const next = legs[index + 1];
+      const start = (leg.actualDepartureTime || leg.plannedDepartureTime).getTime();
+      const end = leg.actualArrivalTime
+        ? leg.actualArrivalTime.getTime()
+        : next ? (next.actualDepartureTime || next.plannedDepartureTime).getTime() : Infinity;
+      return { start: index === 0 ? -Infinity : start, end };
+    });
+
+    const samples: TimedSample[] = [];
+    for (const point of track) {
+      const time = point.timestamp ? new Date(point.timestamp).getTime() : NaN;
+      let legIndex: number;
+      if (!Number.isNaN(time)) {
+        // Positions reported alongside, between the arrival of one leg and the departure of the next, are skipped
+        legIndex = windows.findIndex(window => time >= window.start && time <= window.end);
+        if (legIndex === -1) {
+          continue;
+        }
+      } else {
+        legIndex = legs.reduce((best, leg, index) =>
+          Math.abs(project(point, leg.route).crossTrack) < Math.abs(project(point, legs[best].route).crossTrack) ? index : best, 0);
+      }
+
+      const projection = project(point, legs[legIndex].route);
+      samples.push({
+        timestamp: point.timestamp || null,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        leg: legIndex,
+        crossTrackError: round(projection.crossTrack, 3),
+        alongTrack: round(projection.alongTrack),
+        time: Number.isNaN(time) ? null : time
+      });
+    }
+    return samples;
+  }
+
+  private analyzeLeg(index: number, leg: PlannedLegTrack, samples: TimedSample[]): LegDeviation {
+    const routeLength = trackLength(leg.route);
+    const complete = leg.actualArrivalTime !== null;
+    const deviations = samples.map(sample => Math.abs(sample.crossTrackError));
+    const maxDeviation = Math.max(0, ...deviations);
+    const maxSample = samples.find(sample => Math.abs(sample.crossTrackError) === maxDeviation);
+
+    // The part of the leg sailed runs from the departure (or first report) to the arrival (or last report)
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const start = leg.actualDepartureTime
+      ? { time: leg.actualDepartureTime.getTime(), along: 0, point: leg.route[0] as GeoPoint | null }
+      : first ? { time: first.time, along: first.alongTrack, point: null } : null;
+    const end = complete
+      ? { time: (leg.actualArrivalTime as Date).getTime(), along: routeLength, point: leg.route[leg.route.length - 1] as GeoPoint | null }
+      : last ? { time: last.time, along: last.alongTrack, point: null } : null;
+
+    const sailed: GeoPoint[] = [
+      ...(start?.point ? [start.point] : []),
+      ...samples,
+      ...(end?.point ? [end.point] : [])
+    ];
+    const plannedDistance = start && end ? Math.max(0, end.along - start.along) : 0;
+    const actualDistance = trackLength(sailed);
+    const extraDistance = sailed.length >= 2 ? actualDistance - plannedDistance : 0;
+
+    const plannedPace = routeLength > 0
+      ? (leg.plannedArrivalTime.getTime() - leg.plannedDepartureTime.getTime()) / 3600000 / routeLength
+      : null;
+    const plannedHours = plannedPace !== null && start && end ? plannedPace * plannedDistance : null;
+    const actualHours = start && end && start.time !== null && end.time !== null ? (end.time - start.time) / 3600000 : null;
+
+    const fuelPerMile = leg.plannedFuel !== null && routeLength > 0 ? leg.plannedFuel / routeLength : null;
+    const plannedFuel = fuelPerMile !== null ? fuelPerMile * plannedDistance : null;
+    const actualFuel = complete ? leg.actualFuel : null;
+    const fuelLost = actualFuel !== null && plannedFuel !== null
+      ? actualFuel - plannedFuel
+      : fuelPerMile !== null ? fuelPerMile * extraDistance : null;
+
+    return {
+      leg: index,
+      samples: samples.length,
+      complete,
+      maxDeviation: round(maxDeviation, 3),
+      maxDeviationAt: maxSample ? withoutTime(maxSample) : null,
+      meanDeviation: round(deviations.reduce((total, value) => total + value, 0) / Math.max(1, deviations.length), 3),
+      plannedDistance: round(plannedDistance),
+      actualDistance: round(actualDistance),
+      extraDistance: round(extraDistance),
+      plannedHours: roundOrNull(plannedHours),
+      actualHours: roundOrNull(actualHours),
+      timeLost: plannedHours !== null && actualHours !== null ? round(actualHours - plannedHours) : null,
+      plannedFuel: roundOrNull(plannedFuel),
+      actualFuel,
+      fuelLost: roundOrNull(fuelLost),
+      fuelLostEstimated: fuelLost !== null && actualFuel === null
+    };
+  }
+}
+
+// Cross-track error and along-track distance of a point against the nearest segment of a track
+function project(point: GeoPoint, route: GeoPoint[]): { crossTrack: number; alongTrack: number } {
+  if (route.length < 2) {
+    return { crossTrack: route.length === 1 ? distanceNm(point, route[0]) : 0, alongTrack: 0 };
+  }
+
+  let best = { crossTrack: Infinity, alongTrack: 0 };
+  let offset = 0;
+  for (let i = 0; i < route.length - 1; i++) {
+    const { distance, alongTrack } = distanceToSegment(point, route[i], route[i + 1]);
+    if (Math.abs(distance) < Math.abs(best.crossTrack)) {
+      best = { crossTrack: distance, alongTrack: offset + alongTrack };
+    }
+    offset += distanceNm(route[i], route[i + 1]);
+  }
+  return best;
+}
+
+function withoutTime(sample: TimedSample): CrossTrackSample {
+  const { timestamp, latitude, longitude, leg, crossTrackError, alongTrack } = sample;
+  return { timestamp, latitude, longitude, leg, crossTrackError, alongTrack };
+}
+
+function trackLength(points: GeoPoint[]): number {
+  return points.slice(1).reduce((total, point, index) => total + distanceNm(points[index], point), 0);
+}
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : round(value);
+}
+
+export const trackDeviationAnalyzer = new TrackDeviationAnalyzer();
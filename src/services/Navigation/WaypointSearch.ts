@@ -0,0 +1,599 @@
+import { logger } from '../../utils/logger';
+import { GeoPoint, distanceNm, interpolate, wrapLongitude } from './Geometry';
+
+export interface SegmentWeather {
+  windSpeed: number; // knots
+  waveHeight: number; // meters
+}
+
+// Forecast point for weatherSampler; a sample without a time holds for the whole voyage
+export interface WeatherSample {
+  latitude: number;
+  longitude: number;
+  time?: string | Date; // forecast hour
+  windSpeed: number; // knots
+  waveHeight: number; // meters
+}
+
+export interface WaypointSearchPreferences {
+  prioritizeFuel: boolean;
+  prioritizeTime: boolean;
+  avoidRoughSeas: boolean;
+}
+
+// Fixed passage (canal or strait) joined to the grid at its two ends and traversable in either direction
+export interface SearchLink {
+  id: string;
+  path: GeoPoint[];
+  cost: number; // full traversal cost, at least the path distance so the heuristic stays admissible
+}
+
+export interface WaypointSearchOptions {
+  preferences: WaypointSearchPreferences;
+  // Forecast lookup used to price each segment; must be deterministic for a given point
+  weatherAt: (point: GeoPoint) => SegmentWeather;
+  // Optional navigability check; segments failing it are never used
+  isNavigable?: (from: GeoPoint, to: GeoPoint) => boolean;
+  // Optional relative fuel price (>= 1) at a point, e.g. for compliant fuel inside emission control areas
+  fuelPriceAt?: (point: GeoPoint) => number;
+  // Optional multiplier (>= 1) on the whole segment cost at a point, e.g. inside soft exclusion zones
+  costFactorAt?: (point: GeoPoint) => number;
+  gridResolution?: number; // degrees, derived from the route span when omitted
+  maxExpansions?: number;
+  links?: SearchLink[];
+}
+
+export interface RouteLeg {
+  from: GeoPoint;
+  to: GeoPoint;
+  distance: number; // nautical miles
+  speedLoss: number; // fraction of service speed lost to wind and waves (0-0.5)
+  fuelFactor: number; // multiplier on calm-water consumption per nautical mile
+  roughness: number; // 0-1 scale
+  linkId?: string; // set on legs that follow a link path
+}
+
+export interface WaypointSearchResult {
+  waypoints: GeoPoint[];
+  legs: RouteLeg[];
+  totalDistance: number; // nautical miles
+  cost: number;
+  gridResolution: number; // degrees
+  expandedNodes: number;
+}
+
+interface SearchNode {
+  key: string;
+  point: GeoPoint; // longitude unwrapped relative to the origin
+  g: number;
+  parent: string | null;
+  link?: LinkTraversal; // set when the node was reached by traversing a link
+}
+
+interface LinkTraversal {
+  index: number;
+  reversed: boolean;
+}
+
+interface PreparedLink {
+  id: string;
+  path: GeoPoint[]; // longitudes unwrapped relative to the origin
+  cost: number;
+  distance: number;
+}
+
+interface SearchBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+interface Neighbour {
+  key: string;
+  point: GeoPoint;
+  link?: LinkTraversal;
+}
+
+interface SegmentCost {
+  distance: number;
+  cost: number;
+  speedLoss: number;
+  fuelFactor: number;
+  roughness: number;
+}
+
+export const MIN_GRID_RESOLUTION = 0.25;
+const MAX_GRID_RESOLUTION = 2;
+const CELLS_ACROSS_SPAN = 30;
+const MAX_GRID_LATITUDE = 80;
+const DEFAULT_MAX_EXPANSIONS = 20000;
+
+// Smoothed legs may span at most this many grid cells so weather is still sampled per cell
+const MAX_LEG_CELLS = 6;
+
+// 8 compass neighbours plus knight moves for 16 headings
+const NEIGHBOUR_OFFSETS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+  [2, 1], [2, -1], [-2, 1], [-2, -1],
+  [1, 2], [1, -2], [-1, 2], [-1, -2]
+];
+
+const ORIGIN_KEY = 'origin';
+const DESTINATION_KEY = 'destination';
+const LINK_KEY_PREFIX = 'link:';
+
+// Degrees of open grid kept around link ends that widen the search bounds
+const LINK_BOUNDS_PADDING = 5;
+
+/**
+ * A* search over a regular latitude/longitude grid. Edge costs are the
+ * great-circle distance scaled by weather and preference factors that are
+ * always >= 1, so the remaining great-circle distance is an admissible
+ * heuristic and the same inputs always produce the same waypoints.
+ */
+export class WaypointSearch {
+  findRoute(origin: GeoPoint, destination: GeoPoint, options: WaypointSearchOptions): WaypointSearchResult | null {
+    // Work in longitudes unwrapped around the origin so routes can cross the antimeridian
+    const goal: GeoPoint = {
+      latitude: destination.latitude,
+      longitude: origin.longitude + wrapLongitude(destination.longitude - origin.longitude)
+    };
+
+    const span = Math.max(
+      Math.abs(goal.latitude - origin.latitude),
+      Math.abs(goal.longitude - origin.longitude)
+    );
+    const resolution = options.gridResolution || this.defaultGridResolution(origin, destination);
+    // Leave room to detour around landmasses beyond the origin/destination box
+    const margin = Math.max(15, span * 0.5);
+    const searchBounds = {
+      minLat: Math.max(-MAX_GRID_LATITUDE, Math.min(origin.latitude, goal.latitude) - margin),
+      maxLat: Math.min(MAX_GRID_LATITUDE, Math.max(origin.latitude, goal.latitude) + margin),
+      minLon: Math.min(origin.longitude, goal.longitude) - margin,
+      maxLon: Math.max(origin.longitude, goal.longitude) + margin
+    };
+
+    const evaluate = (from: GeoPoint, to: GeoPoint): SegmentCost | null =>
+      this.evaluateSegment(from, to, resolution, options);
+    const { links, bounds } = this.prepareLinks(options.links || [], origin.longitude, searchBounds, margin);
+
+    const nodes = new Map<string, SearchNode>();
+    const closed = new Set<string>();
+    const open = new MinHeap();
+    const maxExpansions = options.maxExpansions || DEFAULT_MAX_EXPANSIONS;
+
+    nodes.set(ORIGIN_KEY, { key: ORIGIN_KEY, point: origin, g: 0, parent: null });
+    open.push(ORIGIN_KEY, distanceNm(origin, goal));
+
+    let expandedNodes = 0;
+    while (open.size() > 0) {
+      const key = open.pop() as string;
+      if (closed.has(key)) {
+        continue;
+      }
+      closed.add(key);
+
+      if (key === DESTINATION_KEY) {
+        return this.buildResult(nodes, links, resolution, expandedNodes, evaluate);
+      }
+
+      expandedNodes++;
+      if (expandedNodes > maxExpansions) {
+        logger.warn('Waypoint search exceeded expansion limit', { maxExpansions, resolution });
+        return null;
+      }
+
+      const current = nodes.get(key) as SearchNode;
+      for (const neighbour of this.neighbours(current, goal, links, resolution, bounds)) {
+        if (closed.has(neighbour.key)) {
+          continue;
+        }
+
+        const segment = neighbour.link
+          ? { cost: links[neighbour.link.index].cost }
+          : evaluate(current.point, neighbour.point);
+        if (!segment) {
+          continue;
+        }
+
+        const g = current.g + segment.cost;
+        const existing = nodes.get(neighbour.key);
+        if (!existing || g < existing.g) {
+          nodes.set(neighbour.key, { key: neighbour.key, point: neighbour.point, g, parent: key, link: neighbour.link });
+          open.push(neighbour.key, g + distanceNm(neighbour.point, goal));
+        }
+      }
+    }
+
+    logger.warn('No navigable route found', { origin, destination, resolution, expandedNodes });
+    return null;
+  }
+
+  // Price a segment by sampling the forecast once per grid cell along it
+  evaluateSegment(from: GeoPoint, to: GeoPoint, resolution: number, options: WaypointSearchOptions): SegmentCost | null {
+    if (options.isNavigable && !options.isNavigable(normalizePoint(from), normalizePoint(to))) {
+      return null;
+    }
+
+    const distance = distanceNm(from, to);
+    const sampleCount = Math.max(1, Math.ceil(
+      Math.max(Math.abs(to.latitude - from.latitude), Math.abs(to.longitude - from.longitude)) / resolution
+    ));
+
+    let speedLoss = 0;
+    let fuelFactor = 0;
+    let fuelCost = 0;
+    let roughness = 0;
+    let costFactor = 0;
+    for (let i = 0; i < sampleCount; i++) {
+      const fraction = (i + 0.5) / sampleCount;
+      const point = normalizePoint(interpolate(from, to, fraction));
+      const factors = weatherFactors(options.weatherAt(point));
+      const fuelPrice = options.fuelPriceAt ? Math.max(1, options.fuelPriceAt(point)) : 1;
+      speedLoss += factors.speedLoss / sampleCount;
+      fuelFactor += factors.fuelFactor / sampleCount;
+      fuelCost += (factors.fuelFactor * fuelPrice) / sampleCount;
+      roughness += factors.roughness / sampleCount;
+      costFactor += (options.costFactorAt ? Math.max(1, options.costFactorAt(point)) : 1) / sampleCount;
+    }
+
+    const { prioritizeTime, prioritizeFuel, avoidRoughSeas } = options.preferences;
+    const timeWeight = prioritizeTime ? 3 : 1;
+    const fuelWeight = prioritizeFuel ? 3 : 1;
+    const riskWeight = avoidRoughSeas ? 3 : 1;
+    const riskPenalty = 1 + roughness * (avoidRoughSeas ? 6 : 1);
+
+    const weighted = (
+      timeWeight / (1 - speedLoss) +
+      fuelWeight * fuelCost +
+      riskWeight * riskPenalty
+    ) / (timeWeight + fuelWeight + riskWeight);
+
+    return { distance, cost: distance * weighted * costFactor, speedLoss, fuelFactor, roughness };
+  }
+
+  // Roughly CELLS_ACROSS_SPAN cells across the route, snapped to quarter degrees
+  defaultGridResolution(origin: GeoPoint, destination: GeoPoint): number {
+    const span = Math.max(
+      Math.abs(destination.latitude - origin.latitude),
+      Math.abs(wrapLongitude(destination.longitude - origin.longitude))
+    );
+    const raw = Math.min(MAX_GRID_RESOLUTION, Math.max(MIN_GRID_RESOLUTION, span / CELLS_ACROSS_SPAN));
+    return Math.round(raw / MIN_GRID_RESOLUTION) * MIN_GRID_RESOLUTION;
+  }
+
+  /**
+   * Unwrap links like the rest of the search and keep those with both ends
+   * within one more margin of the search bounds. The bounds grow to take in
+   * the kept links so a passage just outside the box can still be reached.
+   */
+  private prepareLinks(
+    links: SearchLink[],
+    originLongitude: number,
+    bounds: SearchBounds,
+    margin: number
+  ): { links: PreparedLink[]; bounds: SearchBounds } {
+    const withinReach = (point: GeoPoint): boolean =>
+      point.latitude >= bounds.minLat - margin && point.latitude <= bounds.maxLat + margin &&
+      point.longitude >= bounds.minLon - margin && point.longitude <= bounds.maxLon + margin;
+
+    const prepared = links
+      .map(link => {
+        const path: GeoPoint[] = [];
+        for (const point of link.path) {
+          const reference = path.length > 0 ? path[path.length - 1].longitude : originLongitude;
+          path.push({ latitude: point.latitude, longitude: reference + wrapLongitude(point.longitude - reference) });
+        }
+        let distance = 0;
+        for (let i = 0; i < path.length - 1; i++) {
+          distance += distanceNm(path[i], path[i + 1]);
+        }
+        return { id: link.id, path, cost: Math.max(link.cost, distance), distance };
+      })
+      .filter(link => link.path.length > 1 && withinReach(link.path[0]) && withinReach(link.path[link.path.length - 1]));
+
+    const ends = prepared.flatMap(link => [link.path[0], link.path[link.path.length - 1]]);
+    return {
+      links: prepared,
+      bounds: {
+        minLat: Math.max(-MAX_GRID_LATITUDE, Math.min(bounds.minLat, ...ends.map(end => end.latitude - LINK_BOUNDS_PADDING))),
+        maxLat: Math.min(MAX_GRID_LATITUDE, Math.max(bounds.maxLat, ...ends.map(end => end.latitude + LINK_BOUNDS_PADDING))),
+        minLon: Math.min(bounds.minLon, ...ends.map(end => end.longitude - LINK_BOUNDS_PADDING)),
+        maxLon: Math.max(bounds.maxLon, ...ends.map(end => end.longitude + LINK_BOUNDS_PADDING))
+      }
+    };
+  }
+
+  private neighbours(
+    current: SearchNode,
+    goal: GeoPoint,
+    links: PreparedLink[],
+    resolution: number,
+    bounds: SearchBounds
+  ): Neighbour[] {
+    const result: Neighbour[] = [];
+    const inBounds = (lat: number, lon: number): boolean =>
+      lat >= bounds.minLat && lat <= bounds.maxLat && lon >= bounds.minLon && lon <= bounds.maxLon;
+    const near = (point: GeoPoint, other: GeoPoint): boolean =>
+      Math.abs(point.latitude - other.latitude) <= resolution * 1.5 &&
+      Math.abs(point.longitude - other.longitude) <= resolution * 1.5;
+
+    const atLink = current.key.startsWith(LINK_KEY_PREFIX);
+    if (current.key === ORIGIN_KEY || atLink) {
+      // Attach the origin and link ends to the surrounding lattice nodes
+      const baseI = Math.floor(current.point.latitude / resolution);
+      const baseJ = Math.floor(current.point.longitude / resolution);
+      for (let i = baseI - 1; i <= baseI + 2; i++) {
+        for (let j = baseJ - 1; j <= baseJ + 2; j++) {
+          const point = { latitude: i * resolution, longitude: j * resolution };
+          if (inBounds(point.latitude, point.longitude) && near(point, current.point)) {
+            result.push({ key: `${i}:${j}`, point });
+          }
+        }
+      }
+    } else {
+      const [i, j] = current.key.split(':').map(Number);
+      for (const [di, dj] of NEIGHBOUR_OFFSETS) {
+        const point = { latitude: (i + di) * resolution, longitude: (j + dj) * resolution };
+        if (inBounds(point.latitude, point.longitude)) {
+          result.push({ key: `${i + di}:${j + dj}`, point });
+        }
+      }
+    }
+
+    if (atLink) {
+      // Traverse to the far end of the link
+      const [index, end] = current.key.slice(LINK_KEY_PREFIX.length).split(':').map(Number);
+      const farEnd = 1 - end;
+      result.push({ key: linkKey(index, farEnd), point: linkEnd(links[index], farEnd), link: { index, reversed: end === 1 } });
+    }
+
+    links.forEach((link, index) => {
+      for (const end of [0, 1]) {
+        const key = linkKey(index, end);
+        if (key !== current.key && near(current.point, linkEnd(link, end))) {
+          result.push({ key, point: linkEnd(link, end) });
+        }
+      }
+    });
+
+    if (near(current.point, goal)) {
+      result.push({ key: DESTINATION_KEY, point: goal });
+    }
+
+    return result;
+  }
+
+  private buildResult(
+    nodes: Map<string, SearchNode>,
+    links: PreparedLink[],
+    resolution: number,
+    expandedNodes: number,
+    evaluate: (from: GeoPoint, to: GeoPoint) => SegmentCost | null
+  ): WaypointSearchResult {
+    const path: SearchNode[] = [];
+    let cursor: SearchNode | undefined = nodes.get(DESTINATION_KEY);
+    while (cursor) {
+      path.unshift(cursor);
+      cursor = cursor.parent ? nodes.get(cursor.parent) : undefined;
+    }
+
+    // Replace runs of grid steps with a single leg where that is navigable and no more expensive
+    const maxLegSpan = resolution * MAX_LEG_CELLS;
+    const legs: Array<{ from: GeoPoint; to: GeoPoint; segment: SegmentCost; linkId?: string }> = [];
+    let anchor = 0;
+    while (anchor < path.length - 1) {
+      const traversal = path[anchor + 1].link;
+      if (traversal) {
+        // Links are followed point by point, with their cost spread over the path by distance
+        const link = links[traversal.index];
+        const points = traversal.reversed ? [...link.path].reverse() : link.path;
+        for (let i = 0; i < points.length - 1; i++) {
+          const distance = distanceNm(points[i], points[i + 1]);
+          legs.push({
+            from: points[i],
+            to: points[i + 1],
+            segment: { distance, cost: (link.cost * distance) / link.distance, speedLoss: 0, fuelFactor: 1, roughness: 0 },
+            linkId: link.id
+          });
+        }
+        anchor++;
+        continue;
+      }
+
+      // Smoothing never skips over a link traversal
+      let last = anchor + 1;
+      while (last < path.length - 1 && !path[last + 1].link) {
+        last++;
+      }
+
+      let chosen: { index: number; segment: SegmentCost } | null = null;
+      for (let candidate = last; candidate > anchor; candidate--) {
+        const from = path[anchor].point;
+        const to = path[candidate].point;
+        if (
+          candidate > anchor + 1 &&
+          (Math.abs(to.latitude - from.latitude) > maxLegSpan || Math.abs(to.longitude - from.longitude) > maxLegSpan)
+        ) {
+          continue;
+        }
+
+        const segment = evaluate(from, to);
+        if (segment && (candidate === anchor + 1 || segment.cost <= path[candidate].g - path[anchor].g + 1e-9)) {
+          chosen = { index: candidate, segment };
+          break;
+        }
+      }
+
+      // The direct grid edge was navigable during the search, so a leg is always found
+      const next = chosen as { index: number; segment: SegmentCost };
+      legs.push({ from: path[anchor].point, to: path[next.index].point, segment: next.segment });
+      anchor = next.index;
+    }
+
+    const waypoints = [path[0].point, ...legs.map(leg => leg.to)].map(normalizePoint);
+    const routeLegs: RouteLeg[] = legs.map(leg => ({
+      from: normalizePoint(leg.from),
+      to: normalizePoint(leg.to),
+      distance: leg.segment.distance,
+      speedLoss: leg.segment.speedLoss,
+      fuelFactor: leg.segment.fuelFactor,
+      roughness: leg.segment.roughness,
+      ...(leg.linkId ? { linkId: leg.linkId } : {})
+    }));
+
+    return {
+      waypoints,
+      legs: routeLegs,
+      totalDistance: routeLegs.reduce((sum, leg) => sum + leg.distance, 0),
+      cost: legs.reduce((sum, leg) => sum + leg.segment.cost, 0),
+      gridResolution: resolution,
+      expandedNodes
+    };
+  }
+}
+
+function linkKey(index: number, end: number): string {
+  return `${LINK_KEY_PREFIX}${index}:${end}`;
+}
+
+function linkEnd(link: PreparedLink, end: number): GeoPoint {
+  return end === 0 ? link.path[0] : link.path[link.path.length - 1];
+}
+
+// Empirical added-resistance factors for wind (knots) and significant wave height (meters)
+export function weatherFactors(weather: SegmentWeather): { speedLoss: number; fuelFactor: number; roughness: number } {
+  const wave = Math.max(0, weather.waveHeight);
+  const excessWind = Math.max(0, weather.windSpeed - 10);
+
+  return {
+    speedLoss: Math.min(0.5, 0.02 * Math.pow(wave, 1.5) + 0.003 * excessWind),
+    fuelFactor: 1 + 0.04 * Math.pow(wave, 1.5) + 0.004 * excessWind,
+    roughness: Math.min(1, Math.max(0, (wave - 2) / 6, (weather.windSpeed - 20) / 30))
+  };
+}
+
+/**
+ * Forecast lookup from scattered samples. Samples are ranked by distance plus
+ * the hours between their forecast time and the ship's ETA at the point, sailed
+ * from the origin at the given speed, and the nearest four are blended by
+ * inverse squared distance. Without samples the fallback holds everywhere.
+ */
+export function weatherSampler(
+  samples: WeatherSample[],
+  fallback: SegmentWeather,
+  origin: GeoPoint,
+  departureTime: Date,
+  speed: number
+): (point: GeoPoint) => SegmentWeather {
+  if (samples.length === 0) {
+    return () => fallback;
+  }
+
+  const departure = departureTime.getTime();
+  const hoursFromEta = (point: GeoPoint, sample: WeatherSample): number => {
+    if (!sample.time) {
+      return 0;
+    }
+    const eta = departure + (distanceNm(origin, point) / speed) * 3600000;
+    return Math.abs(new Date(sample.time).getTime() - eta) / 3600000;
+  };
+
+  return (point: GeoPoint): SegmentWeather => {
+    const nearest = samples
+      .map(sample => ({ sample, distance: distanceNm(point, sample) + hoursFromEta(point, sample) * speed }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, 4);
+
+    if (nearest[0].distance < 1) {
+      return { windSpeed: nearest[0].sample.windSpeed, waveHeight: nearest[0].sample.waveHeight };
+    }
+
+    let weightSum = 0;
+    let windSpeed = 0;
+    let waveHeight = 0;
+    for (const { sample, distance } of nearest) {
+      const weight = 1 / (distance * distance);
+      weightSum += weight;
+      windSpeed += sample.windSpeed * weight;
+      waveHeight += sample.waveHeight * weight;
+    }
+
+    return { windSpeed: windSpeed / weightSum, waveHeight: waveHeight / weightSum };
+  };
+}
+
+function normalizePoint(point: GeoPoint): GeoPoint {
+  return {
+    latitude: Math.round(point.latitude * 1e6) / 1e6,
+    longitude: Math.round(wrapLongitude(point.longitude) * 1e6) / 1e6
+  };
+}
+
+// Binary min-heap keyed by f-score; ties are broken by key so expansion order is stable
+class MinHeap {
+  private items: Array<{ key: string; priority: number }> = [];
+
+  size(): number {
+    return this.items.length;
+  }
+
+  push(key: string, priority: number): void {
+    this.items.push({ key, priority });
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.less(index, parent)) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): string | undefined {
+    if (this.items.length === 0) {
+      return undefined;
+    }
+
+    const top = this.items[0];
+    const last = this.items.pop() as { key: string; priority: number };
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.less(left, smallest)) {
+          smallest = left;
+        }
+        if (right < this.items.length && this.less(right, smallest)) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top.key;
+  }
+
+  private less(a: number, b: number): boolean {
+    const itemA = this.items[a];
+    const itemB = this.items[b];
+    return itemA.priority < itemB.priority ||
+      (itemA.priority === itemB.priority && itemA.key < itemB.key);
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+  }
+}
+
+export const waypointSearch = new WaypointSearch();
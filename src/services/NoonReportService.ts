@@ -0,0 +1,353 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { fuelLogService, FuelLog, CreateFuelLogInput, FuelLogConsistencyIssue } from '../models/FuelLog';
+import { voyageService, Voyage } from '../models/Voyage';
+
+export interface NoonReportConsumption {
+  fuelType: string;
+  mainEngine: number; // tons
+  auxiliaryEngine: number; // tons
+  boiler?: number; // tons
+}
+
+export interface NoonReportRob {
+  fuelType: string;
+  quantity: number; // tons
+}
+
+export interface NoonReportWeather {
+  windDirection?: string; // compass point, e.g. NW
+  windForce?: number; // Beaufort 0-12
+  seaState?: number; // Douglas 0-9
+  swellHeight?: number; // meters
+  visibility?: number; // nautical miles
+}
+
+export interface NoonReport {
+  reportTime: Date;
+  position: { latitude: number; longitude: number };
+  distanceRun: number; // nautical miles since previous report
+  averageSpeed: number; // knots
+  hoursSteamed?: number;
+  consumption: NoonReportConsumption[];
+  rob: NoonReportRob[];
+  weather?: NoonReportWeather;
+  remarks?: string;
+}
+
+// Consumption and ROB entries as posted; numbers may be numeric strings, and parseText leaves them all strings
+export interface ParsedConsumptionEntry {
+  fuelType: string;
+  mainEngine?: number | string;
+  auxiliaryEngine?: number | string;
+  boiler?: number | string;
+}
+
+export interface ParsedRobEntry {
+  fuelType: string;
+  quantity: number | string;
+}
+
+// Noon report request body: the JSON report as posted, or the result of parseText
+export interface ParsedNoonReport {
+  reportTime?: string;
+  position?: { latitude: number | string; longitude: number | string };
+  distanceRun?: number | string;
+  averageSpeed?: number | string;
+  hoursSteamed?: number | string;
+  consumption: ParsedConsumptionEntry[];
+  rob: ParsedRobEntry[];
+  weather?: {
+    windDirection?: string;
+    windForce?: number | string;
+    seaState?: number | string;
+    swellHeight?: number | string;
+    visibility?: number | string;
+  };
+  remarks?: string;
+}
+
+// A report that passed validateNoonReport
+export type ValidatedNoonReport = ParsedNoonReport &
+  Required<Pick<ParsedNoonReport, 'reportTime' | 'position' | 'distanceRun' | 'averageSpeed'>>;
+
+export interface NoonReportResult {
+  voyage: Voyage | null;
+  fuelLogs: FuelLog[];
+  issues: FuelLogConsistencyIssue[];
+}
+
+type TextField = 'reportTime' | 'position' | 'distanceRun' | 'averageSpeed' | 'hoursSteamed' |
+  'wind' | 'seaState' | 'swellHeight' | 'visibility' | 'remarks';
+
+// Plain-text report fields, one "KEY: VALUE" pair per line
+const TEXT_FIELDS: { [key: string]: TextField } = {
+  'DATE/TIME (UTC)': 'reportTime',
+  'DATE/TIME': 'reportTime',
+  'POSITION': 'position',
+  'DISTANCE RUN': 'distanceRun',
+  'AVG SPEED': 'averageSpeed',
+  'HOURS STEAMED': 'hoursSteamed',
+  'WIND': 'wind',
+  'SEA STATE': 'seaState',
+  'SWELL': 'swellHeight',
+  'VISIBILITY': 'visibility',
+  'REMARKS': 'remarks'
+};
+
+const CONSUMPTION_KEYS: { [key: string]: keyof Omit<NoonReportConsumption, 'fuelType'> } = {
+  ME: 'mainEngine',
+  AE: 'auxiliaryEngine',
+  BOILER: 'boiler'
+};
+
+export class NoonReportService {
+  /**
+   * Parse the plain-text noon report format into the JSON request shape.
+   * Values are left as strings so the same validation chain applies to both formats.
+   */
+  parseText(text: string): { report: ParsedNoonReport; errors: string[] } {
+    const report: ParsedNoonReport = { consumption: [], rob: [] };
+    const weather: NonNullable<ParsedNoonReport['weather']> = {};
+    const errors: string[] = [];
+
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+    for (const line of lines) {
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        // Header lines such as "NOON REPORT" carry no data
+        continue;
+      }
+
+      const key = line.slice(0, separator).trim().toUpperCase();
+      const value = line.slice(separator + 1).trim();
+
+      const consumptionMatch = key.match(/^(ME|AE|BOILER) CONS ([A-Z]+)$/);
+      if (consumptionMatch) {
+        const fuelType = consumptionMatch[2];
+        let entry = report.consumption.find(item => item.fuelType === fuelType);
+        if (!entry) {
+          entry = { fuelType, mainEngine: '0', auxiliaryEngine: '0' };
+          report.consumption.push(entry);
+        }
+        entry[CONSUMPTION_KEYS[consumptionMatch[1]]] = stripUnit(value);
+        continue;
+      }
+
+      const robMatch = key.match(/^ROB ([A-Z]+)$/);
+      if (robMatch) {
+        report.rob.push({ fuelType: robMatch[1], quantity: stripUnit(value) });
+        continue;
+      }
+
+      const field = TEXT_FIELDS[key];
+      if (!field) {
+        errors.push(`Unknown field: ${key}`);
+        continue;
+      }
+
+      switch (field) {
+        case 'reportTime': {
+          const match = value.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}):?(\d{2})Z?$/);
+          if (match) {
+            report.reportTime = `${match[1]}T${match[2]}:${match[3]}:00Z`;
+          } else {
+            errors.push(`Invalid date/time: ${value}`);
+          }
+          break;
+        }
+        case 'position': {
+          const position = parsePosition(value);
+          if (position) {
+            report.position = position;
+          } else {
+            errors.push(`Invalid position: ${value}`);
+          }
+          break;
+        }
+        case 'wind': {
+          const match = value.toUpperCase().match(/^([NESW]{1,3})\s*(?:BF\s*)?(\d{1,2})$/);
+          if (match) {
+            weather.windDirection = match[1];
+            weather.windForce = match[2];
+          } else {
+            errors.push(`Invalid wind: ${value}`);
+          }
+          break;
+        }
+        case 'seaState':
+        case 'swellHeight':
+        case 'visibility':
+          weather[field] = stripUnit(value);
+          break;
+        case 'remarks':
+          report.remarks = value;
+          break;
+        default:
+          report[field] = stripUnit(value);
+      }
+    }
+
+    if (Object.keys(weather).length > 0) {
+      report.weather = weather;
+    }
+
+    return { report, errors };
+  }
+
+  // Normalise a validated request body into a NoonReport
+  toNoonReport(body: ValidatedNoonReport): NoonReport {
+    const optionalNumber = (value: unknown): number | undefined =>
+      value === undefined || value === null || value === '' ? undefined : Number(value);
+
+    return {
+      reportTime: new Date(body.reportTime),
+      position: {
+        latitude: Number(body.position.latitude),
+        longitude: Number(body.position.longitude)
+      },
+      distanceRun: Number(body.distanceRun),
+      averageSpeed: Number(body.averageSpeed),
+      hoursSteamed: optionalNumber(body.hoursSteamed),
+      consumption: (body.consumption || []).map(item => ({
+        fuelType: item.fuelType,
+        mainEngine: Number(item.mainEngine || 0),
+        auxiliaryEngine: Number(item.auxiliaryEngine || 0),
+        boiler: optionalNumber(item.boiler)
+      })),
+      rob: (body.rob || []).map(item => ({
+        fuelType: item.fuelType,
+        quantity: Number(item.quantity)
+      })),
+      weather: body.weather
+        ? {
+            windDirection: body.weather.windDirection,
+            windForce: optionalNumber(body.weather.windForce),
+            seaState: optionalNumber(body.weather.seaState),
+            swellHeight: optionalNumber(body.weather.swellHeight),
+            visibility: optionalNumber(body.weather.visibility)
+          }
+        : undefined,
+      remarks: body.remarks
+    };
+  }
+
+  /**
+   * Record a noon report against a voyage: one fuel log per fuel type and the
+   * reported position appended to the voyage track, in a single transaction.
+   */
+  async submit(voyage: Voyage, report: NoonReport): Promise<NoonReportResult> {
+    const fuelLogInputs = this.toFuelLogInputs(voyage, report);
+    const totalConsumed = fuelLogInputs.reduce((sum, input) => sum + input.fuelConsumed, 0);
+
+    const trx = await db.transaction();
+    try {
+      const { inserted, issues } = await fuelLogService.ingest(fuelLogInputs, trx);
+      if (issues.length > 0) {
+        await trx.rollback();
+        return { voyage: null, fuelLogs: [], issues };
+      }
+
+      const updatedVoyage = await voyageService.appendActualPosition(
+        voyage.id,
+        {
+          latitude: report.position.latitude,
+          longitude: report.position.longitude,
+          timestamp: report.reportTime.toISOString(),
+          source: 'noon_report',
+          distanceRun: report.distanceRun,
+          averageSpeed: report.averageSpeed
+        },
+        { distance: report.distanceRun, fuelConsumed: totalConsumed },
+        trx
+      );
+
+      await trx.commit();
+
+      logger.info('Noon report recorded', {
+        voyageId: voyage.id,
+        reportTime: report.reportTime,
+        fuelLogCount: inserted.length
+      });
+
+      return { voyage: updatedVoyage, fuelLogs: inserted, issues: [] };
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to record noon report', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        voyageId: voyage.id
+      });
+      throw error;
+    }
+  }
+
+  // True when the voyage track already holds a noon report for this time
+  isDuplicate(voyage: Voyage, report: NoonReport): boolean {
+    const timestamp = report.reportTime.toISOString();
+    return (voyage.actualRoute || []).some(point =>
+      point.source === 'noon_report' && point.timestamp === timestamp
+    );
+  }
+
+  private toFuelLogInputs(voyage: Voyage, report: NoonReport): CreateFuelLogInput[] {
+    const fuelTypes = Array.from(new Set([
+      ...report.consumption.map(item => item.fuelType),
+      ...report.rob.map(item => item.fuelType)
+    ]));
+
+    return fuelTypes.map(fuelType => {
+      const consumption = report.consumption.find(item => item.fuelType === fuelType);
+      const rob = report.rob.find(item => item.fuelType === fuelType);
+      const mainEngine = consumption?.mainEngine || 0;
+      const auxiliaryEngine = consumption?.auxiliaryEngine || 0;
+      const boiler = consumption?.boiler || 0;
+
+      return {
+        shipId: voyage.shipId,
+        voyageId: voyage.id,
+        logTime: report.reportTime,
+        eventType: 'consumption',
+        fuelType,
+        fuelConsumed: Math.round((mainEngine + auxiliaryEngine + boiler) * 1000) / 1000,
+        fuelRemaining: rob?.quantity,
+        currentSpeed: report.averageSpeed,
+        position: report.position,
+        weatherConditions: report.weather ? { ...report.weather } : undefined,
+        additionalMetrics: {
+          source: 'noon_report',
+          mainEngine,
+          auxiliaryEngine,
+          boiler,
+          distanceRun: report.distanceRun,
+          hoursSteamed: report.hoursSteamed,
+          remarks: report.remarks
+        }
+      };
+    });
+  }
+}
+
+// Drop trailing units such as "NM", "KN", "MT" or "M"
+function stripUnit(value: string): string {
+  return value.replace(/\s*[A-Za-z]+\.?$/, '').trim();
+}
+
+// Parse "35-12.4N 018-45.0E" (degrees-decimal minutes) or "35.2067 18.75" (decimal degrees)
+function parsePosition(value: string): { latitude: string; longitude: string } | null {
+  const dm = value.toUpperCase().match(/^(\d{1,2})-(\d{1,2}(?:\.\d+)?)([NS])[\s,/]+(\d{1,3})-(\d{1,2}(?:\.\d+)?)([EW])$/);
+  if (dm) {
+    const latitude = (Number(dm[1]) + Number(dm[2]) / 60) * (dm[3] === 'S' ? -1 : 1);
+    const longitude = (Number(dm[4]) + Number(dm[5]) / 60) * (dm[6] === 'W' ? -1 : 1);
+    return { latitude: latitude.toFixed(5), longitude: longitude.toFixed(5) };
+  }
+
+  const decimal = value.match(/^(-?\d+(?:\.\d+)?)[\s,]+(-?\d+(?:\.\d+)?)$/);
+  if (decimal) {
+    return { latitude: decimal[1], longitude: decimal[2] };
+  }
+
+  return null;
+}
+
+export const noonReportService = new NoonReportService();
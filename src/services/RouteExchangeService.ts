@@ -0,0 +1,163 @@
+import { Ship } from '../models/Ship';
+import { Voyage, RoutePoint } from '../models/Voyage';
+import { voyageItineraryService, VoyageLeg, PortCall } from '../models/VoyageItinerary';
+import { ExchangeRoute, ExchangeWaypoint } from './Navigation/RouteExchange';
+import { SpeedProfile } from './Navigation/SpeedProfile';
+import { distanceNm } from './Navigation/Geometry';
+
+export interface RouteExportOptions {
+  leg?: number; // voyage leg whose alternative replaces its planned route
+  alternative?: number; // index into the leg's alternative routes
+  xtd?: number; // nautical miles either side, DEFAULT_XTD_NM when omitted
+}
+
+export type RouteExportResult =
+  | { route: ExchangeRoute; error: null }
+  | { route: null; error: string };
+
+// Cross-track distance allowed either side of every leg unless the export asks for another
+export const DEFAULT_XTD_NM = 0.5;
+
+interface LegTrack {
+  from: string;
+  to: string;
+  waypoints: RoutePoint[];
+  departureTime: Date;
+  arrivalTime: Date;
+  speedProfile: SpeedProfile | null;
+}
+
+/**
+ * Turns a voyage's planned route into the waypoint list exchanged with ECDIS
+ * and shore tools: port calls named, the rest numbered, each waypoint timed
+ * and given the speed planned for reaching it.
+ */
+export class RouteExchangeService {
+  async buildRoute(voyage: Voyage, ship: Ship | null, options: RouteExportOptions = {}): Promise<RouteExportResult> {
+    const { portCalls, legs } = await voyageItineraryService.findByVoyageId(voyage.id);
+    const tracks = legs.length > 0 ? legs.map(leg => this.legTrack(leg, portCalls)) : this.voyageTrack(voyage);
+    if (tracks.length === 0 || tracks.some(track => track.waypoints.length < 2)) {
+      return { route: null, error: 'Voyage has no planned route' };
+    }
+
+    let name = `${voyage.origin.name || 'Origin'} - ${voyage.destination.name || 'Destination'}`;
+    if (options.alternative !== undefined) {
+      const leg = legs[options.leg ?? 0];
+      if (!leg) {
+        return { route: null, error: 'Voyage leg not found' };
+      }
+      const alternative = leg.alternativeRoutes[options.alternative];
+      if (!alternative) {
+        return { route: null, error: 'Alternative route not found' };
+      }
+
+      // The alternative is sailed at the leg's planned average speed
+      const track = tracks[leg.sequence];
+      const speed = this.averageSpeed(track);
+      const hours = speed > 0 ? alternative.distance / speed : 0;
+      tracks[leg.sequence] = {
+        ...track,
+        waypoints: alternative.waypoints,
+        arrivalTime: new Date(track.departureTime.getTime() + hours * 3600000),
+        speedProfile: null
+      };
+      name += ` (leg ${leg.sequence + 1} alternative ${options.alternative + 1})`;
+    }
+
+    const xtd = options.xtd ?? DEFAULT_XTD_NM;
+    let numbered = 0;
+    const waypoints: ExchangeWaypoint[] = [];
+    tracks.forEach((track, legIndex) => {
+      const timing = this.timing(track);
+      track.waypoints.forEach((point, index) => {
+        // A port call ends one leg and starts the next, so it is listed once
+        if (index === 0 && legIndex > 0) {
+          return;
+        }
+        const isFirst = index === 0;
+        const isLast = index === track.waypoints.length - 1;
+        waypoints.push({
+          latitude: point.latitude,
+          longitude: point.longitude,
+          name: isFirst ? track.from : isLast ? track.to : `WP${String(++numbered).padStart(3, '0')}`,
+          leg: legIndex,
+          eta: timing[index].eta,
+          speed: timing[index].speed,
+          xtd: legIndex === 0 && isFirst ? null : xtd
+        });
+      });
+    });
+
+    return {
+      route: {
+        name,
+        vessel: ship ? { name: ship.name, imoNumber: ship.imoNumber, mmsi: ship.mmsi } : undefined,
+        waypoints
+      },
+      error: null
+    };
+  }
+
+  private legTrack(leg: VoyageLeg, portCalls: PortCall[]): LegTrack {
+    const speedProfile = leg.speedProfile as SpeedProfile | null;
+    return {
+      from: portCalls.find(call => call.id === leg.fromPortCallId)?.name || `Leg ${leg.sequence + 1} start`,
+      to: portCalls.find(call => call.id === leg.toPortCallId)?.name || `Leg ${leg.sequence + 1} end`,
+      waypoints: leg.plannedRoute || [],
+      departureTime: leg.plannedDepartureTime,
+      arrivalTime: leg.estimatedArrivalTime,
+      speedProfile: speedProfile && Array.isArray(speedProfile.legs) ? speedProfile : null
+    };
+  }
+
+  // Voyages planned before itineraries were stored are a single leg
+  private voyageTrack(voyage: Voyage): LegTrack[] {
+    if (!voyage.plannedRoute) {
+      return [];
+    }
+
+    return [{
+      from: voyage.origin.name || 'Origin',
+      to: voyage.destination.name || 'Destination',
+      waypoints: voyage.plannedRoute,
+      departureTime: voyage.plannedDepartureTime,
+      arrivalTime: voyage.estimatedArrivalTime,
+      speedProfile: null
+    }];
+  }
+
+  // ETA and speed at each waypoint: from the speed profile when the leg has one, otherwise the leg's average speed
+  private timing(track: LegTrack): Array<{ eta: Date; speed: number | null }> {
+    const profileLegs = track.speedProfile?.legs || [];
+    if (profileLegs.length === track.waypoints.length - 1) {
+      return [
+        { eta: track.departureTime, speed: null },
+        ...profileLegs.map(leg => ({ eta: new Date(leg.eta), speed: round(leg.speed) }))
+      ];
+    }
+
+    const speed = this.averageSpeed(track);
+    let distance = 0;
+    return track.waypoints.map((point, index) => {
+      if (index > 0) {
+        distance += distanceNm(track.waypoints[index - 1], point);
+      }
+      return {
+        eta: speed > 0 ? new Date(track.departureTime.getTime() + (distance / speed) * 3600000) : track.departureTime,
+        speed: index === 0 ? null : round(speed)
+      };
+    });
+  }
+
+  private averageSpeed(track: LegTrack): number {
+    const distance = track.waypoints.slice(1).reduce((sum, point, index) => sum + distanceNm(track.waypoints[index], point), 0);
+    const hours = (track.arrivalTime.getTime() - track.departureTime.getTime()) / 3600000;
+    return hours > 0 ? distance / hours : 0;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export const routeExchangeService = new RouteExchangeService();
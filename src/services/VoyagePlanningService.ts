@@ -0,0 +1,436 @@
+import { Ship } from '../models/Ship';
+import { exclusionZoneService } from '../models/ExclusionZone';
+import { weatherService, RouteWeatherAnalysis } from './WeatherService';
+import { routePlanner, RoutePlan } from './Navigation/RoutePlanner';
+import { ChokepointPreferences, ChokepointTransit } from './Navigation/Chokepoints';
+import { emissionControlAreas, EcaZoneExposure, MarineFuelType, DEFAULT_ECA_FUEL_PRICE_RATIO } from './Navigation/EmissionControlAreas';
+import { ExclusionZoneIntersection, ExclusionZoneMap } from './Navigation/ExclusionZones';
+import { iceLimits, shipIceClass, IceExposure } from './Navigation/IceLimits';
+import { loadLineZones, shipLoadLine, LoadLineCheck } from './Navigation/LoadLineZones';
+import { portApproaches, shipHullForm, UkcAssessment } from './Navigation/PortApproaches';
+import { speedProfileOptimizer, waypointEtas, ArrivalWindow, SpeedProfile } from './Navigation/SpeedProfile';
+import { SegmentWeather, WaypointSearchPreferences, WeatherSample, weatherSampler } from './Navigation/WaypointSearch';
+import { GeoPoint, distanceNm, greatCirclePoints } from './Navigation/Geometry';
+import { FuelPredictorModel } from './AI/FuelPredictorModel';
+
+export interface PortCallRequest {
+  name?: string;
+  code?: string; // UN/LOCODE of a registered port
+  latitude: number;
+  longitude: number;
+  maxDraft?: number | null; // meters, from the port registry
+  portStay?: number; // hours alongside; DEFAULT_PORT_STAY_HOURS at intermediate calls when omitted
+  departureTime?: Date; // earliest departure from the port
+  arrivalWindow?: ArrivalWindow; // berth window, sailed to with a fuel-optimal speed profile
+  cargoLoaded?: number; // tons
+  cargoDischarged?: number; // tons
+  sailingDraft?: number; // meters on leaving the port; estimated from the cargo on board when omitted
+  chokepoints?: ChokepointPreferences; // for the leg sailed to this call
+  route?: GeoPoint[]; // waypoints of the leg sailed to this call, sailed as drawn instead of being routed
+}
+
+export interface ItineraryRequest {
+  ship: Ship;
+  portCalls: PortCallRequest[]; // the departure port first, at least two calls
+  departureTime: Date; // from the first port, unless the call sets its own
+  preferences?: { [key: string]: unknown };
+  chokepoints?: ChokepointPreferences; // forbidden ids apply to every leg; forced ids only to single-leg plans
+}
+
+export interface LegRouting {
+  repaired: boolean;
+  hazard: RoutePlan['hazard'];
+  chokepointTransits: ChokepointTransit[];
+  transitFees: number; // USD
+  emissionControlAreas: {
+    zones: EcaZoneExposure[];
+    distanceInside: number; // nautical miles
+    timeInside: number; // hours
+    fuelByType: { [fuelType in MarineFuelType]: number }; // kg of the leg's planned fuel
+  };
+  exclusionZones: {
+    planned: ExclusionZoneIntersection[];
+    escortRequired: boolean;
+    alternatives: Array<{ waypoints: GeoPoint[]; distance: number; intersections: ExclusionZoneIntersection[] }>;
+  };
+  ice: IceExposure; // ice in force at departure, judged against the ship's ice class
+  loadLine: LoadLineCheck; // load line zones in force when the ship reaches them, against its draft on the leg
+  underKeelClearance: UkcAssessment | null; // approach to the next port, null when it has none on record
+}
+
+export interface LegPlan {
+  from: PortCallRequest;
+  to: PortCallRequest;
+  departureTime: Date;
+  arrivalTime: Date; // end of the sea passage
+  berthingTime: Date; // alongside at the next port, after waiting for its berth window
+  cargoWeight: number; // tons on board
+  waypoints: GeoPoint[];
+  distance: number; // nautical miles
+  estimatedFuelConsumption: number; // kg of main engine fuel, at the speed profile's speeds or the service speed
+  speedProfile: SpeedProfile | null;
+  weatherAnalysis: RouteWeatherAnalysis;
+  routing: LegRouting;
+}
+
+export interface ScheduledPortCall extends PortCallRequest {
+  name: string;
+  plannedArrivalTime: Date | null; // null at the departure port
+  plannedDepartureTime: Date | null; // null at the final port
+  portStay: number; // hours
+}
+
+export interface ItineraryPlan {
+  portCalls: ScheduledPortCall[];
+  legs: LegPlan[];
+}
+
+export type ItineraryPlanResult =
+  | { plan: ItineraryPlan; error: null; issues: string[] }
+  | { plan: null; error: string; issues: string[] };
+
+// Hours alongside at intermediate calls when the itinerary does not say
+export const DEFAULT_PORT_STAY_HOURS = 24;
+
+const KM_PER_NAUTICAL_MILE = 1.852;
+
+// Forecasts priced into searched routes: points along the great circle between the ports, every few forecast hours
+const WEATHER_SAMPLE_SPACING_NM = 600;
+const MAX_WEATHER_SAMPLE_POINTS = 8;
+const WEATHER_SAMPLE_HOURS = 12;
+const CALM_WEATHER: SegmentWeather = { windSpeed: 0, waveHeight: 0 };
+
+const RISK_LEVELS: Array<RouteWeatherAnalysis['overallRisk']> = ['low', 'medium', 'high', 'extreme'];
+
+/**
+ * Plans a voyage as a sequence of legs between port calls. Each leg is routed,
+ * timed and weather-checked from the moment the ship leaves the previous port,
+ * so delays and port stays carry forward through the itinerary. A plain
+ * origin/destination voyage is the two-call case.
+ */
+export class VoyagePlanningService {
+  async planItinerary(request: ItineraryRequest): Promise<ItineraryPlanResult> {
+    const { ship, portCalls } = request;
+    const draftIssues = this.checkDrafts(portCalls, ship.specifications.draft);
+    if (draftIssues.length > 0) {
+      return { plan: null, error: 'Ship draft exceeds port limits', issues: draftIssues };
+    }
+
+    const cargoIssues = this.checkCargo(portCalls, ship.specifications.cargoCapacity);
+    if (cargoIssues.length > 0) {
+      return { plan: null, error: 'Cargo plan exceeds the ship\'s capacity or cargo on board', issues: cargoIssues };
+    }
+
+    const singleLeg = portCalls.length === 2;
+    const scheduled: ScheduledPortCall[] = [];
+    const legs: LegPlan[] = [];
+    let departureTime = portCalls[0].departureTime || request.departureTime;
+    let cargoWeight = 0;
+
+    for (let index = 0; index < portCalls.length; index++) {
+      const call = portCalls[index];
+      const isFirst = index === 0;
+      const isLast = index === portCalls.length - 1;
+      const previousLeg = legs[legs.length - 1];
+      const portStay = call.portStay ?? (isFirst || isLast ? 0 : DEFAULT_PORT_STAY_HOURS);
+
+      if (!isFirst) {
+        departureTime = new Date(Math.max(
+          previousLeg.berthingTime.getTime() + portStay * 3600000,
+          call.departureTime ? call.departureTime.getTime() : 0
+        ));
+      }
+      cargoWeight += (call.cargoLoaded || 0) - (call.cargoDischarged || 0);
+
+      scheduled.push({
+        ...call,
+        name: call.name || `${call.latitude},${call.longitude}`,
+        plannedArrivalTime: isFirst ? null : previousLeg.berthingTime,
+        plannedDepartureTime: isLast ? null : departureTime,
+        portStay
+      });
+      if (isLast) {
+        break;
+      }
+
+      const next = portCalls[index + 1];
+      const label = singleLeg ? '' : `Leg ${index + 1} (${scheduled[index].name} to ${next.name || `${next.latitude},${next.longitude}`}): `;
+      if (next.arrivalWindow && next.arrivalWindow.latest <= departureTime) {
+        return { plan: null, error: `${label}Arrival window closes before the planned departure`, issues: [] };
+      }
+
+      const chokepoints = singleLeg
+        ? next.chokepoints || request.chokepoints
+        : {
+            force: next.chokepoints?.force,
+            forbid: [...(request.chokepoints?.forbid || []), ...(next.chokepoints?.forbid || [])]
+          };
+      const result = await this.planLeg(ship, call, next, departureTime, cargoWeight, request.preferences || {}, chokepoints);
+      if (!result.leg) {
+        return { plan: null, error: 'No navigable route found', issues: result.issues.map(issue => `${label}${issue}`) };
+      }
+      legs.push(result.leg);
+    }
+
+    return { plan: { portCalls: scheduled, legs }, error: null, issues: [] };
+  }
+
+  // Voyage-wide weather: every leg's segments and alerts, rated by the roughest leg
+  mergeWeatherAnalyses(analyses: RouteWeatherAnalysis[]): RouteWeatherAnalysis {
+    if (analyses.length === 1) {
+      return analyses[0];
+    }
+
+    return {
+      routeSegments: analyses.flatMap(analysis => analysis.routeSegments),
+      overallRisk: analyses.reduce<RouteWeatherAnalysis['overallRisk']>(
+        (risk, analysis) => RISK_LEVELS.indexOf(analysis.overallRisk) > RISK_LEVELS.indexOf(risk) ? analysis.overallRisk : risk,
+        'low'
+      ),
+      alerts: analyses.flatMap(analysis => analysis.alerts)
+    };
+  }
+
+  // Preferred speed, or 80% of max speed, in knots
+  serviceSpeed(maxSpeedKnots: number, preferences: { [key: string]: unknown }): number {
+    return Number(preferences.preferredSpeed) || (maxSpeedKnots * 0.8);
+  }
+
+  private async planLeg(
+    ship: Ship,
+    from: PortCallRequest,
+    to: PortCallRequest,
+    departureTime: Date,
+    cargoWeight: number,
+    preferences: { [key: string]: unknown },
+    chokepoints: ChokepointPreferences | undefined
+  ): Promise<{ leg: LegPlan | null; issues: string[] }> {
+    const specifications = ship.specifications;
+
+    // Keep the direct route unless it crosses land, water shallower than the ship's draft,
+    // a chokepoint, or an exclusion zone or ice in force at departure
+    const exclusionZones = await exclusionZoneService.findActive(departureTime);
+    const speed = this.serviceSpeed(specifications.maxSpeed, preferences);
+    const iceClass = shipIceClass(specifications);
+
+    // Searched routes are priced with the forecast the ship meets on the way and the voyage's priority
+    const weatherAt = to.route ? undefined : await this.forecastSampler(from, to, departureTime, speed);
+    const planRequest = {
+      origin: { latitude: from.latitude, longitude: from.longitude },
+      destination: { latitude: to.latitude, longitude: to.longitude },
+      draft: specifications.draft,
+      length: specifications.length,
+      width: specifications.width,
+      speed,
+      chokepoints,
+      departureTime,
+      latitudeLimit: Number(preferences.maxLatitude) || null,
+      iceClass,
+      preferences: this.searchPreferences(preferences),
+      ecaFuelPriceRatio: preferences.priority === 'cost' ? DEFAULT_ECA_FUEL_PRICE_RATIO : undefined,
+      weatherAt
+    };
+    const { plan: routePlan, issues } = to.route
+      ? { plan: this.drawnRoute(to.route), issues: [] }
+      : routePlanner.plan({ ...planRequest, exclusionZones });
+    if (!routePlan) {
+      return { leg: null, issues };
+    }
+
+    // When soft zones pushed the route elsewhere, offer the route that only avoids prohibited zones
+    const zoneMap = new ExclusionZoneMap(exclusionZones);
+    const alternativePlans = [];
+    if (!to.route && exclusionZones.some(zone => zone.severity !== 'prohibited')) {
+      const { plan: alternative } = routePlanner.plan({
+        ...planRequest,
+        exclusionZones: exclusionZones.filter(zone => zone.severity === 'prohibited')
+      });
+      if (alternative && JSON.stringify(alternative.waypoints) !== JSON.stringify(routePlan.waypoints)) {
+        alternativePlans.push(alternative);
+      }
+    }
+
+    // Estimate duration for the planned route, including chokepoint delays
+    const distanceKm = routePlan.distance * KM_PER_NAUTICAL_MILE;
+    const chokepointTransits = routePlanner.estimateTransits(routePlan.passages, specifications, speed, departureTime);
+    const transitDelayMinutes = Math.round(chokepointTransits.reduce((sum, transit) => sum + transit.delay, 0) * 60);
+    const durationMinutes = Math.round((distanceKm / (speed * KM_PER_NAUTICAL_MILE)) * 60) + transitDelayMinutes;
+
+    // With a berth window, sail the fuel-optimal speed profile instead of a constant service speed
+    const waypoints = routePlan.waypoints;
+    const sailing = {
+      legs: waypoints.slice(1).map((point, index) => ({
+        from: waypoints[index],
+        to: point,
+        distance: distanceNm(waypoints[index], point)
+      })),
+      departureTime,
+      delays: routePlan.passages.map((passage, index) => ({
+        distanceFromOrigin: passage.distanceFromOrigin,
+        hours: chokepointTransits[index].delay
+      })),
+      fuelConsumption: (legSpeed: number, hours: number) => FuelPredictorModel.mainEngineConsumption({
+        enginePower: Number(specifications.enginePower) || FuelPredictorModel.DEFAULT_ENGINE_POWER,
+        engineLoad: FuelPredictorModel.DEFAULT_MAIN_ENGINE_LOAD,
+        maxSpeed: specifications.maxSpeed,
+        speed: legSpeed,
+        hours,
+        loadFactor: this.loadFactor(cargoWeight, specifications.cargoCapacity)
+      })
+    };
+    let speedProfile: SpeedProfile | null = null;
+    if (to.arrivalWindow) {
+      speedProfile = speedProfileOptimizer.optimize({
+        ...sailing,
+        arrivalWindow: to.arrivalWindow,
+        maxSpeed: specifications.maxSpeed
+      });
+    }
+
+    // Weather along the leg, using the forecast for when the ship reaches each waypoint
+    const sailedLegs = speedProfile ? speedProfile.legs : speedProfileOptimizer.sailAtSpeed(sailing, speed);
+    const etas = waypointEtas(departureTime, sailedLegs);
+    const weatherAnalysis = await weatherService.analyzeRouteWeather(
+      waypoints.map((point, index) => ({ ...point, estimatedArrival: etas[index] }))
+    );
+
+    const ecaExposure = emissionControlAreas.analyzeRoute(waypoints, speed, departureTime);
+    const zoneIntersections = zoneMap.analyzeRoute(waypoints);
+    const iceExposure = iceLimits.analyzeRoute(waypoints, iceClass, speed, departureTime);
+    const loadLine = loadLineZones.checkRoute(waypoints, etas, shipLoadLine(specifications), cargoWeight, from.sailingDraft ?? null);
+    const arrivalTime = speedProfile
+      ? new Date(speedProfile.arrivalTime)
+      : new Date(departureTime.getTime() + durationMinutes * 60000);
+    const berthingTime = speedProfile ? new Date(speedProfile.berthingTime) : arrivalTime;
+
+    // Planned fuel is the main engine fuel of the legs as sailed, with or without a speed profile
+    const estimatedFuelConsumption = sailedLegs.reduce((sum, leg) => sum + leg.fuel, 0);
+    const fuelByType = emissionControlAreas.splitFuel(sailedLegs, departureTime);
+
+    // Squat and clearance in the approach, sailed at the leg's final speed with the draft the load line check used
+    const approachSpeed = speedProfile && speedProfile.legs.length > 0 ? speedProfile.legs[speedProfile.legs.length - 1].speed : speed;
+    const hull = shipHullForm(specifications, ship.type, loadLine.plannedDraft ?? specifications.draft);
+    const underKeelClearance = hull ? portApproaches.assess(to, hull, approachSpeed, berthingTime) : null;
+
+    return {
+      leg: {
+        from,
+        to,
+        departureTime,
+        arrivalTime,
+        berthingTime,
+        cargoWeight,
+        waypoints,
+        distance: routePlan.distance,
+        estimatedFuelConsumption,
+        speedProfile,
+        weatherAnalysis,
+        routing: {
+          repaired: routePlan.repaired,
+          hazard: routePlan.hazard,
+          chokepointTransits,
+          transitFees: chokepointTransits.reduce((sum, transit) => sum + transit.toll, 0),
+          emissionControlAreas: {
+            zones: ecaExposure.zones,
+            distanceInside: ecaExposure.distanceInside,
+            timeInside: ecaExposure.timeInside,
+            fuelByType
+          },
+          exclusionZones: {
+            planned: zoneIntersections,
+            escortRequired: zoneIntersections.some(zone => zone.escortRequired),
+            alternatives: alternativePlans.map(alternative => ({
+              waypoints: alternative.waypoints,
+              distance: alternative.distance,
+              intersections: zoneMap.analyzeRoute(alternative.waypoints)
+            }))
+          },
+          ice: iceExposure,
+          loadLine,
+          underKeelClearance
+        }
+      },
+      issues: []
+    };
+  }
+
+  // The voyage's priority (and avoidWeather) as weights for the route search
+  private searchPreferences(preferences: { [key: string]: unknown }): WaypointSearchPreferences {
+    return {
+      prioritizeFuel: preferences.priority === 'fuel_efficiency' || preferences.priority === 'cost',
+      prioritizeTime: preferences.priority === 'time',
+      avoidRoughSeas: preferences.priority === 'safety' || preferences.avoidWeather === true
+    };
+  }
+
+  // Forecast hours along the great circle between the ports, looked up at the ship's ETA during the search
+  private async forecastSampler(
+    from: GeoPoint,
+    to: GeoPoint,
+    departureTime: Date,
+    speed: number
+  ): Promise<(point: GeoPoint) => SegmentWeather> {
+    const distance = distanceNm(from, to);
+    const points = greatCirclePoints(from, to, Math.max(WEATHER_SAMPLE_SPACING_NM, distance / MAX_WEATHER_SAMPLE_POINTS));
+    const days = Math.ceil(distance / speed / 24) + 1;
+    const forecasts = await Promise.all(points.map(point => weatherService.getForecast(point.latitude, point.longitude, days)));
+
+    const samples: WeatherSample[] = forecasts.flatMap((forecast, index) => (forecast?.hourly || [])
+      .filter((_, hour) => hour % WEATHER_SAMPLE_HOURS === 0)
+      .map(condition => ({
+        latitude: points[index].latitude,
+        longitude: points[index].longitude,
+        time: condition.timestamp,
+        windSpeed: condition.windSpeed / KM_PER_NAUTICAL_MILE, // km/h to knots
+        waveHeight: condition.seaState?.waveHeight || 0
+      })));
+    return weatherSampler(samples, CALM_WEATHER, from, departureTime, speed);
+  }
+
+  // A route drawn elsewhere (an ECDIS route plan) is kept waypoint for waypoint; zones on it are still reported
+  private drawnRoute(waypoints: GeoPoint[]): RoutePlan {
+    return {
+      waypoints,
+      distance: waypoints.slice(1).reduce((sum, point, index) => sum + distanceNm(waypoints[index], point), 0),
+      repaired: false,
+      hazard: null,
+      passages: []
+    };
+  }
+
+  // The ship's draft must fit the registered limit of every port it calls at
+  private checkDrafts(portCalls: PortCallRequest[], draft: number | null): string[] {
+    if (!draft) {
+      return [];
+    }
+
+    return portCalls
+      .filter(call => call.maxDraft !== undefined && call.maxDraft !== null && draft > call.maxDraft)
+      .map(call => `Ship draft ${draft} m exceeds the ${call.maxDraft} m limit at ${call.name || call.code}`);
+  }
+
+  // Cargo on board after each call must stay between zero and the ship's capacity
+  private checkCargo(portCalls: PortCallRequest[], cargoCapacity: number): string[] {
+    const issues: string[] = [];
+    let onBoard = 0;
+    portCalls.forEach((call, index) => {
+      const name = call.name || `port call ${index + 1}`;
+      onBoard -= call.cargoDischarged || 0;
+      if (onBoard < 0) {
+        issues.push(`${name} discharges ${-onBoard} t more than is on board`);
+        onBoard = 0;
+      }
+      onBoard += call.cargoLoaded || 0;
+      if (cargoCapacity && onBoard > cargoCapacity) {
+        issues.push(`${name} loads the ship to ${onBoard} t, above its ${cargoCapacity} t capacity`);
+      }
+    });
+    return issues;
+  }
+
+  private loadFactor(cargoWeight: number, cargoCapacity: number): number {
+    return cargoCapacity > 0 ? Math.min(1, cargoWeight / cargoCapacity) : 0;
+  }
+}
+
+export const voyagePlanningService = new VoyagePlanningService();
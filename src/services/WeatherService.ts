@@ -63,6 +63,9 @@ export interface RouteWeatherAnalysis {
   routeSegments: Array<{
     startPoint: { latitude: number; longitude: number };
     endPoint: { latitude: number; longitude: number };
+    startTime?: Date; // ETA at the start point, when waypoint ETAs are given
+    endTime?: Date; // ETA at the end point
+    beyondForecastHorizon?: boolean; // part of the segment is sailed after the last forecast hour
     weatherConditions: WeatherCondition[];
     riskLevel: 'low' | 'medium' | 'high' | 'extreme';
     recommendations: string[];
@@ -83,6 +86,12 @@ export interface RouteWeatherAnalysis {
   }>;
 }
 
+// Longest forecast the API serves
+const MAX_FORECAST_DAYS = 10;
+
+// Forecast hours sampled per segment at most, spread evenly when the segment takes longer
+const MAX_SEGMENT_SAMPLES = 48;
+
 export class WeatherService {
   private apiKey: string;
   private baseUrl: string;
@@ -216,23 +225,51 @@ export class WeatherService {
     }
   }
 
+  /**
+   * Weather risk per route segment. When every waypoint carries an
+   * estimatedArrival, each segment is assessed with the forecast hours the ship
+   * will actually sail it in; otherwise with current conditions and the next
+   * 12 hours.
+   */
   async analyzeRouteWeather(waypoints: Array<{ latitude: number; longitude: number; estimatedArrival?: Date }>): Promise<RouteWeatherAnalysis> {
     try {
       const routeSegments: RouteWeatherAnalysis['routeSegments'] = [];
       const alerts: RouteWeatherAnalysis['alerts'] = [];
       let overallRisk: RouteWeatherAnalysis['overallRisk'] = 'low';
+      const timed = waypoints.every(waypoint => waypoint.estimatedArrival);
+
+      // One forecast per waypoint, long enough to cover the half segments sailed on it
+      const forecasts: Array<Promise<WeatherForecast | null>> = [];
+      const forecastFor = (index: number): Promise<WeatherForecast | null> => {
+        if (!forecasts[index]) {
+          const { latitude, longitude } = waypoints[index];
+          const lastTime = (waypoints[index + 1] || waypoints[index]).estimatedArrival;
+          forecasts[index] = this.getForecast(latitude, longitude, timed ? this.forecastDays(lastTime as Date) : 3);
+        }
+        return forecasts[index];
+      };
 
       for (let i = 0; i < waypoints.length - 1; i++) {
         const startPoint = waypoints[i];
         const endPoint = waypoints[i + 1];
         
         // Get weather forecast for both points
-        const startWeather = await this.getForecast(startPoint.latitude, startPoint.longitude, 3);
-        const endWeather = await this.getForecast(endPoint.latitude, endPoint.longitude, 3);
+        const startWeather = await forecastFor(i);
+        const endWeather = await forecastFor(i + 1);
         
         // Interpolate weather conditions along the route segment
         const weatherConditions: WeatherCondition[] = [];
-        if (startWeather && endWeather) {
+        let beyondForecastHorizon: boolean | undefined;
+        if (startWeather && endWeather && timed) {
+          const sampled = this.sampleSegmentConditions(
+            startWeather,
+            endWeather,
+            startPoint.estimatedArrival as Date,
+            endPoint.estimatedArrival as Date
+          );
+          weatherConditions.push(...sampled.conditions);
+          beyondForecastHorizon = sampled.beyondForecastHorizon;
+        } else if (startWeather && endWeather) {
           weatherConditions.push(startWeather.current);
           weatherConditions.push(...startWeather.hourly.slice(0, 12)); // Next 12 hours
           weatherConditions.push(endWeather.current);
@@ -250,13 +287,19 @@ export class WeatherService {
         routeSegments.push({
           startPoint,
           endPoint,
+          ...(timed ? { startTime: startPoint.estimatedArrival, endTime: endPoint.estimatedArrival, beyondForecastHorizon } : {}),
           weatherConditions,
           riskLevel,
           recommendations
         });
 
-        // Check for weather alerts
-        const segmentAlerts = this.generateWeatherAlerts(startPoint, endPoint, weatherConditions);
+        // Check for weather alerts, valid while the ship sails the segment when ETAs are known
+        const segmentAlerts = this.generateWeatherAlerts(
+          startPoint,
+          endPoint,
+          weatherConditions,
+          timed ? { start: startPoint.estimatedArrival as Date, end: endPoint.estimatedArrival as Date } : undefined
+        );
         alerts.push(...segmentAlerts);
       }
 
@@ -293,6 +336,63 @@ export class WeatherService {
     }
   }
 
+  // Days of forecast needed to reach the ETA, at least the 3 used for untimed analysis
+  private forecastDays(estimatedArrival: Date): number {
+    const daysAhead = Math.ceil((estimatedArrival.getTime() - Date.now()) / (24 * 60 * 60 * 1000)) + 1;
+    return Math.min(MAX_FORECAST_DAYS, Math.max(3, daysAhead));
+  }
+
+  /**
+   * Forecast hours between the ETAs at both ends of a segment. The first half
+   * of the segment uses the start point's forecast, the second half the end
+   * point's. Hours past the end of the forecast reuse its last hour.
+   */
+  private sampleSegmentConditions(
+    startWeather: WeatherForecast,
+    endWeather: WeatherForecast,
+    startTime: Date,
+    endTime: Date
+  ): { conditions: WeatherCondition[]; beyondForecastHorizon: boolean } {
+    const span = Math.max(0, endTime.getTime() - startTime.getTime());
+    const step = Math.max(60 * 60 * 1000, span / MAX_SEGMENT_SAMPLES);
+    const conditions: WeatherCondition[] = [];
+    let beyondForecastHorizon = false;
+
+    for (let offset = 0; ; offset = Math.min(span, offset + step)) {
+      const forecast = span === 0 || offset / span < 0.5 ? startWeather : endWeather;
+      const sample = this.conditionAt(forecast, new Date(startTime.getTime() + offset));
+      conditions.push(sample.condition);
+      beyondForecastHorizon = beyondForecastHorizon || sample.beyondForecastHorizon;
+      if (offset >= span) {
+        break;
+      }
+    }
+
+    return { conditions, beyondForecastHorizon };
+  }
+
+  // Forecast hour closest to the given time, or the current conditions for times already past
+  private conditionAt(forecast: WeatherForecast, time: Date): { condition: WeatherCondition; beyondForecastHorizon: boolean } {
+    const location = { latitude: forecast.location.latitude, longitude: forecast.location.longitude };
+    const halfHour = 30 * 60 * 1000;
+    if (forecast.hourly.length === 0 || time.getTime() <= forecast.current.timestamp.getTime() + halfHour) {
+      return { condition: { ...forecast.current, ...location }, beyondForecastHorizon: false };
+    }
+
+    let closest = forecast.hourly[0];
+    for (const hour of forecast.hourly) {
+      if (Math.abs(hour.timestamp.getTime() - time.getTime()) < Math.abs(closest.timestamp.getTime() - time.getTime())) {
+        closest = hour;
+      }
+    }
+
+    const lastHour = forecast.hourly[forecast.hourly.length - 1];
+    return {
+      condition: { ...closest, ...location },
+      beyondForecastHorizon: time.getTime() > lastHour.timestamp.getTime() + halfHour
+    };
+  }
+
   private getMockWeatherCondition(latitude: number, longitude: number): WeatherCondition {
     // Generate realistic mock weather data based on location and time
     const now = new Date();
@@ -516,7 +616,8 @@ export class WeatherService {
   private generateWeatherAlerts(
     startPoint: { latitude: number; longitude: number },
     endPoint: { latitude: number; longitude: number },
-    conditions: WeatherCondition[]
+    conditions: WeatherCondition[],
+    window?: { start: Date; end: Date }
   ): RouteWeatherAnalysis['alerts'] {
     const alerts: RouteWeatherAnalysis['alerts'] = [];
     
@@ -531,8 +632,8 @@ export class WeatherService {
           longitude: (startPoint.longitude + endPoint.longitude) / 2,
           radius: 50
         },
-        validFrom: new Date(),
-        validTo: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        validFrom: window ? window.start : new Date(),
+        validTo: window ? window.end : new Date(Date.now() + 24 * 60 * 60 * 1000),
         description: 'Storm conditions with high winds and heavy precipitation'
       });
     }
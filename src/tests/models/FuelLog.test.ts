@@ -0,0 +1,146 @@
+import { Knex } from 'knex';
+import { db } from '../../utils/database';
+import { CreateFuelLogInput, FuelLogService } from '../../models/FuelLog';
+
+jest.mock('../../utils/database', () => ({ db: jest.fn() }));
+
+interface StoredLog {
+  id: string;
+  log_time: Date;
+  event_type: 'consumption' | 'bunkering';
+  fuel_type: string | null;
+  fuel_remaining: string | null;
+  bunkered_amount: string | null;
+}
+
+// A query builder over stored logs of one ship, enough for the history lookups and the insert
+function storedLogs(logs: StoredLog[]): Knex.Transaction & { inserted: unknown[] } {
+  const rows = logs.map(log => ({
+    ship_id: 'ship-1',
+    voyage_id: null,
+    fuel_consumed: '0',
+    current_speed: null,
+    current_lat: null,
+    current_lng: null,
+    engine_load: null,
+    weather_conditions: null,
+    additional_metrics: null,
+    ...log
+  }));
+  const inserted: unknown[] = [];
+
+  const query = jest.fn(() => {
+    let before: Date | null = null;
+    let after: Date | null = null;
+    const builder = {
+      where: (column: unknown, operator?: string, value?: Date): object => {
+        if (column === 'log_time' && operator === '<' && value) {
+          before = value;
+        } else if (column === 'log_time' && operator === '>' && value) {
+          after = value;
+        }
+        return builder;
+      },
+      whereNotNull: () => builder,
+      orderBy: () => builder,
+      first: async (): Promise<object | undefined> => {
+        const candidates = rows.filter(row => row.fuel_remaining !== null &&
+          (!before || row.log_time < (before as Date)) && (!after || row.log_time > (after as Date)));
+        return before ? candidates[candidates.length - 1] : candidates[0];
+      },
+      insert: (values: unknown[]): { returning: () => Promise<object[]> } => {
+        inserted.push(...values);
+        return { returning: async () => values.map((_, index) => ({ ...rows[0], id: `new-${index}` })) };
+      },
+      then: (resolve: (value: unknown) => unknown) => Promise.resolve(rows).then(resolve)
+    };
+    return builder;
+  });
+  return Object.assign(query, { inserted }) as unknown as Knex.Transaction & { inserted: unknown[] };
+}
+
+const at = (hour: number): Date => new Date(Date.UTC(2024, 2, 1, hour));
+
+describe('FuelLogService consistency checks', () => {
+  const service = new FuelLogService();
+
+  // HFO sounded at 06:00 and 18:00, with a 12:00 log still to come
+  const history = (): ReturnType<typeof storedLogs> => storedLogs([
+    { id: 'log-1', log_time: at(6), event_type: 'consumption', fuel_type: 'HFO', fuel_remaining: '500', bunkered_amount: null },
+    { id: 'log-2', log_time: at(18), event_type: 'consumption', fuel_type: 'HFO', fuel_remaining: '480', bunkered_amount: null }
+  ]);
+  const log = (hour: number, fuelRemaining: number, extra: Partial<CreateFuelLogInput> = {}): CreateFuelLogInput => ({
+    shipId: 'ship-1',
+    logTime: at(hour),
+    fuelConsumed: 5,
+    fuelRemaining,
+    fuelType: 'HFO',
+    ...extra
+  });
+
+  it('inserts a batch that fits between the stored soundings', async () => {
+    const query = history();
+    const result = await service.ingest([log(12, 490)], query);
+
+    expect(result.issues).toEqual([]);
+    expect(result.inserted).toHaveLength(1);
+    expect(query.inserted).toHaveLength(1);
+  });
+
+  it('rejects the whole batch when fuel remaining rises without a bunkering', async () => {
+    const query = history();
+    const result = await service.ingest([log(12, 490), log(14, 495)], query);
+
+    expect(result.inserted).toEqual([]);
+    expect(result.issues).toEqual([expect.objectContaining({
+      type: 'fuel_remaining_increased',
+      logTime: at(14),
+      previousRemaining: 490,
+      currentRemaining: 495
+    })]);
+    expect(query.inserted).toEqual([]);
+  });
+
+  it('checks the batch against the next stored sounding as well', async () => {
+    const result = await service.ingest([log(12, 470)], history());
+
+    expect(result.issues).toEqual([expect.objectContaining({
+      type: 'fuel_remaining_increased',
+      logTime: at(18),
+      previousLogTime: at(12),
+      logId: 'log-2'
+    })]);
+  });
+
+  it('allows increases within the sounding tolerance and up to the bunkered amount', async () => {
+    const result = await service.ingest([
+      log(10, 495.4),
+      log(12, 595, { eventType: 'bunkering', bunkeredAmount: 100 })
+    ], storedLogs([]));
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('flags a bunkering that raises fuel remaining by more than was delivered', async () => {
+    const result = await service.ingest([
+      log(10, 400),
+      log(12, 600, { eventType: 'bunkering', bunkeredAmount: 100 })
+    ], storedLogs([]));
+
+    expect(result.issues).toEqual([expect.objectContaining({ type: 'bunkering_exceeds_delivery', previousRemaining: 400 })]);
+    expect(result.issues[0].message).toBe('Fuel remaining increased by 200.00 t but only 100 t was bunkered');
+  });
+
+  it('checks stored history per fuel type', async () => {
+    jest.mocked(db).mockImplementation(storedLogs([
+      { id: 'log-1', log_time: at(6), event_type: 'consumption', fuel_type: 'HFO', fuel_remaining: '500', bunkered_amount: null },
+      { id: 'log-2', log_time: at(8), event_type: 'consumption', fuel_type: 'MGO', fuel_remaining: '80', bunkered_amount: null },
+      { id: 'log-3', log_time: at(10), event_type: 'consumption', fuel_type: 'HFO', fuel_remaining: '490', bunkered_amount: null },
+      { id: 'log-4', log_time: at(12), event_type: 'consumption', fuel_type: 'MGO', fuel_remaining: '85', bunkered_amount: null }
+    ]) as unknown as typeof db);
+
+    const issues = await service.checkShipConsistency('ship-1');
+
+    expect(issues).toEqual([expect.objectContaining({ type: 'fuel_remaining_increased', logId: 'log-4', previousRemaining: 80 })]);
+  });
+});
@@ -0,0 +1,121 @@
+import { AisDecoder, AisPositionReport, AisStaticVoyageData } from '../../../services/Ais/AisDecoder';
+
+// Two's complement bit field of the given width
+function bitField(value: number, length: number): string {
+  return (value < 0 ? value + Math.pow(2, length) : value).toString(2).padStart(length, '0');
+}
+
+// Armor a bit string into an AIVDM sentence with a valid checksum
+function sentence(bits: string): string {
+  const fillBits = (6 - (bits.length % 6)) % 6;
+  const padded = bits + '0'.repeat(fillBits);
+  let payload = '';
+  for (let i = 0; i < padded.length; i += 6) {
+    const value = parseInt(padded.slice(i, i + 6), 2);
+    payload += String.fromCharCode(value < 40 ? value + 48 : value + 56);
+  }
+
+  const body = `AIVDM,1,1,,A,${payload},${fillBits}`;
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return `!${body}*${checksum.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+describe('AisDecoder', () => {
+  const TYPE_5_PART_1 = '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C';
+  const TYPE_5_PART_2 = '!AIVDM,2,2,1,A,88888888880,2*25';
+
+  it('decodes a class A position report', () => {
+    const result = new AisDecoder().decode('!AIVDM,1,1,,A,15RTgt0PAso;90TKcjM8h6g208CQ,0*4A');
+
+    expect(result.error).toBeNull();
+    expect(result.messageType).toBe(1);
+    const report = result.message as AisPositionReport;
+    expect(report.mmsi).toBe('371798000');
+    expect(report.navigationStatus).toBe(0);
+    expect(report.speedOverGround).toBe(12.3);
+    expect(report.latitude).toBeCloseTo(48.381633, 5);
+    expect(report.longitude).toBeCloseTo(-123.395383, 5);
+    expect(report.courseOverGround).toBe(224);
+    expect(report.trueHeading).toBe(215);
+    expect(report.second).toBe(33);
+  });
+
+  it('decodes a class B position report', () => {
+    const result = new AisDecoder().decode('!AIVDM,1,1,,A,B6CdCm0t3`tba35f@V9faHi7kP06,0*58');
+
+    expect(result.messageType).toBe(18);
+    const report = result.message as AisPositionReport;
+    expect(report.mmsi).toBe('423302100');
+    expect(report.navigationStatus).toBeNull();
+    expect(report.rateOfTurn).toBeNull();
+    expect(report.speedOverGround).toBe(1.4);
+    expect(report.latitude).toBeCloseTo(40.005283, 5);
+    expect(report.longitude).toBeCloseTo(53.010997, 5);
+    expect(report.trueHeading).toBe(177);
+  });
+
+  it('reports position, speed, course and heading as not available', () => {
+    const bits = [
+      bitField(3, 6), bitField(0, 2), bitField(244670316, 30), bitField(5, 4), bitField(-128, 8),
+      bitField(1023, 10), '0', bitField(181 * 600000, 28), bitField(91 * 600000, 27),
+      bitField(3600, 12), bitField(511, 9), bitField(60, 6)
+    ].join('').padEnd(168, '0');
+
+    const result = new AisDecoder().decode(sentence(bits));
+
+    expect(result.messageType).toBe(3);
+    const report = result.message as AisPositionReport;
+    expect(report.mmsi).toBe('244670316');
+    expect(report.navigationStatus).toBe(5);
+    expect(report.rateOfTurn).toBeNull();
+    expect(report.speedOverGround).toBeNull();
+    expect(report.latitude).toBeNull();
+    expect(report.longitude).toBeNull();
+    expect(report.courseOverGround).toBeNull();
+    expect(report.trueHeading).toBeNull();
+    expect(report.second).toBeNull();
+  });
+
+  it('reassembles a two-part static and voyage data message', () => {
+    const decoder = new AisDecoder();
+    const first = decoder.decode(TYPE_5_PART_1);
+    const second = decoder.decode(TYPE_5_PART_2);
+
+    expect(first).toEqual({ message: null, messageType: null, receivedAt: null, error: null });
+    expect(second.messageType).toBe(5);
+    const data = second.message as AisStaticVoyageData;
+    expect(data.mmsi).toBe('351759000');
+    expect(data.imoNumber).toBe('9134270');
+    expect(data.callSign).toBe('3FOF8');
+    expect(data.shipName).toBe('EVER DIADEM');
+    expect(data.shipType).toBe(70);
+    expect(data.dimensions).toEqual({ toBow: 225, toStern: 70, toPort: 1, toStarboard: 31 });
+    expect(data.eta).toEqual({ month: 5, day: 15, hour: 14, minute: 0 });
+    expect(data.draught).toBe(12.2);
+    expect(data.destination).toBe('NEW YORK');
+  });
+
+  it('rejects a sentence whose checksum does not match', () => {
+    const result = new AisDecoder().decode('!AIVDM,1,1,,A,15RTgt0PAso;90TKcjM8h6g208CQ,0*4B');
+
+    expect(result.message).toBeNull();
+    expect(result.error).toBe('Checksum mismatch');
+  });
+
+  it('drops a first fragment whose second part arrives too late', () => {
+    const decoder = new AisDecoder();
+    decoder.decode(TYPE_5_PART_1, new Date('2024-03-01T12:00:00Z'));
+    const late = decoder.decode(TYPE_5_PART_2, new Date('2024-03-01T12:01:01Z'));
+
+    expect(late.message).toBeNull();
+    expect(late.error).toBeNull();
+
+    // The message is decoded when it is sent again in time
+    decoder.decode(TYPE_5_PART_1, new Date('2024-03-01T12:01:10Z'));
+    const resent = decoder.decode(TYPE_5_PART_2, new Date('2024-03-01T12:01:11Z'));
+    expect(resent.messageType).toBe(5);
+  });
+});
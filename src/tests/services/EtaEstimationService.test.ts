@@ -0,0 +1,135 @@
+import { EtaEstimationService } from '../../services/EtaEstimationService';
+import { shipService, Ship } from '../../models/Ship';
+import { voyageService, Voyage } from '../../models/Voyage';
+import { voyageItineraryService, PortCall } from '../../models/VoyageItinerary';
+import { voyageEtaRevisionService, VoyageEtaRevision, CreateVoyageEtaRevisionInput } from '../../models/VoyageEtaRevision';
+import { FuelLog } from '../../models/FuelLog';
+import { distanceNm } from '../../services/Navigation/Geometry';
+
+// The estimator only reads and writes through these; the model module loads the TensorFlow native addon
+jest.mock('@tensorflow/tfjs-node', () => ({}));
+jest.mock('../../utils/database', () => ({
+  db: {
+    transaction: jest.fn(async () => Object.assign(
+      (): object => ({ where: () => ({ update: jest.fn(async () => 1) }) }),
+      { commit: jest.fn(), rollback: jest.fn() }
+    )),
+    fn: { now: jest.fn() }
+  }
+}));
+jest.mock('../../models/Ship', () => ({ shipService: { findById: jest.fn() } }));
+jest.mock('../../models/Voyage', () => ({ voyageService: { findById: jest.fn(), updateStatus: jest.fn() } }));
+jest.mock('../../models/VoyageItinerary', () => ({ voyageItineraryService: { findByVoyageId: jest.fn() } }));
+jest.mock('../../models/VoyageEtaRevision', () => ({
+  voyageEtaRevisionService: { create: jest.fn(), findFirstByVoyageId: jest.fn(), findLatestByVoyageId: jest.fn() }
+}));
+jest.mock('../../services/WeatherService', () => ({
+  weatherService: { analyzeRouteWeather: jest.fn(async () => ({ routeSegments: [], alerts: [] })) }
+}));
+jest.mock('../../services/VoyagePlanningService', () => ({
+  voyagePlanningService: {
+    serviceSpeed: (maxSpeed: number, preferences: { [key: string]: unknown }): number => Number(preferences.preferredSpeed) || maxSpeed * 0.8
+  }
+}));
+
+const HOUR = 3600000;
+
+describe('EtaEstimationService', () => {
+  const service = new EtaEstimationService();
+  const reportTime = new Date('2024-06-01T00:00:00Z');
+
+  // A voyage along the equator from 0E to 10E, planned to arrive 20 hours after the report
+  const voyage = {
+    id: 'voyage-1',
+    shipId: 'ship-1',
+    status: 'in_progress',
+    origin: { name: 'West', latitude: 0, longitude: 0 },
+    destination: { name: 'East', latitude: 0, longitude: 10 },
+    plannedRoute: [{ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 7 }, { latitude: 0, longitude: 10 }],
+    estimatedArrivalTime: new Date(reportTime.getTime() + 20 * HOUR),
+    cargoWeight: 5000,
+    optimizationParameters: null
+  } as unknown as Voyage;
+  const ship = {
+    id: 'ship-1',
+    specifications: { maxSpeed: 15, cargoCapacity: 10000, enginePower: 10000 }
+  } as unknown as Ship;
+  const position = { latitude: 0, longitude: 5 };
+  const remainingDistance = distanceNm(position, { latitude: 0, longitude: 10 });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(shipService.findById).mockResolvedValue(ship);
+    jest.mocked(voyageEtaRevisionService.findFirstByVoyageId).mockResolvedValue(null);
+    jest.mocked(voyageEtaRevisionService.findLatestByVoyageId).mockResolvedValue(null);
+    jest.mocked(voyageItineraryService.findByVoyageId).mockResolvedValue({ portCalls: [], legs: [] });
+    jest.mocked(voyageEtaRevisionService.create).mockImplementation(async (input: CreateVoyageEtaRevisionInput) =>
+      ({ ...input, id: 'revision-1', createdAt: reportTime, updatedAt: reportTime }));
+  });
+
+  it('sails the rest of the route at the reported speed and marks the voyage delayed', async () => {
+    const revision = await service.reestimate(voyage, { time: reportTime, position, speed: 10, source: 'position_report' });
+
+    expect(revision?.remainingDistance).toBeCloseTo(remainingDistance, 2);
+    expect(revision?.speed).toBe(10);
+    expect(revision?.estimatedArrivalTime.getTime()).toBeCloseTo(reportTime.getTime() + remainingDistance / 10 * HOUR, -3);
+    expect(revision?.delayHours).toBeCloseTo(remainingDistance / 10 - 20, 2);
+    expect(revision?.remainingFuelConsumption).toBeGreaterThan(0);
+    expect(revision?.delayRaised).toBe(true);
+    expect(voyageService.updateStatus).toHaveBeenCalledWith('voyage-1', 'delayed', expect.objectContaining({ changedBy: 'eta-monitor' }));
+  });
+
+  it('falls back to the service speed when the ship reports almost no speed', async () => {
+    const revision = await service.reestimate(voyage, { time: reportTime, position, speed: 1, source: 'position_report' });
+
+    expect(revision?.speed).toBe(12);
+    expect(revision?.delayRaised).toBe(false);
+    expect(voyageService.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('adds the planned stay at a port call still ahead', async () => {
+    const call = (latitude: number, longitude: number, arrival: number | null, departure: number | null): PortCall => ({
+      latitude,
+      longitude,
+      plannedArrivalTime: arrival === null ? null : new Date(reportTime.getTime() + arrival * HOUR),
+      plannedDepartureTime: departure === null ? null : new Date(reportTime.getTime() + departure * HOUR),
+      actualArrivalTime: null,
+      actualDepartureTime: null
+    } as PortCall);
+    jest.mocked(voyageItineraryService.findByVoyageId).mockResolvedValue({
+      portCalls: [call(0, 0, null, -30), call(0, 7, 12, 17), call(0, 10, 40, null)],
+      legs: []
+    });
+
+    const revision = await service.reestimate(voyage, { time: reportTime, position, speed: 10, source: 'position_report' });
+
+    expect(revision?.estimatedArrivalTime.getTime()).toBeCloseTo(reportTime.getTime() + (remainingDistance / 10 + 5) * HOUR, -3);
+  });
+
+  it('ignores voyages not under way and reports older than the latest revision', async () => {
+    const planned = { ...voyage, status: 'planned' } as Voyage;
+    expect(await service.reestimate(planned, { time: reportTime, position, speed: 10, source: 'position_report' })).toBeNull();
+
+    jest.mocked(voyageEtaRevisionService.findLatestByVoyageId).mockResolvedValue({
+      reportTime: new Date(reportTime.getTime() + HOUR)
+    } as VoyageEtaRevision);
+    expect(await service.reestimate(voyage, { time: reportTime, position, speed: 10, source: 'position_report' })).toBeNull();
+    expect(voyageEtaRevisionService.create).not.toHaveBeenCalled();
+  });
+
+  it('re-estimates each voyage once from its latest fuel log with a position', async () => {
+    jest.mocked(voyageService.findById).mockResolvedValue(voyage);
+    const log = (hours: number, logPosition: FuelLog['position']): FuelLog => ({
+      voyageId: 'voyage-1',
+      logTime: new Date(reportTime.getTime() + hours * HOUR),
+      position: logPosition,
+      currentSpeed: 10
+    } as FuelLog);
+
+    const revisions = await service.reestimateFromFuelLogs([log(0, position), log(2, { latitude: 0, longitude: 6 }), log(3, null)]);
+
+    expect(revisions).toHaveLength(1);
+    expect(voyageEtaRevisionService.create).toHaveBeenCalledTimes(1);
+    expect(revisions[0]).toMatchObject({ source: 'fuel_log', position: { latitude: 0, longitude: 6 } });
+  });
+});
@@ -0,0 +1,65 @@
+import { ChokepointCatalogue } from '../../../services/Navigation/Chokepoints';
+import { distanceNm } from '../../../services/Navigation/Geometry';
+
+describe('ChokepointCatalogue', () => {
+  // A canal along the equator, entered between 06:00 and 08:00 UTC, taking 10 hours however fast the ship is
+  const catalogue = new ChokepointCatalogue({
+    chokepoints: [{
+      id: 'test_canal',
+      name: 'Test Canal',
+      type: 'canal',
+      path: [[0, 0], [0.5, 0], [1, 0], [1.5, 0]],
+      radius: 5,
+      limits: { maxLength: 300, maxDraft: 12 },
+      transitTime: 10,
+      averageWaitingTime: 2,
+      entryWindows: [{ start: '06:00', end: '08:00' }],
+      toll: { base: 1000, perCapacityTon: 2 }
+    }]
+  });
+  const [canal] = catalogue.list();
+  const ship = { length: 250, width: 40, draft: 11, cargoCapacity: 5000 };
+  const sailingTime = distanceNm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1.5 }) / 10;
+
+  it('lists the limits a ship exceeds and skips dimensions it does not know', () => {
+    expect(catalogue.checkShip(canal, ship)).toEqual([]);
+    expect(catalogue.checkShip(canal, { length: 320, width: 40, draft: 14 })).toEqual([
+      'Length 320 m exceeds the Test Canal limit of 300 m',
+      'Draft 14 m exceeds the Test Canal limit of 12 m'
+    ]);
+    expect(catalogue.checkShip(canal, { length: null, draft: null })).toEqual([]);
+  });
+
+  it('waits for the next entry window and charges the toll on the cargo capacity', () => {
+    const transit = catalogue.estimateTransit(canal, ship, 10, new Date('2024-03-01T05:00:00Z'));
+
+    expect(transit.entryTime).toBe('2024-03-01T05:00:00.000Z');
+    expect(transit.waitingTime).toBeCloseTo(3, 6);
+    expect(transit.transitTime).toBe(10);
+    expect(transit.delay).toBeCloseTo(3 + 10 - sailingTime, 6);
+    expect(transit.toll).toBe(11000);
+  });
+
+  it('enters at once inside an entry window', () => {
+    const transit = catalogue.estimateTransit(canal, ship, 10, new Date('2024-03-01T07:00:00Z'));
+
+    expect(transit.waitingTime).toBe(2);
+  });
+
+  it('averages the wait for a window over the day when the arrival is unknown', () => {
+    const transit = catalogue.estimateTransit(canal, ship, 10);
+
+    expect(transit.entryTime).toBeNull();
+    expect(transit.waitingTime).toBeGreaterThan(2 + 10);
+    expect(transit.waitingTime).toBeLessThan(2 + 11);
+    expect(transit.delay).toBeCloseTo(catalogue.expectedDelay(canal, 10), 6);
+  });
+
+  it('closes the canal interior to segments that would bypass the passage', () => {
+    const across = [{ latitude: -1, longitude: 0.75 }, { latitude: 1, longitude: 0.75 }] as const;
+
+    expect(catalogue.isSegmentClear(...across)).toBe(false);
+    expect(catalogue.isSegmentClear({ latitude: 2, longitude: 0 }, { latitude: 2, longitude: 2 })).toBe(true);
+    expect(catalogue.isSegmentClear(...across, [{ latitude: -1, longitude: 0.75 }], 10)).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { EcaZoneCollection, EmissionControlAreas } from '../../../services/Navigation/EmissionControlAreas';
+import { distanceNm } from '../../../services/Navigation/Geometry';
+
+describe('EmissionControlAreas', () => {
+  // A square zone across the equator between the 2nd and 4th meridians, in force from 2020
+  const areas = new EmissionControlAreas({
+    features: [{
+      properties: { id: 'test_eca', name: 'Test ECA', effectiveFrom: '2020-01-01' },
+      geometry: { type: 'Polygon', coordinates: [[[2, -1], [4, -1], [4, 1], [2, 1], [2, -1]]] }
+    }]
+  } as EcaZoneCollection);
+  const date = new Date('2024-03-01T00:00:00Z');
+  const route = [{ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 6 }];
+
+  it('finds the zone in force at a position', () => {
+    expect(areas.findZoneAt({ latitude: 0, longitude: 3 }, date)).toEqual({ id: 'test_eca', name: 'Test ECA' });
+    expect(areas.findZoneAt({ latitude: 0, longitude: 5 }, date)).toBeNull();
+    expect(areas.findZoneAt({ latitude: 0, longitude: 3 }, new Date('2019-06-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('splits a route at the zone boundaries and totals the time inside', () => {
+    const exposure = areas.analyzeRoute(route, 12, date);
+
+    expect(exposure.legs.map(leg => leg.fuelType)).toEqual(['HFO', 'MGO', 'HFO']);
+    expect(exposure.legs[1].ecaId).toBe('test_eca');
+    expect(exposure.legs[1].from.longitude).toBeCloseTo(2, 6);
+    expect(exposure.legs[1].to.longitude).toBeCloseTo(4, 6);
+    expect(exposure.totalDistance).toBeCloseTo(distanceNm(route[0], route[1]), 6);
+    expect(exposure.distanceInside).toBeCloseTo(exposure.totalDistance / 3, 6);
+    expect(exposure.timeInside).toBeCloseTo(exposure.distanceInside / 12, 6);
+    expect(exposure.zones).toEqual([
+      { ecaId: 'test_eca', name: 'Test ECA', distance: exposure.distanceInside, time: exposure.timeInside }
+    ]);
+  });
+
+  it('sails the whole route on open-sea fuel before the zone takes effect', () => {
+    const exposure = areas.analyzeRoute(route, 12, new Date('2019-06-01T00:00:00Z'));
+
+    expect(exposure.legs).toHaveLength(1);
+    expect(exposure.legs[0].fuelType).toBe('HFO');
+    expect(exposure.distanceInside).toBe(0);
+    expect(exposure.zones).toEqual([]);
+  });
+
+  describe('splitFuel', () => {
+    it('shares each leg\'s own fuel by distance between its pieces inside and outside the zone', () => {
+      const fuelByType = areas.splitFuel([
+        { from: { latitude: 0, longitude: 0 }, to: { latitude: 0, longitude: 3 }, fuel: 300 },
+        { from: { latitude: 0, longitude: 3 }, to: { latitude: 0, longitude: 6 }, fuel: 60 }
+      ], date);
+
+      expect(fuelByType.HFO).toBeCloseTo(200 + 40, 6);
+      expect(fuelByType.MGO).toBeCloseTo(100 + 20, 6);
+    });
+
+    it('keeps the total fuel of legs that never enter a zone as open-sea fuel', () => {
+      expect(areas.splitFuel([
+        { from: { latitude: 5, longitude: 0 }, to: { latitude: 5, longitude: 6 }, fuel: 90 }
+      ], date)).toEqual({ HFO: 90, MGO: 0 });
+    });
+  });
+});
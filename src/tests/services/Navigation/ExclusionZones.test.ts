@@ -0,0 +1,65 @@
+import { ExclusionZoneArea, ExclusionZoneMap, isValidZoneGeometry } from '../../../services/Navigation/ExclusionZones';
+import { distanceNm } from '../../../services/Navigation/Geometry';
+
+describe('ExclusionZones', () => {
+  const square = (west: number, south: number, east: number, north: number): number[][] =>
+    [[west, south], [east, south], [east, north], [west, north], [west, south]];
+
+  const zone = (id: string, severity: ExclusionZoneArea['severity'], rings: number[][][]): ExclusionZoneArea => ({
+    id,
+    name: id,
+    category: 'piracy',
+    severity,
+    geometry: { type: 'Polygon', coordinates: rings }
+  });
+
+  // A prohibited square with a hole in it, a restricted square and an advisory one
+  const map = new ExclusionZoneMap([
+    zone('prohibited', 'prohibited', [square(2, -1, 4, 1), square(2.5, -0.5, 3.5, 0.5)]),
+    zone('restricted', 'restricted', [square(6, -1, 7, 1)]),
+    zone('advisory', 'advisory', [square(8, -1, 9, 1)])
+  ]);
+
+  it('finds the zones at a position, leaving out holes', () => {
+    expect(map.findZonesAt({ latitude: 0.8, longitude: 3 }).map(area => area.id)).toEqual(['prohibited']);
+    expect(map.findZonesAt({ latitude: 0, longitude: 3 })).toEqual([]);
+    expect(map.findZonesAt({ latitude: 0, longitude: 5 })).toEqual([]);
+  });
+
+  it('prices soft zones and never allows a prohibited one', () => {
+    expect(map.costFactorAt({ latitude: 0, longitude: 6.5 })).toBe(3);
+    expect(map.costFactorAt({ latitude: 0, longitude: 8.5 })).toBe(1.25);
+    expect(map.costFactorAt({ latitude: 0, longitude: 5 })).toBe(1);
+
+    expect(map.isSegmentAllowed({ latitude: 0.8, longitude: 0 }, { latitude: 0.8, longitude: 5 })).toBe(false);
+    expect(map.isSegmentAllowed({ latitude: 0, longitude: 5 }, { latitude: 0, longitude: 10 })).toBe(true);
+    expect(map.isSegmentClear({ latitude: 0, longitude: 5 }, { latitude: 0, longitude: 10 })).toBe(false);
+    expect(map.isSegmentClear({ latitude: 2, longitude: 0 }, { latitude: 2, longitude: 10 })).toBe(true);
+  });
+
+  it('lists the zones a route passes through in order, with the distance inside each', () => {
+    const route = [{ latitude: 0, longitude: 5 }, { latitude: 0, longitude: 10 }];
+    const intersections = map.analyzeRoute(route);
+
+    expect(intersections.map(item => item.zoneId)).toEqual(['restricted', 'advisory']);
+    expect(intersections[0].escortRequired).toBe(true);
+    expect(intersections[1].escortRequired).toBe(false);
+    expect(intersections[0].entry.longitude).toBeCloseTo(6, 6);
+    expect(intersections[0].distance).toBeCloseTo(distanceNm({ latitude: 0, longitude: 6 }, { latitude: 0, longitude: 7 }), 6);
+  });
+
+  it('measures only the distance outside a hole', () => {
+    const intersections = map.analyzeRoute([{ latitude: 0, longitude: 1 }, { latitude: 0, longitude: 5 }]);
+
+    expect(intersections).toHaveLength(1);
+    expect(intersections[0].distance).toBeCloseTo(distanceNm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 }), 6);
+  });
+
+  it('accepts closed GeoJSON polygons only', () => {
+    expect(isValidZoneGeometry({ type: 'Polygon', coordinates: [square(0, 0, 1, 1)] })).toBe(true);
+    expect(isValidZoneGeometry({ type: 'MultiPolygon', coordinates: [[square(0, 0, 1, 1)], [square(2, 2, 3, 3)]] })).toBe(true);
+    expect(isValidZoneGeometry({ type: 'Polygon', coordinates: [square(0, 0, 1, 1).slice(0, 4)] })).toBe(false);
+    expect(isValidZoneGeometry({ type: 'Polygon', coordinates: [square(0, 0, 1, 100)] })).toBe(false);
+    expect(isValidZoneGeometry({ type: 'Point', coordinates: [0, 0] })).toBe(false);
+  });
+});
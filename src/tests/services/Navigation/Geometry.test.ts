@@ -0,0 +1,73 @@
+import {
+  compositeSailing,
+  greatCircleDistance,
+  maxLatitudeOnGreatCircle,
+  rhumbLineDistance
+} from '../../../services/Navigation/Geometry';
+
+describe('Geometry', () => {
+  const yokohama = { latitude: 35.4, longitude: 139.7 };
+  const sanFrancisco = { latitude: 37.8, longitude: -122.5 };
+
+  describe('greatCircleDistance', () => {
+    it('measures one degree of the equator as 60 nautical miles', () => {
+      expect(greatCircleDistance({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 })).toBeCloseTo(60.04, 2);
+      expect(greatCircleDistance({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 }, 'km')).toBeCloseTo(111.19, 1);
+    });
+
+    it('takes the short way across the antimeridian', () => {
+      expect(greatCircleDistance({ latitude: 0, longitude: 179 }, { latitude: 0, longitude: -179 })).toBeCloseTo(120.08, 1);
+    });
+
+    it('measures from the equator to the pole as a quarter circle', () => {
+      expect(greatCircleDistance({ latitude: 0, longitude: 0 }, { latitude: 90, longitude: 0 })).toBeCloseTo(5403.6, 0);
+    });
+  });
+
+  describe('rhumbLineDistance', () => {
+    it('matches the great circle along a meridian and the equator', () => {
+      const north = [{ latitude: 10, longitude: 20 }, { latitude: 40, longitude: 20 }] as const;
+      const east = [{ latitude: 0, longitude: 10 }, { latitude: 0, longitude: 40 }] as const;
+
+      expect(rhumbLineDistance(...north)).toBeCloseTo(greatCircleDistance(...north), 6);
+      expect(rhumbLineDistance(...east)).toBeCloseTo(greatCircleDistance(...east), 6);
+    });
+
+    it('follows a parallel at the cosine of its latitude', () => {
+      const distance = rhumbLineDistance({ latitude: 60, longitude: 0 }, { latitude: 60, longitude: 10 });
+
+      expect(distance).toBeCloseTo(300.2, 1);
+      expect(distance).toBeGreaterThan(greatCircleDistance({ latitude: 60, longitude: 0 }, { latitude: 60, longitude: 10 }));
+    });
+  });
+
+  describe('compositeSailing', () => {
+    it('keeps the great circle when it stays within the limit', () => {
+      const sailing = compositeSailing(yokohama, sanFrancisco, 60);
+
+      expect(sailing.limited).toBe(false);
+      expect(sailing.distance).toBeCloseTo(greatCircleDistance(yokohama, sanFrancisco), 6);
+      expect(sailing.parallelDistance).toBe(0);
+    });
+
+    it('sails the limiting parallel between two great-circle arcs', () => {
+      expect(maxLatitudeOnGreatCircle(yokohama, sanFrancisco)).toBeGreaterThan(45);
+
+      const sailing = compositeSailing(yokohama, sanFrancisco, 45);
+
+      expect(sailing.limited).toBe(true);
+      expect(sailing.parallelDistance).toBeGreaterThan(0);
+      expect(sailing.distance).toBeGreaterThan(sailing.greatCircleDistance);
+      expect(sailing.waypoints[0]).toEqual(yokohama);
+      expect(sailing.waypoints[sailing.waypoints.length - 1]).toEqual(sanFrancisco);
+      for (const point of sailing.waypoints) {
+        expect(point.latitude).toBeLessThanOrEqual(45 + 1e-9);
+      }
+
+      // The waypoints are close enough together that sailing them covers the composite distance
+      const sailed = sailing.waypoints.slice(1)
+        .reduce((sum, point, index) => sum + greatCircleDistance(sailing.waypoints[index], point), 0);
+      expect(sailed).toBeCloseTo(sailing.distance, -1);
+    });
+  });
+});
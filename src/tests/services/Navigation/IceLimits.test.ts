@@ -0,0 +1,67 @@
+import { IceLimitCollection, IceLimits, shipIceClass } from '../../../services/Navigation/IceLimits';
+import { distanceNm } from '../../../services/Navigation/Geometry';
+
+describe('IceLimits', () => {
+  // Medium first-year ice from December to March, and new ice only in February
+  const limits = new IceLimits({
+    features: [
+      {
+        properties: { id: 'medium', name: 'Medium ice', iceType: 'medium_first_year', season: { from: '12-01', to: '03-31' } },
+        geometry: { type: 'Polygon', coordinates: [[[2, -1], [4, -1], [4, 1], [2, 1], [2, -1]]] }
+      },
+      {
+        properties: { id: 'new', name: 'New ice', iceType: 'new_ice', season: { from: '02-01', to: '02-28' } },
+        geometry: { type: 'Polygon', coordinates: [[[6, -1], [8, -1], [8, 1], [6, 1], [6, -1]]] }
+      }
+    ]
+  } as IceLimitCollection);
+  const route = [{ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 10 }];
+
+  it('lets a ship into ice its class handles, one class lower only behind an icebreaker', () => {
+    expect(limits.rule('medium_first_year', 'IA')).toBe('permitted');
+    expect(limits.rule('medium_first_year', '1A Super')).toBe('permitted');
+    expect(limits.rule('medium_first_year', 'IB')).toBe('escort');
+    expect(limits.rule('medium_first_year', 'IC')).toBe('prohibited');
+    expect(limits.rule('new_ice', null)).toBe('prohibited');
+  });
+
+  it('keeps ice in force across the turn of the year', () => {
+    expect(limits.zoneAreas('IA', new Date('2024-01-15T00:00:00Z')).map(area => area.id)).toEqual(['medium']);
+    expect(limits.zoneAreas('IA', new Date('2024-02-15T00:00:00Z')).map(area => area.id)).toEqual(['medium', 'new']);
+    expect(limits.zoneAreas('IA', new Date('2024-07-01T00:00:00Z'))).toEqual([]);
+  });
+
+  it('routes ice like exclusion zones of the severity the ice class gives it', () => {
+    const areas = limits.zoneAreas('IB', new Date('2024-02-15T00:00:00Z'));
+
+    expect(areas.map(area => [area.id, area.severity])).toEqual([['medium', 'restricted'], ['new', 'advisory']]);
+  });
+
+  it('reports the ice on a route with its risk and hull wear', () => {
+    const exposure = limits.analyzeRoute(route, 'IB', 10, new Date('2024-02-15T00:00:00Z'));
+    const total = distanceNm(route[0], route[1]);
+
+    expect(exposure.iceClass).toBe('IB');
+    expect(exposure.zones.map(zone => [zone.zoneId, zone.rule])).toEqual([['medium', 'escort'], ['new', 'permitted']]);
+    expect(exposure.escortRequired).toBe(true);
+    expect(exposure.distanceInside).toBeCloseTo(total * 0.4, 6);
+    expect(exposure.timeInside).toBeCloseTo(exposure.distanceInside / 10, 6);
+    // A fifth of the route in each: medium ice counts double for risk while it needs an escort
+    expect(exposure.risk).toBeCloseTo(0.2 * 0.6 * 2 + 0.2 * 0.2, 6);
+    expect(exposure.hullWear).toBeCloseTo(0.2 * 0.6 + 0.2 * 0.2, 6);
+  });
+
+  it('finds no ice out of season', () => {
+    const exposure = limits.analyzeRoute(route, 'IB', 10, new Date('2024-07-01T00:00:00Z'));
+
+    expect(exposure.zones).toEqual([]);
+    expect(exposure.risk).toBe(0);
+    expect(exposure.hullWear).toBe(0);
+  });
+
+  it('reads the ice class from the ship specifications', () => {
+    expect(shipIceClass({ ice_class: '1A' })).toBe('1A');
+    expect(shipIceClass({ ice_class: 'None' })).toBeNull();
+    expect(shipIceClass({})).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { LoadLineShip, LoadLineZoneCollection, LoadLineZones, shipLoadLine } from '../../../services/Navigation/LoadLineZones';
+
+describe('LoadLineZones', () => {
+  // A seasonal winter area in the north, in winter from 16 October to 15 April, and a tropical zone all year
+  const zones = new LoadLineZones({
+    features: [
+      {
+        properties: { id: 'north', name: 'North area', winterNorthAtlantic: true, seasons: [{ from: '10-16', to: '04-15', zone: 'winter' }] },
+        geometry: { type: 'Polygon', coordinates: [[[0, 40], [10, 40], [10, 60], [0, 60], [0, 40]]] }
+      },
+      {
+        properties: { id: 'tropic', name: 'Tropical zone', winterNorthAtlantic: false, seasons: [{ from: '01-01', to: '12-31', zone: 'tropical' }] },
+        geometry: { type: 'Polygon', coordinates: [[[0, -10], [10, -10], [10, 10], [0, 10], [0, -10]]] }
+      }
+    ]
+  } as LoadLineZoneCollection);
+  const ship: LoadLineShip = { summerDraft: 12, lightDraft: 4, cargoCapacity: 8000, length: 200 };
+  const january = new Date('2024-01-10T00:00:00Z');
+  const july = new Date('2024-07-10T00:00:00Z');
+
+  it('finds the zone in force at a position and date', () => {
+    expect(zones.zoneAt({ latitude: 50, longitude: 5 }, january, 200)).toEqual({ areaId: 'north', name: 'North area', zone: 'winter' });
+    expect(zones.zoneAt({ latitude: 50, longitude: 5 }, july, 200).zone).toBe('summer');
+    expect(zones.zoneAt({ latitude: 50, longitude: 5 }, january, 90).zone).toBe('winter_north_atlantic');
+    expect(zones.zoneAt({ latitude: 0, longitude: 5 }, january).zone).toBe('tropical');
+    expect(zones.zoneAt({ latitude: 30, longitude: 5 }, january)).toEqual({ areaId: null, name: 'Summer Zone', zone: 'summer' });
+  });
+
+  it('allows the seasonal drafts of the load line regulations', () => {
+    expect(zones.allowedDraft(12, 'summer')).toBe(12);
+    expect(zones.allowedDraft(12, 'tropical')).toBeCloseTo(12.25, 6);
+    expect(zones.allowedDraft(12, 'winter')).toBeCloseTo(11.75, 6);
+    expect(zones.allowedDraft(12, 'winter_north_atlantic')).toBeCloseTo(11.7, 6);
+  });
+
+  it('estimates the draft from the cargo on board', () => {
+    expect(zones.estimateDraft(ship, 0)).toBe(4);
+    expect(zones.estimateDraft(ship, 4000)).toBe(8);
+    expect(zones.estimateDraft(ship, 8000)).toBe(12);
+  });
+
+  it('flags a winter area entered at the summer draft, with the cargo to take off', () => {
+    const route = [{ latitude: 30, longitude: 5 }, { latitude: 50, longitude: 5 }];
+    const check = zones.checkRoute(route, [january, new Date('2024-01-12T00:00:00Z')], ship, 8000, 12);
+
+    expect(check.plannedDraft).toBe(12);
+    expect(check.draftEstimated).toBe(false);
+    expect(check.zones.map(zone => zone.zone)).toEqual(['summer', 'winter']);
+    expect(check.zones[1].entry.latitude).toBeGreaterThanOrEqual(40);
+    expect(check.zones[1].entry.latitude).toBeLessThan(40.2);
+    expect(check.violations).toHaveLength(1);
+    expect(check.violations[0]).toMatchObject({ areaId: 'north', allowedDraft: 11.75, excessDraft: 0.25, excessCargo: 250 });
+  });
+
+  it('passes the same route in summer, and a lighter ship in winter', () => {
+    const route = [{ latitude: 30, longitude: 5 }, { latitude: 50, longitude: 5 }];
+
+    expect(zones.checkRoute(route, [july, new Date('2024-07-12T00:00:00Z')], ship, 8000, 12).violations).toEqual([]);
+
+    const light = zones.checkRoute(route, [january, new Date('2024-01-12T00:00:00Z')], ship, 4000);
+    expect(light.plannedDraft).toBe(8);
+    expect(light.draftEstimated).toBe(true);
+    expect(light.violations).toEqual([]);
+  });
+
+  it('reads the load line particulars from the ship specifications', () => {
+    expect(shipLoadLine({ draft: 10, lightDraft: 3, cargoCapacity: 5000, length: 150 }))
+      .toEqual({ summerDraft: 10, lightDraft: 3, cargoCapacity: 5000, length: 150 });
+    expect(shipLoadLine({ draft: 10 })).toEqual({ summerDraft: 10, lightDraft: 4, cargoCapacity: 0, length: null });
+    expect(shipLoadLine({})).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { PortApproachCollection, PortApproaches } from '../../../services/Navigation/PortApproaches';
+
+describe('PortApproaches', () => {
+  // A single open-water section, 6 m deep with no tide, where the critical speed is about 13.4 knots
+  const approaches = new PortApproaches({
+    features: [{
+      properties: {
+        id: 'shallow_bar',
+        name: 'Shallow bar',
+        portCode: 'XXSHB',
+        requiredUkc: 0.1,
+        speedLimit: 20,
+        tide: { meanLevel: 0, constituents: [] },
+        sections: [{ name: 'Bar', depth: 6, width: null }, { name: 'Berth', depth: 6, width: null }]
+      },
+      geometry: { type: 'LineString', coordinates: [[0, 0], [0.1, 0]] }
+    }]
+  } as PortApproachCollection);
+  const hull = { draft: 3, length: 100, width: 20, blockCoefficient: 0.7 };
+  const arrivalTime = new Date('2024-03-01T12:00:00Z');
+
+  it('keeps squat and clearance finite above the critical speed and marks the sections', () => {
+    const assessment = approaches.assess({ code: 'XXSHB', latitude: 0, longitude: 0.1 }, hull, 18, arrivalTime);
+
+    expect(assessment).not.toBeNull();
+    expect(assessment?.sections.every(section => section.critical)).toBe(true);
+    expect(assessment?.sections.every(section => Number.isFinite(section.squat) && Number.isFinite(section.ukc))).toBe(true);
+    expect(Number.isFinite(assessment?.minUkc)).toBe(true);
+    expect(JSON.parse(JSON.stringify(assessment)).minUkc).toBeCloseTo(assessment?.minUkc as number, 6);
+    expect(assessment?.status).toBe('reduce_speed');
+    expect(assessment?.maxApproachSpeed).toBeCloseTo(0.9 * Math.sqrt(9.81 * 6) * 3600 / 1852, 1);
+  });
+
+  it('does not mark sections sailed below the critical speed', () => {
+    const assessment = approaches.assess({ code: 'XXSHB', latitude: 0, longitude: 0.1 }, hull, 10, arrivalTime);
+
+    expect(assessment?.sections.some(section => section.critical)).toBe(false);
+    expect(assessment?.status).toBe('clear');
+  });
+});
@@ -0,0 +1,99 @@
+import { ExchangeRoute, RouteExchange } from '../../../services/Navigation/RouteExchange';
+
+describe('RouteExchange', () => {
+  const exchange = new RouteExchange();
+
+  // Two voyage legs meeting at a port call in Rotterdam, with a vessel name that needs escaping
+  const route: ExchangeRoute = {
+    name: 'Hamburg - Rotterdam - Antwerp',
+    vessel: { name: 'Ship & Co', imoNumber: '9321483', mmsi: '211234560' },
+    waypoints: [
+      { name: 'Hamburg', leg: 1, latitude: 53.54, longitude: 9.97, eta: new Date('2024-05-01T06:00:00Z'), speed: null, xtd: null },
+      { name: 'Elbe 1', leg: 1, latitude: 54.0, longitude: 8.1, eta: new Date('2024-05-01T12:00:00Z'), speed: 12, xtd: 0.5 },
+      { name: 'Rotterdam', leg: 1, latitude: 51.95, longitude: 4.05, eta: new Date('2024-05-02T08:00:00Z'), speed: 14, xtd: 1 },
+      { name: 'Antwerp', leg: 2, latitude: 51.3, longitude: 4.3, eta: new Date('2024-05-03T10:00:00Z'), speed: 10, xtd: 0.2 }
+    ]
+  };
+
+  describe('RTZ', () => {
+    it('reads back the route it writes', () => {
+      const xml = exchange.toRtz(route);
+      const result = exchange.parseRtz(xml);
+
+      expect(xml).toContain('vesselName="Ship &amp; Co"');
+      expect(result.errors).toEqual([]);
+      expect(result.route).toEqual({
+        routeName: route.name,
+        vesselMmsi: '211234560',
+        vesselImo: '9321483',
+        waypoints: [
+          { name: 'Hamburg', latitude: 53.54, longitude: 9.97, speed: null, xtd: null },
+          { name: 'Elbe 1', latitude: 54, longitude: 8.1, speed: 12, xtd: 0.5 },
+          { name: 'Rotterdam', latitude: 51.95, longitude: 4.05, speed: 14, xtd: 1 },
+          { name: 'Antwerp', latitude: 51.3, longitude: 4.3, speed: 10, xtd: 0.2 }
+        ],
+        departureTime: new Date('2024-05-01T06:00:00Z')
+      });
+    });
+
+    it('leaves out the schedule when no waypoint has an ETA', () => {
+      const xml = exchange.toRtz({ ...route, waypoints: route.waypoints.map(point => ({ ...point, eta: null })) });
+
+      expect(xml).not.toContain('<schedules>');
+      expect(exchange.parseRtz(xml).route?.departureTime).toBeNull();
+    });
+
+    it('takes the larger cross-track distance and reads namespace prefixes', () => {
+      const xml = `<rtz:route xmlns:rtz="http://www.cirm.org/RTZ/1/0" version="1.0">
+        <rtz:routeInfo routeName='Prefixed'/>
+        <rtz:waypoints>
+          <rtz:waypoint id="1"><rtz:position lat="10" lon="20"/></rtz:waypoint>
+          <rtz:waypoint id="2"><rtz:position lat="11" lon="21"/><rtz:leg portsideXTD="0.3" starboardXTD="0.8" speedMax="9"/></rtz:waypoint>
+        </rtz:waypoints>
+      </rtz:route>`;
+      const result = exchange.parseRtz(xml);
+
+      expect(result.route?.routeName).toBe('Prefixed');
+      expect(result.route?.waypoints[1]).toEqual({ latitude: 11, longitude: 21, name: null, speed: 9, xtd: 0.8 });
+    });
+
+    it('rejects documents that are not usable routes', () => {
+      expect(exchange.parseRtz('<gpx></gpx>')).toEqual({ route: null, errors: ['Not an RTZ route document'] });
+      expect(exchange.parseRtz('<route><waypoints><waypoint id="1"><position lat="1" lon="2"/></waypoint></waypoints></route>').errors)
+        .toEqual(['Route needs at least two waypoints']);
+      expect(exchange.parseRtz('<route><waypoint id="7"><position lat="95" lon="2"/></waypoint></route>').errors)
+        .toEqual(['Waypoint 7 has no valid position']);
+    });
+  });
+
+  describe('GPX', () => {
+    it('writes a track segment per voyage leg, starting from the port call', () => {
+      const gpx = exchange.toGpx(route);
+      const segments = gpx.split('<trkseg>').slice(1);
+
+      expect(segments).toHaveLength(2);
+      expect(segments[0].match(/<trkpt/g)).toHaveLength(3);
+      expect(segments[1]).toContain('<name>Rotterdam</name>');
+      expect(segments[1]).toContain('<trkpt lat="51.300000" lon="4.300000"><time>2024-05-03T10:00:00.000Z</time><name>Antwerp</name></trkpt>');
+    });
+  });
+
+  describe('GeoJSON', () => {
+    it('splits a leg crossing the antimeridian into two lines', () => {
+      const pacific: ExchangeRoute = {
+        name: 'Pacific',
+        waypoints: [
+          { name: 'West', leg: 1, latitude: 40, longitude: 170, eta: null, speed: null, xtd: null },
+          { name: 'East', leg: 1, latitude: 50, longitude: -170, eta: null, speed: 15, xtd: null }
+        ]
+      };
+      const collection = exchange.toGeoJson(pacific) as { features: Array<{ geometry: { type: string; coordinates: unknown } }> };
+
+      expect(collection.features[0].geometry).toEqual({
+        type: 'MultiLineString',
+        coordinates: [[[170, 40], [180, 45]], [[-180, 45], [-170, 50]]]
+      });
+      expect(collection.features.slice(1).map(feature => feature.geometry.type)).toEqual(['Point', 'Point']);
+    });
+  });
+});
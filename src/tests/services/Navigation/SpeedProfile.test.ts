@@ -0,0 +1,64 @@
+import { SpeedProfileOptimizer, SpeedProfileRequest } from '../../../services/Navigation/SpeedProfile';
+
+describe('SpeedProfileOptimizer', () => {
+  const optimizer = new SpeedProfileOptimizer();
+  const departureTime = new Date('2024-03-01T00:00:00Z');
+  const hoursAfterDeparture = (hours: number): Date => new Date(departureTime.getTime() + hours * 3600000);
+
+  // Two 120 nm legs; each mile of the second burns eight times the fuel, so it is sailed at half the speed
+  const request = (overrides: Partial<SpeedProfileRequest> = {}): SpeedProfileRequest => ({
+    legs: [
+      { from: { latitude: 0, longitude: 0 }, to: { latitude: 0, longitude: 2 }, distance: 120 },
+      { from: { latitude: 0, longitude: 2 }, to: { latitude: 0, longitude: 4 }, distance: 120, fuelFactor: 8 }
+    ],
+    departureTime,
+    arrivalWindow: { earliest: hoursAfterDeparture(20), latest: hoursAfterDeparture(30) },
+    maxSpeed: 20,
+    minSpeed: 2,
+    fuelConsumption: (speed, hours) => 0.01 * Math.pow(speed, 3) * hours,
+    ...overrides
+  });
+
+  it('arrives at the safety margin before the window closes on the least fuel', () => {
+    const profile = optimizer.optimize(request());
+
+    expect(profile.targetArrival).toBe(hoursAfterDeparture(28).toISOString());
+    expect(Math.abs(new Date(profile.arrivalTime).getTime() - hoursAfterDeparture(28).getTime())).toBeLessThan(1000);
+    expect(profile.legs[0].speed).toBeCloseTo(360 / 28, 6);
+    expect(profile.legs[1].speed).toBeCloseTo(profile.legs[0].speed / 2, 6);
+    expect(profile.feasible).toBe(true);
+    expect(profile.waitingTime).toBe(0);
+    expect(profile.totalFuel).toBeCloseTo(profile.legs[0].fuel + profile.legs[1].fuel, 6);
+    expect(profile.fuelSaving).toBeGreaterThan(0);
+  });
+
+  it('keeps canal waits on the leg where they occur', () => {
+    const profile = optimizer.optimize(request({ delays: [{ distanceFromOrigin: 120, hours: 4 }] }));
+
+    expect(profile.legs[0].delay).toBe(0);
+    expect(profile.legs[1].delay).toBe(4);
+    expect(profile.legs[0].duration + profile.legs[1].duration).toBeCloseTo(24, 6);
+    expect(Math.abs(new Date(profile.arrivalTime).getTime() - hoursAfterDeparture(28).getTime())).toBeLessThan(1000);
+  });
+
+  it('sails at maximum speed and reports the lateness when the window cannot be met', () => {
+    const profile = optimizer.optimize(request({
+      arrivalWindow: { earliest: hoursAfterDeparture(6), latest: hoursAfterDeparture(10) }
+    }));
+
+    expect(profile.legs.every(leg => leg.speed === 20)).toBe(true);
+    expect(profile.feasible).toBe(false);
+    expect(profile.lateness).toBeCloseTo(2, 6);
+  });
+
+  it('waits at anchor when even the slowest speed arrives before the window opens', () => {
+    const profile = optimizer.optimize(request({
+      minSpeed: 10,
+      arrivalWindow: { earliest: hoursAfterDeparture(40), latest: hoursAfterDeparture(50) }
+    }));
+
+    expect(profile.legs.every(leg => leg.speed === 10)).toBe(true);
+    expect(profile.waitingTime).toBeCloseTo(16, 6);
+    expect(profile.berthingTime).toBe(hoursAfterDeparture(40).toISOString());
+  });
+});
@@ -0,0 +1,77 @@
+import { TrackDeviationAnalyzer, PlannedLegTrack } from '../../../services/Navigation/TrackDeviation';
+
+describe('TrackDeviationAnalyzer', () => {
+  const analyzer = new TrackDeviationAnalyzer();
+
+  // One degree of longitude along the equator, 60 nm, planned at 10 knots
+  const leg = (overrides: Partial<PlannedLegTrack> = {}): PlannedLegTrack => ({
+    route: [{ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 }],
+    plannedDepartureTime: new Date('2024-03-01T00:00:00Z'),
+    plannedArrivalTime: new Date('2024-03-01T06:00:00Z'),
+    plannedFuel: 12,
+    actualDepartureTime: null,
+    actualArrivalTime: null,
+    actualFuel: null,
+    ...overrides
+  });
+
+  it('measures cross-track error to starboard as positive', () => {
+    const analysis = analyzer.analyze([leg()], [
+      { latitude: -0.1, longitude: 0.5, timestamp: '2024-03-01T03:00:00Z' }
+    ]);
+
+    expect(analysis.crossTrack[0].crossTrackError).toBeCloseTo(6, 1);
+    expect(analysis.crossTrack[0].alongTrack).toBeCloseTo(30, 0);
+    expect(analysis.summary.maxDeviation).toBeCloseTo(6, 1);
+  });
+
+  it('compares the recorded fuel of a completed leg with the plan', () => {
+    const analysis = analyzer.analyze([leg({
+      actualDepartureTime: new Date('2024-03-01T00:00:00Z'),
+      actualArrivalTime: new Date('2024-03-01T07:00:00Z'),
+      actualFuel: 13.5
+    })], [
+      { latitude: 0.05, longitude: 0.5, timestamp: '2024-03-01T03:30:00Z' }
+    ]);
+
+    const result = analysis.legs[0];
+    expect(result.complete).toBe(true);
+    expect(result.plannedFuel).toBe(12);
+    expect(result.actualFuel).toBe(13.5);
+    expect(result.fuelLost).toBe(1.5);
+    expect(result.fuelLostEstimated).toBe(false);
+    expect(result.timeLost).toBe(1);
+    expect(analysis.summary.fuelLost).toBe(1.5);
+  });
+
+  it('estimates the fuel lost on an unfinished leg from the extra distance', () => {
+    const analysis = analyzer.analyze([leg()], [
+      { latitude: 0, longitude: 0, timestamp: '2024-03-01T00:00:00Z' },
+      { latitude: 0.2, longitude: 0.25, timestamp: '2024-03-01T02:00:00Z' },
+      { latitude: 0, longitude: 0.5, timestamp: '2024-03-01T04:00:00Z' }
+    ]);
+
+    const result = analysis.legs[0];
+    expect(result.complete).toBe(false);
+    expect(result.extraDistance).toBeGreaterThan(0);
+    expect(result.fuelLostEstimated).toBe(true);
+    expect(result.fuelLost).toBeCloseTo(result.extraDistance * 12 / 60, 1);
+  });
+
+  it('skips positions reported alongside between legs', () => {
+    const first = leg({ actualArrivalTime: new Date('2024-03-01T06:00:00Z'), actualDepartureTime: new Date('2024-03-01T00:00:00Z') });
+    const second = leg({
+      route: [{ latitude: 0, longitude: 1 }, { latitude: 0, longitude: 2 }],
+      plannedDepartureTime: new Date('2024-03-02T00:00:00Z'),
+      plannedArrivalTime: new Date('2024-03-02T06:00:00Z')
+    });
+
+    const analysis = analyzer.analyze([first, second], [
+      { latitude: 0, longitude: 1, timestamp: '2024-03-01T12:00:00Z' },
+      { latitude: 0, longitude: 1.5, timestamp: '2024-03-02T03:00:00Z' }
+    ]);
+
+    expect(analysis.summary.trackPoints).toBe(1);
+    expect(analysis.crossTrack[0].leg).toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { WaypointSearch, WaypointSearchOptions } from '../../../services/Navigation/WaypointSearch';
+import { GeoPoint, distanceNm } from '../../../services/Navigation/Geometry';
+
+describe('WaypointSearch', () => {
+  const search = new WaypointSearch();
+  const origin = { latitude: 0, longitude: 0 };
+  const destination = { latitude: 0, longitude: 10 };
+
+  const options = (overrides: Partial<WaypointSearchOptions> = {}): WaypointSearchOptions => ({
+    preferences: { prioritizeFuel: false, prioritizeTime: false, avoidRoughSeas: false },
+    weatherAt: () => ({ windSpeed: 0, waveHeight: 0 }),
+    gridResolution: 0.5,
+    ...overrides
+  });
+
+  // A wall along the 5th meridian with openings between the given latitudes
+  const wallWithGaps = (gaps: Array<[number, number]>) => (from: GeoPoint, to: GeoPoint): boolean => {
+    const inGap = (latitude: number): boolean => gaps.some(([south, north]) => latitude >= south && latitude <= north);
+    if (Math.min(from.longitude, to.longitude) > 5 || Math.max(from.longitude, to.longitude) < 5) {
+      return true;
+    }
+    if (from.longitude === to.longitude) {
+      return inGap(from.latitude) && inGap(to.latitude);
+    }
+    return inGap(from.latitude + (to.latitude - from.latitude) * (5 - from.longitude) / (to.longitude - from.longitude));
+  };
+
+  const latitudeAtWall = (waypoints: GeoPoint[]): number => {
+    const index = waypoints.findIndex(point => point.longitude >= 5);
+    const [from, to] = [waypoints[index - 1], waypoints[index]];
+    return from.latitude + (to.latitude - from.latitude) * (5 - from.longitude) / (to.longitude - from.longitude);
+  };
+
+  it('sails the great circle in calm open water at cost equal to distance', () => {
+    const result = search.findRoute(origin, destination, options());
+
+    expect(result).not.toBeNull();
+    expect(result?.totalDistance).toBeCloseTo(distanceNm(origin, destination), 1);
+    expect(result?.cost).toBeCloseTo(result?.totalDistance as number, 6);
+    expect(result?.waypoints[0]).toEqual(origin);
+    expect(result?.waypoints[result.waypoints.length - 1]).toEqual(destination);
+  });
+
+  it('passes through the nearer of two openings in an obstacle', () => {
+    const result = search.findRoute(origin, destination, options({ isNavigable: wallWithGaps([[2, 3], [-7, -6]]) }));
+
+    expect(result).not.toBeNull();
+    const crossing = latitudeAtWall(result?.waypoints || []);
+    expect(crossing).toBeGreaterThanOrEqual(2);
+    expect(crossing).toBeLessThanOrEqual(3);
+
+    // No shorter than the straight lines through the edge of the opening, and within grid accuracy of them
+    const shortest = distanceNm(origin, { latitude: 2, longitude: 5 }) + distanceNm({ latitude: 2, longitude: 5 }, destination);
+    expect(result?.totalDistance).toBeGreaterThanOrEqual(shortest - 1e-6);
+    expect(result?.totalDistance).toBeLessThan(shortest * 1.02);
+  });
+
+  it('finds the cheapest route when the nearer opening is in rough seas', () => {
+    const rough = (point: GeoPoint): { windSpeed: number; waveHeight: number } =>
+      point.latitude > 0 && point.longitude > 3 && point.longitude < 7
+        ? { windSpeed: 45, waveHeight: 8 }
+        : { windSpeed: 0, waveHeight: 0 };
+    const result = search.findRoute(origin, destination, options({
+      isNavigable: wallWithGaps([[2, 3], [-4, -3]]),
+      weatherAt: rough
+    }));
+
+    expect(result).not.toBeNull();
+    const crossing = latitudeAtWall(result?.waypoints || []);
+    expect(crossing).toBeGreaterThanOrEqual(-4);
+    expect(crossing).toBeLessThanOrEqual(-3);
+    expect(result?.legs.every(leg => leg.roughness === 0)).toBe(true);
+  });
+
+  it('returns null when the destination cannot be reached', () => {
+    const result = search.findRoute(origin, destination, options({ isNavigable: wallWithGaps([]), maxExpansions: 5000 }));
+
+    expect(result).toBeNull();
+  });
+});
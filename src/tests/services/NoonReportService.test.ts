@@ -0,0 +1,86 @@
+import { noonReportService } from '../../services/NoonReportService';
+
+describe('NoonReportService.parseText', () => {
+  const REPORT = [
+    'NOON REPORT',
+    'DATE/TIME (UTC): 2024-03-22 12:00',
+    'POSITION: 44-48.0N 038-12.0W',
+    'DISTANCE RUN: 412.5 NM',
+    'AVG SPEED: 17.2 KN',
+    'HOURS STEAMED: 24',
+    'ME CONS HFO: 48.2',
+    'BOILER CONS HFO: 1.1',
+    'AE CONS MGO: 3.4',
+    'ROB HFO: 1781.3',
+    'ROB MGO: 142.0',
+    'WIND: NW 5',
+    'SEA STATE: 4',
+    'SWELL: 2.5 M',
+    'VISIBILITY: 10 NM',
+    'REMARKS: All well'
+  ].join('\n');
+
+  it('parses the plain-text report into the JSON request shape', () => {
+    const { report, errors } = noonReportService.parseText(REPORT);
+
+    expect(errors).toEqual([]);
+    expect(report).toEqual({
+      reportTime: '2024-03-22T12:00:00Z',
+      position: { latitude: '44.80000', longitude: '-38.20000' },
+      distanceRun: '412.5',
+      averageSpeed: '17.2',
+      hoursSteamed: '24',
+      consumption: [
+        { fuelType: 'HFO', mainEngine: '48.2', auxiliaryEngine: '0', boiler: '1.1' },
+        { fuelType: 'MGO', mainEngine: '0', auxiliaryEngine: '3.4' }
+      ],
+      rob: [
+        { fuelType: 'HFO', quantity: '1781.3' },
+        { fuelType: 'MGO', quantity: '142.0' }
+      ],
+      weather: { windDirection: 'NW', windForce: '5', seaState: '4', swellHeight: '2.5', visibility: '10' },
+      remarks: 'All well'
+    });
+  });
+
+  it('accepts decimal-degree positions and CRLF line endings', () => {
+    const { report, errors } = noonReportService.parseText('POSITION: -33.9 18.4\r\nDATE/TIME: 2024-03-22T1200Z');
+
+    expect(errors).toEqual([]);
+    expect(report.position).toEqual({ latitude: '-33.9', longitude: '18.4' });
+    expect(report.reportTime).toBe('2024-03-22T12:00:00Z');
+  });
+
+  it('reports unknown fields and values it cannot read', () => {
+    const { errors } = noonReportService.parseText([
+      'DATE/TIME (UTC): yesterday noon',
+      'POSITION: somewhere',
+      'WIND: strong',
+      'CARGO: 12000 MT'
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      'Invalid date/time: yesterday noon',
+      'Invalid position: somewhere',
+      'Invalid wind: strong',
+      'Unknown field: CARGO'
+    ]);
+  });
+
+  it('converts a parsed report into a noon report with numbers', () => {
+    const { report } = noonReportService.parseText(REPORT);
+    const noonReport = noonReportService.toNoonReport({
+      ...report,
+      reportTime: report.reportTime as string,
+      position: report.position as { latitude: string; longitude: string },
+      distanceRun: report.distanceRun as string,
+      averageSpeed: report.averageSpeed as string
+    });
+
+    expect(noonReport.reportTime).toEqual(new Date('2024-03-22T12:00:00Z'));
+    expect(noonReport.position).toEqual({ latitude: 44.8, longitude: -38.2 });
+    expect(noonReport.consumption[0]).toEqual({ fuelType: 'HFO', mainEngine: 48.2, auxiliaryEngine: 0, boiler: 1.1 });
+    expect(noonReport.rob[1]).toEqual({ fuelType: 'MGO', quantity: 142 });
+    expect(noonReport.weather).toEqual({ windDirection: 'NW', windForce: 5, seaState: 4, swellHeight: 2.5, visibility: 10 });
+  });
+});
@@ -0,0 +1,3 @@
+// Keep test output to failures; the logger reads the level when it is first imported
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';